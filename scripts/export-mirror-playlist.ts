@@ -4,7 +4,53 @@ import { loadConfig } from "../src/config";
 import { logger } from "../src/logger";
 import { buildMirrorPlaylistExport } from "../src/playlist-export";
 import { SpotifyClient } from "../src/spotify-client";
-import { readState } from "../src/state-store";
+import { profileState, readState, targetPlaylistIds } from "../src/state-store";
+import type { PlaylistItem } from "../src/types";
+
+const EXPORT_USAGE = "Usage: npm run export:mirror -- --output <ignored-json-path> [--target <key>] [--profile <name>]";
+
+/**
+ * Reads the optional `--target <key>` argument selecting which mirror to export.
+ *
+ * @param {string[]} args - Command-line arguments following the script name.
+ * @param {string} defaultKey - Target key used when the flag is absent.
+ * @returns {string} The target key to export.
+ * @throws {Error} If `--target` is given without a value.
+ */
+function readTargetKey(args: string[], defaultKey: string): string {
+  const targetIndex = args.indexOf("--target");
+  if (targetIndex < 0) {
+    return defaultKey;
+  }
+
+  const targetValue = args[targetIndex + 1]?.trim();
+  if (!targetValue) {
+    throw new Error(EXPORT_USAGE);
+  }
+
+  return targetValue;
+}
+
+/**
+ * Reads the optional `--profile <name>` argument selecting which account's mirror to export.
+ *
+ * @param {string[]} args - Command-line arguments following the script name.
+ * @returns {string | null} The profile name, or `null` for the single-account setup.
+ * @throws {Error} If `--profile` is given without a value.
+ */
+function readProfile(args: string[]): string | null {
+  const profileIndex = args.indexOf("--profile");
+  if (profileIndex < 0) {
+    return null;
+  }
+
+  const profileValue = args[profileIndex + 1]?.trim();
+  if (!profileValue) {
+    throw new Error(EXPORT_USAGE);
+  }
+
+  return profileValue;
+}
 
 /**
  * Resolves the required `--output` argument without allowing playlist metadata
@@ -19,36 +65,50 @@ function readOutputPath(args: string[]): string {
   const outputValue = outputIndex >= 0 ? args[outputIndex + 1]?.trim() : "";
 
   if (!outputValue) {
-    throw new Error("Usage: npm run export:mirror -- --output <ignored-json-path>");
+    throw new Error(EXPORT_USAGE);
   }
 
   return path.resolve(process.cwd(), outputValue);
 }
 
 /**
- * Fetches the configured mirror playlist with owner credentials and writes a
- * versioned metadata-only JSON file. No playlist write endpoint is called.
+ * Fetches a configured mirror (the first target unless `--target` is given,
+ * of the account named by `--profile` if any), with every part playlist in
+ * order, using owner credentials and writes a versioned metadata-only JSON
+ * file. Archive targets are refused. No playlist write endpoint is called.
  *
  * @returns {Promise<void>} Resolves after the export file is written.
  */
 async function main(): Promise<void> {
-  const outputPath = readOutputPath(process.argv.slice(2));
-  const config = loadConfig();
-  const state = await readState(config.stateFilePath);
-
-  if (!state.playlistId) {
-    throw new Error("The mirror playlist ID is not configured in state/state.json");
+  const args = process.argv.slice(2);
+  const outputPath = readOutputPath(args);
+  const profile = readProfile(args);
+  const config = loadConfig(profile);
+  const targetKey = readTargetKey(args, config.targets[0].key);
+  if (config.targets.find((target) => target.key === targetKey)?.archive) {
+    throw new Error(
+      `Target ${targetKey} is an archive target; its period playlists cannot be exported as one mirror. ` +
+        "Pass --target with a mirror target."
+    );
   }
 
+  const state = profileState(await readState(config.stateFilePath), profile);
+  const [playlistId, ...partPlaylistIds] = targetPlaylistIds(state, targetKey);
+
   const spotifyClient = new SpotifyClient(
     config.spotifyClientId,
     config.spotifyClientSecret,
-    config.spotifyRefreshToken
+    config.spotifyRefreshToken,
+    config.spotifyClientOptions
   );
-  const accessToken = await spotifyClient.refreshAccessToken();
-  const playlistItems = await spotifyClient.fetchAllPlaylistItems(state.playlistId, accessToken);
+  const playlistItems: PlaylistItem[] = [];
+  for (const id of [playlistId, ...partPlaylistIds]) {
+    playlistItems.push(...(await spotifyClient.fetchAllPlaylistItems(id)));
+  }
+
   const exported = buildMirrorPlaylistExport({
-    playlistId: state.playlistId,
+    playlistId,
+    partPlaylistIds,
     playlistItems,
     exportedAt: new Date().toISOString()
   });
@@ -36,7 +36,15 @@ function buildAuthUrl(params: {
     client_id: params.clientId,
     response_type: "code",
     redirect_uri: params.redirectUri,
-    scope: "user-library-read playlist-modify-public playlist-modify-private user-read-private",
+    scope: [
+      "user-library-read",
+      "user-library-modify",
+      "playlist-modify-public",
+      "playlist-modify-private",
+      "user-read-private",
+      "ugc-image-upload",
+      "user-read-playback-position"
+    ].join(" "),
     state: params.state
   });
 
@@ -0,0 +1,149 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { loadConfig } from "../src/config";
+import {
+  restoreLikedSongs,
+  restoreTracksFromExport,
+  restoreTracksFromPlaylist,
+  type RestoreTrack
+} from "../src/library-restore";
+import { logger } from "../src/logger";
+import { SpotifyClient } from "../src/spotify-client";
+import { profileState, readState, targetPlaylistIds } from "../src/state-store";
+
+const RESTORE_USAGE =
+  "Usage: npm run restore -- [--input <export-json-path> | --target <key>] [--profile <name>] [--dry-run]";
+
+interface RestoreArgs {
+  inputPath: string | null;
+  targetKey: string | null;
+  profile: string | null;
+  dryRun: boolean;
+}
+
+/**
+ * Parses the restore command's flags: `--input <path>` to restore from an
+ * export file instead of the mirror playlist, `--target <key>` to pick the
+ * mirror (the first target by default), `--profile <name>` to restore one of
+ * several accounts, and `--dry-run` to only report.
+ *
+ * @param {string[]} args - Command-line arguments following the script name.
+ * @returns {RestoreArgs} The parsed flags, with the input path resolved against the working directory.
+ * @throws {Error} If a flag has no value, `--input` and `--target` are combined, or an unknown flag is given.
+ */
+function parseRestoreArgs(args: string[]): RestoreArgs {
+  const parsed: RestoreArgs = { inputPath: null, targetKey: null, profile: null, dryRun: false };
+
+  for (let i = 0; i < args.length; i += 1) {
+    if (args[i] === "--dry-run") {
+      parsed.dryRun = true;
+    } else if (args[i] === "--input" || args[i] === "--target" || args[i] === "--profile") {
+      const value = args[i + 1]?.trim();
+      if (!value) {
+        throw new Error(RESTORE_USAGE);
+      }
+
+      if (args[i] === "--input") {
+        parsed.inputPath = path.resolve(process.cwd(), value);
+      } else if (args[i] === "--target") {
+        parsed.targetKey = value;
+      } else {
+        parsed.profile = value;
+      }
+
+      i += 1;
+    } else {
+      throw new Error(`Unknown restore argument: ${args[i]}`);
+    }
+  }
+
+  if (parsed.inputPath && parsed.targetKey) {
+    throw new Error(RESTORE_USAGE);
+  }
+
+  return parsed;
+}
+
+/**
+ * Reads the tracks of an export file written by `npm run export:mirror`.
+ *
+ * @param {string} inputPath - Absolute path to the export file.
+ * @returns {Promise<RestoreTrack[]>} The exported tracks, in playlist order.
+ * @throws {Error} If the file cannot be read, parsed or validated.
+ */
+async function readExportTracks(inputPath: string): Promise<RestoreTrack[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(inputPath, "utf8");
+  } catch (error) {
+    throw new Error(`Failed to read mirror export (${inputPath}): ${(error as Error).message}`);
+  }
+
+  try {
+    return restoreTracksFromExport(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(`Invalid mirror export (${inputPath}): ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Re-saves to Liked Songs the tracks of a mirror (every part playlist, or
+ * every period playlist of an archive target) or of an export file that are
+ * no longer liked, and reports each restored track. With `--dry-run`, only
+ * the report is produced.
+ *
+ * @returns {Promise<void>} Resolves after the restore is complete and reported.
+ */
+async function main(): Promise<void> {
+  const args = parseRestoreArgs(process.argv.slice(2));
+  const config = loadConfig(args.profile);
+  const state = profileState(await readState(config.stateFilePath, false), args.profile);
+
+  const spotifyClient = new SpotifyClient(
+    config.spotifyClientId,
+    config.spotifyClientSecret,
+    config.spotifyRefreshToken,
+    config.spotifyClientOptions
+  );
+
+  let sourceTracks: RestoreTrack[];
+  if (args.inputPath) {
+    logger.info(`Stage: reading mirror export (${args.inputPath}).`);
+    sourceTracks = await readExportTracks(args.inputPath);
+  } else {
+    const targetKey = args.targetKey ?? config.targets[0].key;
+    sourceTracks = [];
+    for (const playlistId of targetPlaylistIds(state, targetKey)) {
+      logger.info(`Stage: reading mirror playlist (target=${targetKey} playlistId=${playlistId}).`);
+      sourceTracks.push(...restoreTracksFromPlaylist(await spotifyClient.fetchAllPlaylistItems(playlistId)));
+    }
+  }
+
+  const plan = await restoreLikedSongs(spotifyClient, sourceTracks, {
+    knownLikes: state.likedTracks,
+    dryRun: args.dryRun
+  });
+
+  for (const track of plan.missing) {
+    const artists = track.artists.length > 0 ? ` — ${track.artists.join(", ")}` : "";
+    const label = track.name ? `${track.name}${artists} (${track.uri})` : track.uri;
+    logger.info(
+      `${args.dryRun ? "Would restore" : "Restored"} ${label}` + (track.likedAt ? ` liked at ${track.likedAt}` : "")
+    );
+  }
+
+  logger.info(
+    [
+      args.dryRun ? "Restore dry run complete." : "Restore complete.",
+      `sourceCount=${plan.sourceCount}`,
+      `alreadyLikedCount=${plan.alreadyLikedCount}`,
+      `${args.dryRun ? "missingCount" : "restoredCount"}=${plan.missing.length}`
+    ].join(" ")
+  );
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error(`Restore failed: ${message}`);
+  process.exitCode = 1;
+});
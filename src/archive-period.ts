@@ -0,0 +1,62 @@
+/** Length of the periods an archive target splits liked songs into. */
+export type ArchivePeriod = "month" | "year";
+
+export const ARCHIVE_PERIODS: ArchivePeriod[] = ["month", "year"];
+
+/**
+ * Checks whether a string is an IANA time zone name the runtime understands.
+ *
+ * @param {string} timeZone - The candidate time zone (e.g. `Europe/London`).
+ * @returns {boolean} True if the time zone can be used for date formatting.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the key of the period an instant falls in, as seen in a time zone:
+ * `YYYY-MM` for months and `YYYY` for years. Keys sort chronologically.
+ *
+ * @param {Date} instant - The instant to classify.
+ * @param {ArchivePeriod} period - The period length.
+ * @param {string} timeZone - IANA time zone the calendar is read in.
+ * @returns {string | null} The period key, or null if the instant is invalid.
+ */
+export function periodKeyOf(instant: Date, period: ArchivePeriod, timeZone: string): string | null {
+  if (!Number.isFinite(instant.getTime())) {
+    return null;
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit" }).formatToParts(
+    instant
+  );
+  const year = parts.find((part) => part.type === "year")!.value;
+  const month = parts.find((part) => part.type === "month")!.value;
+
+  return period === "year" ? year : `${year}-${month}`;
+}
+
+/**
+ * Returns the template variables describing a period: `{period}` (the key),
+ * `{year}`, and for months `{month}` (two digits) and `{monthName}`.
+ *
+ * @param {string} periodKey - A key returned by `periodKeyOf`.
+ * @returns {Record<string, string>} Variable values by name (without braces).
+ */
+export function periodTemplateVariables(periodKey: string): Record<string, string> {
+  const [year, month] = periodKey.split("-");
+  if (!month) {
+    return { period: periodKey, year };
+  }
+
+  const monthName = new Intl.DateTimeFormat("en-US", { month: "long", timeZone: "UTC" }).format(
+    new Date(Date.UTC(Number(year), Number(month) - 1, 1))
+  );
+
+  return { period: periodKey, year, month, monthName };
+}
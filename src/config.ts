@@ -1,14 +1,35 @@
 import "dotenv/config";
 import path from "node:path";
+import { loadMirrorConfig, type GraveyardConfig, type MirrorTargetConfig, type SafetyConfig } from "./mirror-config";
+import { parseRefreshTokenSink, persistRefreshToken, readStoredRefreshToken } from "./refresh-token-sink";
+import type { SpotifyClientOptions } from "./spotify-client";
 
 export interface AppConfig {
   spotifyClientId: string;
   spotifyClientSecret: string;
   spotifyRefreshToken: string;
+  /** Base URL overrides for the Spotify client, and where a rotated refresh token is saved. */
+  spotifyClientOptions: Pick<SpotifyClientOptions, "apiBaseUrl" | "accountsBaseUrl" | "onRefreshTokenRotated">;
   fallbackPlaylistName: string;
   stateFilePath: string;
+  targets: MirrorTargetConfig[];
+  /** Playlist collecting recently unliked tracks, or `null` when disabled. */
+  graveyard: GraveyardConfig | null;
+  /** Limits on how many tracks a run may remove from a mirror without `--force`. */
+  safety: SafetyConfig;
+  /** Replace unplayable liked tracks with a playable release of the same recording. */
+  substituteUnplayable: boolean;
+  substitutionCachePath: string;
+  /**
+   * Most hours between full syncs. Runs in between end early while Liked
+   * Songs and the playlists match the last full sync; 0 makes every run a full sync.
+   */
+  fullSyncIntervalHours: number;
 }
 
+/** Profile names: lowercase letters, digits and dashes, as for target keys. */
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
 /**
  * Reads a required environment variable, trimming surrounding whitespace.
  *
@@ -25,19 +46,154 @@ function requireEnv(name: string): string {
   return value;
 }
 
+/**
+ * Resolves the state file, shared by every profile, against the working directory.
+ *
+ * @returns {string} Absolute path of `state/state.json`.
+ */
+export function resolveStateFilePath(): string {
+  return path.resolve(process.cwd(), "state", "state.json");
+}
+
+/**
+ * Derives the name of a profile's own environment variable, e.g.
+ * `SPOTIFY_REFRESH_TOKEN_ALEX_2` for profile `alex-2`.
+ *
+ * @param {string} name - The shared variable's name.
+ * @param {string} profile - The profile name.
+ * @returns {string} The profile's variable name.
+ */
+function profileEnvName(name: string, profile: string): string {
+  return `${name}_${profile.toUpperCase().replace(/-/g, "_")}`;
+}
+
+/**
+ * Reads the profile names listed, comma-separated, in `SPOTIFY_PROFILES`.
+ *
+ * @returns {string[]} The profile names in listed order, or an empty array when profiles are not used.
+ * @throws {Error} If a name is invalid or listed twice.
+ */
+export function loadProfileNames(): string[] {
+  const value = process.env.SPOTIFY_PROFILES?.trim();
+  if (!value) {
+    return [];
+  }
+
+  const names = value.split(",").map((name) => name.trim());
+  for (const name of names) {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `SPOTIFY_PROFILES has an invalid profile name "${name}" (use lowercase letters, digits and dashes)`
+      );
+    }
+  }
+
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`SPOTIFY_PROFILES lists profile ${duplicate} more than once`);
+  }
+
+  return names;
+}
+
+/**
+ * Reads how many profiles a sync runs at once from `SYNC_CONCURRENCY`
+ * (default 1, one profile after another).
+ *
+ * @returns {number} The number of profiles to sync at once.
+ * @throws {Error} If the value is not a positive integer.
+ */
+export function loadSyncConcurrency(): number {
+  const value = process.env.SYNC_CONCURRENCY?.trim();
+  if (!value) {
+    return 1;
+  }
+
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`SYNC_CONCURRENCY must be a positive integer, got "${value}"`);
+  }
+
+  return concurrency;
+}
+
+/**
+ * Reads the most hours between full syncs from `FULL_SYNC_INTERVAL_HOURS`
+ * (default 24).
+ *
+ * @returns {number} The interval in hours; 0 makes every run a full sync.
+ * @throws {Error} If the value is not a non-negative number.
+ */
+function loadFullSyncInterval(): number {
+  const value = process.env.FULL_SYNC_INTERVAL_HOURS?.trim();
+  if (!value) {
+    return 24;
+  }
+
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(`FULL_SYNC_INTERVAL_HOURS must be a non-negative number, got "${value}"`);
+  }
+
+  return hours;
+}
+
 /**
  * Builds the application configuration from environment variables, applying
- * defaults for optional settings.
+ * defaults for optional settings, and loads the mirror targets, graveyard and
+ * safety limits from the file named by `MIRROR_CONFIG_PATH` (default
+ * `mirror.config.json`). Setting `SUBSTITUTE_UNPLAYABLE=true` enables
+ * substitution of unplayable tracks, and `SPOTIFY_API_BASE_URL` and
+ * `SPOTIFY_ACCOUNTS_BASE_URL` point the client at a proxy or a stand-in.
+ * `REFRESH_TOKEN_SINK` says where a refresh token Spotify rotates is saved;
+ * with the `state` sink, a saved token replaces the one in the environment.
+ * `FULL_SYNC_INTERVAL_HOURS` sets how often a full sync runs even when
+ * nothing seems to have changed.
  *
+ * For a profile, the refresh token comes from the profile's own variable
+ * (`SPOTIFY_REFRESH_TOKEN_<PROFILE>`), `MIRROR_CONFIG_PATH_<PROFILE>` can
+ * point the profile at its own mirror config, and substitute lookups are
+ * cached per profile, since they depend on the account's market. The client
+ * credentials are shared.
+ *
+ * @param {string | null} [profile=null] - The profile to configure, or `null` for the single-account setup.
  * @returns {AppConfig} The resolved application configuration.
- * @throws {Error} If any required Spotify credential variable is missing.
+ * @throws {Error} If any required Spotify credential variable is missing, or the mirror config or
+ *   `REFRESH_TOKEN_SINK` or `FULL_SYNC_INTERVAL_HOURS` is invalid.
  */
-export function loadConfig(): AppConfig {
+export function loadConfig(profile: string | null = null): AppConfig {
+  const envName = (name: string) => (profile === null ? name : profileEnvName(name, profile));
+  const mirrorConfigPath =
+    (profile === null ? undefined : process.env[envName("MIRROR_CONFIG_PATH")]?.trim()) ||
+    process.env.MIRROR_CONFIG_PATH?.trim() ||
+    "mirror.config.json";
+  const mirrorConfig = loadMirrorConfig(path.resolve(process.cwd(), mirrorConfigPath));
+  const refreshTokenName = envName("SPOTIFY_REFRESH_TOKEN");
+  const sinkValue = process.env.REFRESH_TOKEN_SINK?.trim();
+  const refreshTokenSink = sinkValue ? parseRefreshTokenSink(sinkValue, path.dirname(resolveStateFilePath())) : null;
+  const storedRefreshToken =
+    refreshTokenSink?.type === "state" ? readStoredRefreshToken(refreshTokenSink.path, refreshTokenName) : null;
+
   return {
     spotifyClientId: requireEnv("SPOTIFY_CLIENT_ID"),
     spotifyClientSecret: requireEnv("SPOTIFY_CLIENT_SECRET"),
-    spotifyRefreshToken: requireEnv("SPOTIFY_REFRESH_TOKEN"),
+    spotifyRefreshToken: storedRefreshToken ?? requireEnv(refreshTokenName),
+    spotifyClientOptions: {
+      apiBaseUrl: process.env.SPOTIFY_API_BASE_URL?.trim() || undefined,
+      accountsBaseUrl: process.env.SPOTIFY_ACCOUNTS_BASE_URL?.trim() || undefined,
+      onRefreshTokenRotated: (token) => persistRefreshToken(refreshTokenSink, refreshTokenName, token)
+    },
     fallbackPlaylistName: process.env.FALLBACK_PLAYLIST_NAME?.trim() || "Liked Songs Mirror",
-    stateFilePath: path.resolve(process.cwd(), "state", "state.json")
+    stateFilePath: resolveStateFilePath(),
+    targets: mirrorConfig.targets,
+    graveyard: mirrorConfig.graveyard,
+    safety: mirrorConfig.safety,
+    substituteUnplayable: process.env.SUBSTITUTE_UNPLAYABLE?.trim().toLowerCase() === "true",
+    substitutionCachePath: path.resolve(
+      process.cwd(),
+      "state",
+      profile === null ? "substitutions.json" : `substitutions-${profile}.json`
+    ),
+    fullSyncIntervalHours: loadFullSyncInterval()
   };
 }
@@ -0,0 +1,357 @@
+/** Side length, in pixels, of generated cover images. */
+export const COVER_SIZE = 640;
+
+const JPEG_QUALITY = 90;
+
+/**
+ * 5x7 bitmap glyphs for the characters a generated cover uses, one string of
+ * five pixels per row.
+ */
+const GLYPHS: Record<string, string[]> = {
+  "0": ["01110", "10001", "10011", "10101", "11001", "10001", "01110"],
+  "1": ["00100", "01100", "00100", "00100", "00100", "00100", "01110"],
+  "2": ["01110", "10001", "00001", "00010", "00100", "01000", "11111"],
+  "3": ["11110", "00001", "00001", "01110", "00001", "00001", "11110"],
+  "4": ["00010", "00110", "01010", "10010", "11111", "00010", "00010"],
+  "5": ["11111", "10000", "11110", "00001", "00001", "10001", "01110"],
+  "6": ["00110", "01000", "10000", "11110", "10001", "10001", "01110"],
+  "7": ["11111", "00001", "00010", "00100", "01000", "01000", "01000"],
+  "8": ["01110", "10001", "10001", "01110", "10001", "10001", "01110"],
+  "9": ["01110", "10001", "10001", "01111", "00001", "00010", "01100"],
+  ",": ["00000", "00000", "00000", "00000", "00110", "00100", "01000"],
+  G: ["01110", "10001", "10000", "10111", "10001", "10001", "01111"],
+  N: ["10001", "11001", "10101", "10011", "10001", "10001", "10001"],
+  O: ["01110", "10001", "10001", "10001", "10001", "10001", "01110"],
+  S: ["01111", "10000", "10000", "01110", "00001", "00001", "11110"]
+};
+
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47,
+  55, 62, 63
+];
+
+/** Base quantization tables from the JPEG specification (Annex K), in natural order. */
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51,
+  87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+];
+const CHROMINANCE_QUANTIZATION = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99,
+  99, 99, 99, ...new Array<number>(32).fill(99)
+];
+
+// Flat Huffman tables: every DC category gets a 4-bit code and every AC
+// symbol an 8-bit code equal to its index. Larger than optimized tables, but
+// valid for any image, and generated covers are mostly flat colour anyway.
+const DC_CODE_LENGTH = 4;
+const DC_SYMBOLS = Array.from({ length: 12 }, (_, category) => category);
+const AC_CODE_LENGTH = 8;
+const AC_SYMBOLS = [
+  0x00,
+  0xf0,
+  ...Array.from({ length: 16 * 10 }, (_, index) => (Math.floor(index / 10) << 4) | ((index % 10) + 1))
+];
+const AC_CODES = new Map(AC_SYMBOLS.map((symbol, index) => [symbol, index]));
+
+const COSINES = Array.from({ length: 64 }, (_, index) => {
+  const [frequency, position] = [Math.floor(index / 8), index % 8];
+  return Math.cos(((2 * position + 1) * frequency * Math.PI) / 16);
+});
+
+/**
+ * Collects entropy-coded bits, stuffing a zero byte after every 0xFF as the
+ * JPEG format requires.
+ */
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  /**
+   * @param {number} value - The bits to write, right-aligned.
+   * @param {number} length - Number of bits to write.
+   * @returns {void}
+   */
+  write(value: number, length: number): void {
+    for (let bit = length - 1; bit >= 0; bit -= 1) {
+      this.current = (this.current << 1) | ((value >> bit) & 1);
+      this.count += 1;
+      if (this.count === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /**
+   * Pads the last byte with one bits and returns everything written.
+   *
+   * @returns {number[]} The entropy-coded bytes.
+   */
+  finish(): number[] {
+    if (this.count > 0) {
+      this.pushByte((this.current << (8 - this.count)) | ((1 << (8 - this.count)) - 1));
+    }
+
+    return this.bytes;
+  }
+
+  private pushByte(byte: number): void {
+    this.bytes.push(byte);
+    if (byte === 0xff) {
+      this.bytes.push(0);
+    }
+  }
+}
+
+/**
+ * Scales a base quantization table to a quality from 1 to 100 using the
+ * IJG formula.
+ *
+ * @param {number[]} base - The base table, in natural order.
+ * @param {number} quality - The quality setting.
+ * @returns {number[]} The scaled table, in natural order.
+ */
+function scaleQuantization(base: number[], quality: number): number[] {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return base.map((value) => Math.min(Math.max(Math.floor((value * scale + 50) / 100), 1), 255));
+}
+
+/**
+ * Returns the JPEG magnitude category of a coefficient (its bit length) and
+ * the bits that encode it within that category.
+ *
+ * @param {number} value - The quantized coefficient.
+ * @returns {[number, number]} The category and the value bits.
+ */
+function magnitude(value: number): [number, number] {
+  const category = value === 0 ? 0 : Math.floor(Math.log2(Math.abs(value))) + 1;
+  return [category, value < 0 ? (value - 1) & ((1 << category) - 1) : value];
+}
+
+/**
+ * Transforms, quantizes and entropy-codes one 8x8 block of samples.
+ *
+ * @param {BitWriter} writer - Destination for the coded bits.
+ * @param {Float64Array} block - 64 level-shifted samples, row by row.
+ * @param {number[]} quantization - The component's quantization table, in natural order.
+ * @param {number} previousDc - The quantized DC coefficient of the component's previous block.
+ * @returns {number} This block's quantized DC coefficient.
+ */
+function encodeBlock(writer: BitWriter, block: Float64Array, quantization: number[], previousDc: number): number {
+  // Separable DCT: transform each row, then each column of the result.
+  const rows = new Float64Array(64);
+  for (let y = 0; y < 8; y += 1) {
+    for (let u = 0; u < 8; u += 1) {
+      let sum = 0;
+      for (let x = 0; x < 8; x += 1) {
+        sum += block[y * 8 + x] * COSINES[u * 8 + x];
+      }
+
+      rows[y * 8 + u] = sum;
+    }
+  }
+
+  const coefficients = new Array<number>(64);
+  for (let u = 0; u < 8; u += 1) {
+    for (let v = 0; v < 8; v += 1) {
+      let sum = 0;
+      for (let y = 0; y < 8; y += 1) {
+        sum += rows[y * 8 + u] * COSINES[v * 8 + y];
+      }
+
+      const scale = (u === 0 ? Math.SQRT1_2 : 1) * (v === 0 ? Math.SQRT1_2 : 1) * 0.25;
+      coefficients[v * 8 + u] = Math.round((sum * scale) / quantization[v * 8 + u]);
+    }
+  }
+
+  const dc = coefficients[0];
+  const [dcCategory, dcBits] = magnitude(dc - previousDc);
+  writer.write(dcCategory, DC_CODE_LENGTH);
+  writer.write(dcBits, dcCategory);
+
+  let zeroRun = 0;
+  for (let index = 1; index < 64; index += 1) {
+    const value = coefficients[ZIGZAG[index]];
+    if (value === 0) {
+      zeroRun += 1;
+      continue;
+    }
+
+    for (; zeroRun >= 16; zeroRun -= 16) {
+      writer.write(AC_CODES.get(0xf0)!, AC_CODE_LENGTH);
+    }
+
+    const [category, bits] = magnitude(value);
+    writer.write(AC_CODES.get((zeroRun << 4) | category)!, AC_CODE_LENGTH);
+    writer.write(bits, category);
+    zeroRun = 0;
+  }
+
+  if (zeroRun > 0) {
+    writer.write(AC_CODES.get(0x00)!, AC_CODE_LENGTH);
+  }
+
+  return dc;
+}
+
+/**
+ * Builds a JPEG marker segment.
+ *
+ * @param {number} marker - The marker's second byte (e.g. 0xdb for DQT).
+ * @param {number[]} payload - The segment payload.
+ * @returns {number[]} The marker, its length, and the payload.
+ */
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/**
+ * Builds a DHT payload for a table whose symbols all share one code length.
+ *
+ * @param {number} tableClass - 0 for DC, 1 for AC.
+ * @param {number} codeLength - The shared code length, 1 to 16.
+ * @param {number[]} symbols - The symbols, in code order.
+ * @returns {number[]} The table's DHT payload.
+ */
+function huffmanTable(tableClass: number, codeLength: number, symbols: number[]): number[] {
+  const counts = new Array<number>(16).fill(0);
+  counts[codeLength - 1] = symbols.length;
+  return [tableClass << 4, ...counts, ...symbols];
+}
+
+/**
+ * Encodes an RGB image as a baseline JPEG with full-resolution chroma.
+ *
+ * @param {Uint8Array} rgb - Pixels row by row, three bytes per pixel.
+ * @param {number} width - Image width in pixels.
+ * @param {number} height - Image height in pixels.
+ * @param {number} quality - Quality from 1 to 100.
+ * @returns {Buffer} The JPEG file contents.
+ */
+function encodeJpeg(rgb: Uint8Array, width: number, height: number, quality: number): Buffer {
+  const quantizations = [
+    scaleQuantization(LUMINANCE_QUANTIZATION, quality),
+    scaleQuantization(CHROMINANCE_QUANTIZATION, quality)
+  ];
+  const writer = new BitWriter();
+  const previousDc = [0, 0, 0];
+  const blocks = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      for (let index = 0; index < 64; index += 1) {
+        // Edge blocks repeat the last row and column of pixels.
+        const x = Math.min(blockX + (index % 8), width - 1);
+        const y = Math.min(blockY + Math.floor(index / 8), height - 1);
+        const offset = (y * width + x) * 3;
+        const [r, g, b] = [rgb[offset], rgb[offset + 1], rgb[offset + 2]];
+        blocks[0][index] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+        blocks[1][index] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+        blocks[2][index] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+      }
+
+      for (let component = 0; component < 3; component += 1) {
+        previousDc[component] = encodeBlock(
+          writer,
+          blocks[component],
+          quantizations[component === 0 ? 0 : 1],
+          previousDc[component]
+        );
+      }
+    }
+  }
+
+  return Buffer.from([
+    0xff,
+    0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xdb, [0, ...ZIGZAG.map((index) => quantizations[0][index])]),
+    ...segment(0xdb, [1, ...ZIGZAG.map((index) => quantizations[1][index])]),
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]),
+    ...segment(0xc4, [
+      ...huffmanTable(0, DC_CODE_LENGTH, DC_SYMBOLS),
+      ...huffmanTable(1, AC_CODE_LENGTH, AC_SYMBOLS)
+    ]),
+    ...segment(0xda, [3, 1, 0x00, 2, 0x00, 3, 0x00, 0, 63, 0]),
+    ...writer.finish(),
+    0xff,
+    0xd9
+  ]);
+}
+
+/**
+ * Parses a `#rrggbb` colour.
+ *
+ * @param {string} hex - The colour.
+ * @returns {[number, number, number]} Its red, green and blue components.
+ */
+function parseHexColor(hex: string): [number, number, number] {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Draws text in the bitmap font, centred horizontally, with its top edge at `top`.
+ *
+ * @param {Uint8Array} rgb - The image pixels, updated in place.
+ * @param {string} text - Characters present in `GLYPHS`.
+ * @param {number} scale - Size of one font pixel, in image pixels.
+ * @param {number} top - Row of the text's top edge.
+ * @param {[number, number, number]} color - The text colour.
+ * @returns {void}
+ */
+function drawText(rgb: Uint8Array, text: string, scale: number, top: number, color: [number, number, number]): void {
+  const left = Math.floor((COVER_SIZE - (text.length * 6 - 1) * scale) / 2);
+
+  for (const [position, character] of [...text].entries()) {
+    for (const [row, pixels] of GLYPHS[character].entries()) {
+      for (const [column, pixel] of [...pixels].entries()) {
+        if (pixel !== "1") {
+          continue;
+        }
+
+        for (let y = top + row * scale; y < top + (row + 1) * scale; y += 1) {
+          const x = left + (position * 6 + column) * scale;
+          for (let offset = 0; offset < scale; offset += 1) {
+            rgb.set(color, (y * COVER_SIZE + x + offset) * 3);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Renders a square cover image showing a playlist's track count (e.g.
+ * "1,234" over "SONGS") as a JPEG suitable for Spotify's playlist image
+ * upload. The output depends only on its arguments.
+ *
+ * @param {number} trackCount - The number of tracks to show.
+ * @param {{ background: string; foreground: string }} colors - `#rrggbb` background and text colours.
+ * @returns {Buffer} The JPEG file contents.
+ */
+export function renderCountCover(trackCount: number, colors: { background: string; foreground: string }): Buffer {
+  const rgb = new Uint8Array(COVER_SIZE * COVER_SIZE * 3);
+  const background = parseHexColor(colors.background);
+  for (let offset = 0; offset < rgb.length; offset += 3) {
+    rgb.set(background, offset);
+  }
+
+  const count = trackCount.toLocaleString("en-US");
+  const label = trackCount === 1 ? "SONG" : "SONGS";
+  const countScale = Math.min(Math.floor((COVER_SIZE * 0.8) / (count.length * 6 - 1)), 40);
+  const labelScale = 10;
+  const gap = 4 * labelScale;
+  const top = Math.floor((COVER_SIZE - (7 * countScale + gap + 7 * labelScale)) / 2);
+  const foreground = parseHexColor(colors.foreground);
+
+  drawText(rgb, count, countScale, top, foreground);
+  drawText(rgb, label, labelScale, top + 7 * countScale + gap, foreground);
+
+  return encodeJpeg(rgb, COVER_SIZE, COVER_SIZE, JPEG_QUALITY);
+}
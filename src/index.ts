@@ -1,44 +1,316 @@
-import { loadConfig } from "./config";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { loadConfig, loadProfileNames, loadSyncConcurrency, resolveStateFilePath } from "./config";
 import { logger } from "./logger";
+import { runProfiles } from "./profile-runner";
 import { SpotifyClient } from "./spotify-client";
-import { readState, writeState } from "./state-store";
+import { describeViolation } from "./safety-guard";
+import { profileState, readState, withProfileState, writeState } from "./state-store";
+import { formatSyncPlan } from "./sync-plan";
 import { syncLikedSongsMirror } from "./sync-service";
+import { readSubstitutionCache, writeSubstitutionCache } from "./track-substitution";
+import type { AppState } from "./types";
+
+interface SyncArgs {
+  dryRun: boolean;
+  force: boolean;
+  full: boolean;
+  planOutputPath: string | null;
+}
+
+/**
+ * How one profile's sync ended.
+ */
+interface ProfileSyncResult {
+  /** The profile's state to persist, or `null` to leave it as it was (a refused run). */
+  nextState: AppState | null;
+  /** `false` if playlists were left untouched by the drift policy or the safety limits. */
+  completed: boolean;
+}
+
+const SYNC_USAGE = "Usage: npm run sync -- [--dry-run] [--force] [--full] [--plan-output <json-path>]";
 
 /**
- * Entry point for the sync run: loads configuration and persisted state,
- * constructs the Spotify client, performs the liked-songs mirror sync,
- * persists any new playlist ID, and logs a summary of the run.
+ * Parses the sync command's flags: `--dry-run` to preview without writing,
+ * `--force` to apply removals past the safety limits, `--full` to sync even
+ * when nothing seems to have changed, and `--plan-output <path>` to also
+ * save the plan as JSON.
  *
- * @returns {Promise<void>} Resolves once the sync has completed and results are logged.
+ * @param {string[]} args - Command-line arguments following the script name.
+ * @returns {SyncArgs} The parsed flags, with the plan path resolved against the working directory.
+ * @throws {Error} If `--plan-output` has no value or an unknown flag is given.
  */
-async function main(): Promise<void> {
-  const config = loadConfig();
-  const state = await readState(config.stateFilePath);
+function parseSyncArgs(args: string[]): SyncArgs {
+  const parsed: SyncArgs = { dryRun: false, force: false, full: false, planOutputPath: null };
+
+  for (let i = 0; i < args.length; i += 1) {
+    if (args[i] === "--dry-run") {
+      parsed.dryRun = true;
+    } else if (args[i] === "--force") {
+      parsed.force = true;
+    } else if (args[i] === "--full") {
+      parsed.full = true;
+    } else if (args[i] === "--plan-output") {
+      const value = args[i + 1]?.trim();
+      if (!value) {
+        throw new Error(SYNC_USAGE);
+      }
+
+      parsed.planOutputPath = path.resolve(process.cwd(), value);
+      i += 1;
+    } else {
+      throw new Error(`Unknown sync argument: ${args[i]}`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Syncs one account: loads its configuration, constructs the Spotify client,
+ * syncs every configured mirror target, and logs a per-target summary. The
+ * sync is incomplete if a playlist was left untouched under the `stop` drift
+ * policy, or if removals were refused by the mass-removal guard (listing the
+ * rejected plan); `--force` applies them anyway. With `--dry-run`, the plan
+ * is printed instead and Spotify is not modified. A run that finds Liked
+ * Songs and the playlists unchanged since the last full sync ends early,
+ * unless `--full` is given.
+ *
+ * @param {string | null} profile - The profile to sync, or `null` for the single-account setup.
+ * @param {AppState} state - The account's persisted state.
+ * @param {SyncArgs} args - The sync command's flags.
+ * @returns {Promise<ProfileSyncResult>} The account's next state and whether the sync completed.
+ */
+async function syncProfile(profile: string | null, state: AppState, args: SyncArgs): Promise<ProfileSyncResult> {
+  const config = loadConfig(profile);
 
   const spotifyClient = new SpotifyClient(
     config.spotifyClientId,
     config.spotifyClientSecret,
-    config.spotifyRefreshToken
+    config.spotifyRefreshToken,
+    config.spotifyClientOptions
   );
 
-  const result = await syncLikedSongsMirror(spotifyClient, config, state);
+  const substitutionCache = config.substituteUnplayable
+    ? await readSubstitutionCache(config.substitutionCachePath)
+    : undefined;
+  const result = await syncLikedSongsMirror(spotifyClient, config, state, {
+    dryRun: args.dryRun,
+    force: args.force,
+    fullSync: args.full,
+    substitutionCache
+  });
+
+  if (args.dryRun) {
+    for (const line of result.plans.flatMap(formatSyncPlan)) {
+      logger.info(line);
+    }
+  }
+
+  const { safetyViolations, refused } = result.summary;
+  if (safetyViolations.length > 0) {
+    for (const violation of safetyViolations) {
+      logger.error(`Mass-removal guard: ${describeViolation(violation)}`);
+    }
+
+    if (!args.dryRun) {
+      // Show the rejected changes: the whole run when it was held back,
+      // otherwise the targets with a refused playlist.
+      const heldTargets = new Set(safetyViolations.map((violation) => violation.target));
+      const rejectedPlans = refused ? result.plans : result.plans.filter((plan) => heldTargets.has(plan.target));
+      for (const line of rejectedPlans.flatMap(formatSyncPlan)) {
+        logger.error(line);
+      }
+    }
+  }
 
-  if (state.playlistId !== result.nextState.playlistId) {
-    await writeState(config.stateFilePath, result.nextState);
-    logger.info("Updated state/state.json with mirror playlist ID.");
+  if (args.planOutputPath) {
+    await fs.mkdir(path.dirname(args.planOutputPath), { recursive: true });
+    await fs.writeFile(args.planOutputPath, `${JSON.stringify(result.plans, null, 2)}\n`, "utf8");
+    logger.info(`Wrote sync plan to ${args.planOutputPath}.`);
+  }
+
+  if (result.summary.unchanged) {
+    logger.info(
+      "Sync skipped: Liked Songs and the playlists are unchanged since the last full sync. " +
+        `likedCount=${result.summary.likedCount}`
+    );
+    return { nextState: result.nextState, completed: true };
+  }
+
+  if (
+    !args.dryRun &&
+    result.substitutionCache &&
+    JSON.stringify(substitutionCache) !== JSON.stringify(result.substitutionCache)
+  ) {
+    await writeSubstitutionCache(config.substitutionCachePath, result.substitutionCache);
+    logger.info(`Updated state/${path.basename(config.substitutionCachePath)} with substitute lookups.`);
   }
 
   logger.info(
     [
-      "Sync complete.",
-      `playlistId=${result.summary.playlistId}`,
-      `createdPlaylist=${result.summary.createdPlaylist}`,
+      args.dryRun ? "Dry run complete." : refused ? "Sync refused." : "Sync complete.",
       `likedCount=${result.summary.likedCount}`,
-      `candidateCount=${result.summary.candidateCount}`,
-      `mirroredCount=${result.summary.mirroredCount}`,
-      `skippedCount=${result.summary.skippedCount}`
+      `substitutedCount=${result.summary.substitutions.length}`,
+      `unresolvedCount=${result.summary.unresolvedTracks.length}`,
+      `targetCount=${result.summary.targets.length}`
     ].join(" ")
   );
+
+  for (const substitution of result.summary.substitutions) {
+    logger.info(
+      `Substituted ${substitution.name ?? substitution.originalUri}: ${substitution.originalUri} -> ` +
+        `${substitution.substituteUri} (matched by ${substitution.matchedBy})`
+    );
+  }
+
+  for (const track of result.summary.unresolvedTracks) {
+    logger.info(`Unresolved unplayable track: ${track.name ?? track.uri} (${track.uri})`);
+  }
+
+  for (const target of result.summary.targets) {
+    logger.info(
+      [
+        `Target ${target.key}:`,
+        `source=${target.source}`,
+        `playlistId=${target.playlistId}`,
+        `order=${target.order}`,
+        ...(target.shuffleSeed === null ? [] : [`shuffleSeed=${target.shuffleSeed}`]),
+        `createdPlaylist=${target.createdPlaylist}`,
+        `partCount=${target.partCount}`,
+        `retiredPartCount=${target.retiredPartCount}`,
+        `periodCount=${target.periodCount}`,
+        `frozenPeriodCount=${target.frozenPeriodCount}`,
+        `candidateCount=${target.candidateCount}`,
+        `mirroredCount=${target.mirroredCount}`,
+        `skippedCount=${target.skippedCount}`,
+        `filteredCount=${target.filteredCount}`,
+        `duplicateCount=${target.duplicates.length}`,
+        `addedCount=${target.addedCount}`,
+        `removedCount=${target.removedCount}`,
+        `movedCount=${target.movedCount}`
+      ].join(" ")
+    );
+
+    for (const exclusion of target.ruleExclusions) {
+      logger.info(`Target ${target.key}: filter rule "${exclusion.rule}" excluded ${exclusion.excludedCount} track(s).`);
+    }
+
+    for (const duplicate of target.duplicates) {
+      logger.info(
+        `Target ${target.key}: collapsed duplicate ${duplicate.name ?? duplicate.droppedUri} ` +
+          `${duplicate.droppedUri} -> kept ${duplicate.keptUri} (matched by ${duplicate.matchedBy})`
+      );
+    }
+
+    for (const drift of target.drift) {
+      logger.warn(
+        `Target ${target.key}: playlist ${drift.playlistId} was edited outside the bot ` +
+          `(added=${drift.addedUris.length} removed=${drift.removedUris.length} reordered=${drift.reordered}); ` +
+          `${drift.action}.`
+      );
+    }
+  }
+
+  const graveyard = result.summary.graveyard;
+  if (graveyard) {
+    logger.info(
+      [
+        "Graveyard:",
+        `playlistId=${graveyard.playlistId}`,
+        `unlikedCount=${graveyard.unlikedCount}`,
+        `relikedCount=${graveyard.relikedCount}`,
+        `expiredCount=${graveyard.expiredCount}`,
+        `trackCount=${graveyard.trackCount}`,
+        `addedCount=${graveyard.addedCount}`,
+        `removedCount=${graveyard.removedCount}`,
+        `movedCount=${graveyard.movedCount}`
+      ].join(" ")
+    );
+  }
+
+  let completed = true;
+  const stopped = result.summary.targets.flatMap((target) => target.drift).filter((drift) => drift.action === "stopped");
+  if (stopped.length > 0) {
+    logger.error(
+      `Left ${stopped.length} playlist(s) edited outside the bot untouched (drift policy "stop"). ` +
+        "Undo the edits or change the policy to resume syncing them."
+    );
+    completed = false;
+  }
+
+  if (safetyViolations.length > 0 && !args.dryRun) {
+    const heldCount = safetyViolations.filter((violation) => violation.playlistId !== null).length;
+    logger.error(
+      (refused
+        ? "Nothing was written because a target's selection or Liked Songs shrank past the safety limits."
+        : `Left ${heldCount} playlist(s) untouched because their removals exceed the safety limits.`) +
+        " If the removals are intended, re-run with --force (npm run sync -- --force)."
+    );
+    completed = false;
+  }
+
+  return { nextState: refused ? null : result.nextState, completed };
+}
+
+/**
+ * Entry point for the sync run: reads the persisted state, syncs the single
+ * account or every profile listed in `SPOTIFY_PROFILES` (up to
+ * `SYNC_CONCURRENCY` at once), and persists any new playlist IDs. A profile
+ * that fails is reported without stopping the others, and the run fails if
+ * any profile failed or left playlists untouched. With several profiles, a
+ * combined summary closes the run. A dry run leaves the state file alone.
+ *
+ * @returns {Promise<void>} Resolves once every sync has completed and results are logged.
+ */
+async function main(): Promise<void> {
+  const args = parseSyncArgs(process.argv.slice(2));
+  const profiles = loadProfileNames();
+  const concurrency = loadSyncConcurrency();
+  const stateFilePath = resolveStateFilePath();
+  const state = await readState(stateFilePath, !args.dryRun);
+
+  const outcomes = await runProfiles(profiles.length > 0 ? profiles : [null], concurrency, (profile) =>
+    syncProfile(profile, profileState(state, profile), args)
+  );
+
+  let nextState = state;
+  for (const outcome of outcomes) {
+    if (outcome.error) {
+      logger.error(
+        `${outcome.profile === null ? "Sync" : `Profile ${outcome.profile}`} failed: ${outcome.error.message}`
+      );
+    } else if (outcome.result!.nextState) {
+      nextState = withProfileState(nextState, outcome.profile, outcome.result!.nextState);
+    }
+  }
+
+  if (!args.dryRun && JSON.stringify(state) !== JSON.stringify(nextState)) {
+    await writeState(stateFilePath, nextState);
+    logger.info("Updated state/state.json with mirror playlist IDs.");
+  }
+
+  if (profiles.length > 0) {
+    const status = (outcome: (typeof outcomes)[number]) =>
+      outcome.error ? "failed" : outcome.result!.completed ? "synced" : "held";
+    logger.info(
+      [
+        args.dryRun ? "Profiles dry run complete." : "Profiles complete.",
+        `profileCount=${outcomes.length}`,
+        `syncedCount=${outcomes.filter((outcome) => status(outcome) === "synced").length}`,
+        `heldCount=${outcomes.filter((outcome) => status(outcome) === "held").length}`,
+        `failedCount=${outcomes.filter((outcome) => status(outcome) === "failed").length}`
+      ].join(" ")
+    );
+
+    for (const outcome of outcomes) {
+      logger.info(`Profile ${outcome.profile}: status=${status(outcome)}`);
+    }
+  }
+
+  if (outcomes.some((outcome) => outcome.error || !outcome.result!.completed)) {
+    process.exitCode = 1;
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,141 @@
+import { createHash } from "node:crypto";
+import type { AppConfig } from "./config";
+import { findRelativeLikedAtRule } from "./track-filter";
+import { describeSource } from "./track-source";
+import type { AppState, LibraryFingerprint, PagingResponse, SavedTrackItem } from "./types";
+
+/** The settings that decide what a sync writes, hashed into the fingerprint. */
+type SyncSettings = Pick<AppConfig, "targets" | "graveyard" | "substituteUnplayable" | "fallbackPlaylistName">;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Works out why a run cannot be skipped on an unchanged library: a target
+ * that reads anything besides Liked Songs can change without the library
+ * changing, and a rolling window, a `likedAt.withinDays` filter or graveyard
+ * retention measured in days drops tracks as time passes.
+ *
+ * @param {Pick<AppConfig, "targets" | "graveyard">} config - The mirror targets and graveyard.
+ * @returns {string | null} Why every run must be a full sync, or null if unchanged runs can be skipped.
+ */
+export function fingerprintBlocker(config: Pick<AppConfig, "targets" | "graveyard">): string | null {
+  for (const target of config.targets) {
+    if (target.source.type !== "liked-songs") {
+      return `target ${target.key} reads ${describeSource(target.source)}`;
+    }
+
+    if (target.window?.days) {
+      return `target ${target.key} has a rolling window of ${target.window.days} day(s)`;
+    }
+
+    const rule = findRelativeLikedAtRule(target.filter);
+    if (rule) {
+      return `target ${target.key} filters on the like date with rule "${rule.name}"`;
+    }
+  }
+
+  if (config.graveyard?.retention?.days) {
+    return `the graveyard keeps unliked tracks for ${config.graveyard.retention.days} day(s)`;
+  }
+
+  return null;
+}
+
+/**
+ * Hashes the settings that decide what a sync writes, so a fingerprint taken
+ * under other settings is not trusted.
+ *
+ * @param {SyncSettings} config - The application configuration.
+ * @returns {string} SHA-256 of the settings.
+ */
+export function hashSyncSettings(config: SyncSettings): string {
+  const { targets, graveyard, substituteUnplayable, fallbackPlaylistName } = config;
+  return createHash("sha256")
+    .update(JSON.stringify({ targets, graveyard, substituteUnplayable, fallbackPlaylistName }))
+    .digest("hex");
+}
+
+/**
+ * Lists every playlist the bot manages for the configured targets and
+ * graveyard: each target's playlist, part playlists and archive playlists,
+ * and the graveyard playlist.
+ *
+ * @param {AppState} state - The state after a sync.
+ * @param {Pick<AppConfig, "targets" | "graveyard">} config - The mirror targets and graveyard.
+ * @returns {string[]} The playlist IDs.
+ */
+export function managedPlaylistIds(state: AppState, config: Pick<AppConfig, "targets" | "graveyard">): string[] {
+  const ids = config.targets.flatMap((target) => {
+    const targetState = state.targets[target.key];
+    return [
+      ...(targetState?.playlistId ? [targetState.playlistId] : []),
+      ...(targetState?.partPlaylistIds ?? []),
+      ...Object.values(targetState?.archivePlaylistIds ?? {})
+    ];
+  });
+  if (config.graveyard && state.graveyard?.playlistId) {
+    ids.push(state.graveyard.playlistId);
+  }
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Takes the library's side of a fingerprint from the first page of liked
+ * tracks.
+ *
+ * @param {PagingResponse<SavedTrackItem>} firstPage - The first page of liked tracks, newest first.
+ * @param {string} configHash - Hash of the current sync settings, from `hashSyncSettings`.
+ * @returns {Omit<LibraryFingerprint, "playlistSnapshots" | "reconciledAt">} The library's fingerprint.
+ */
+export function fingerprintLibrary(
+  firstPage: PagingResponse<SavedTrackItem>,
+  configHash: string
+): Omit<LibraryFingerprint, "playlistSnapshots" | "reconciledAt"> {
+  return {
+    total: firstPage.total,
+    newestAddedAt: firstPage.items[0]?.added_at ?? null,
+    firstPageTrackIds: firstPage.items.map((item) => item.track?.id ?? null),
+    configHash
+  };
+}
+
+/**
+ * Compares the library against the last full sync's fingerprint. The
+ * playlists' snapshots are checked separately, as reading them takes a
+ * request each.
+ *
+ * @param {LibraryFingerprint | undefined} previous - The fingerprint stored by the last full sync, if any.
+ * @param {Omit<LibraryFingerprint, "playlistSnapshots" | "reconciledAt">} current - The library as it is now.
+ * @param {number} intervalHours - Most hours between full syncs.
+ * @param {Date} now - Time of this run.
+ * @returns {string | null} Why a full sync is needed, or null if the library is unchanged.
+ */
+export function fullSyncReason(
+  previous: LibraryFingerprint | undefined,
+  current: Omit<LibraryFingerprint, "playlistSnapshots" | "reconciledAt">,
+  intervalHours: number,
+  now: Date
+): string | null {
+  if (!previous) {
+    return "no earlier full sync was fingerprinted";
+  }
+
+  if (previous.configHash !== current.configHash) {
+    return "the sync settings changed";
+  }
+
+  if (now.getTime() - Date.parse(previous.reconciledAt) >= intervalHours * HOUR_MS) {
+    return `the last full sync was ${intervalHours} or more hour(s) ago`;
+  }
+
+  if (
+    previous.total !== current.total ||
+    previous.newestAddedAt !== current.newestAddedAt ||
+    previous.firstPageTrackIds.join("\n") !== current.firstPageTrackIds.join("\n")
+  ) {
+    return "Liked Songs changed";
+  }
+
+  return null;
+}
@@ -0,0 +1,192 @@
+import { logger } from "./logger";
+import { SPOTIFY_LIBRARY_SAVE_BATCH_SIZE, SpotifyClient } from "./spotify-client";
+import type { LikedTrackState, PlaylistItem, SavedTrackItem } from "./types";
+
+const TRACK_URI_PREFIX = "spotify:track:";
+
+/**
+ * A track from a restore source (the mirror playlist or an export file).
+ */
+export interface RestoreTrack {
+  uri: string;
+  name: string | null;
+  /** Credited artist names, primary artist first. */
+  artists: string[];
+  /** When the track was originally liked, if known. */
+  likedAt: string | null;
+}
+
+export interface RestorePlan {
+  /** Number of distinct tracks in the source. */
+  sourceCount: number;
+  /** Number of source tracks that are still liked. */
+  alreadyLikedCount: number;
+  /** Source tracks missing from Liked Songs, in the order they are saved (oldest like first). */
+  missing: RestoreTrack[];
+}
+
+/**
+ * Reads the restorable tracks of a playlist, in playlist order. Episodes,
+ * local files and unavailable entries are left out.
+ *
+ * @param {PlaylistItem[]} items - The playlist's items, from `fetchAllPlaylistItems`.
+ * @returns {RestoreTrack[]} The playlist's tracks.
+ */
+export function restoreTracksFromPlaylist(items: PlaylistItem[]): RestoreTrack[] {
+  return items.flatMap((entry): RestoreTrack[] => {
+    const item = entry.item;
+    if (!item || item.type !== "track" || item.is_local || !item.uri?.startsWith(TRACK_URI_PREFIX)) {
+      return [];
+    }
+
+    return [{ uri: item.uri, name: item.name, artists: item.artists.map((artist) => artist.name), likedAt: null }];
+  });
+}
+
+/**
+ * Reads the tracks of a mirror export file (`MirrorPlaylistExport`), in
+ * playlist order.
+ *
+ * @param {unknown} raw - The parsed export file.
+ * @returns {RestoreTrack[]} The exported tracks.
+ * @throws {Error} If the document is not a schema version 2 export or a track is malformed.
+ */
+export function restoreTracksFromExport(raw: unknown): RestoreTrack[] {
+  const document = raw as { schemaVersion?: unknown; tracks?: unknown } | null;
+  if (typeof document !== "object" || document === null || document.schemaVersion !== 2) {
+    throw new Error("Mirror export must have schemaVersion 2");
+  }
+
+  if (!Array.isArray(document.tracks)) {
+    throw new Error("Mirror export must contain a \"tracks\" array");
+  }
+
+  const tracks = document.tracks.map((value: unknown, index) => {
+    const track = value as { playlistPosition?: unknown; uri?: unknown; name?: unknown; artists?: unknown } | null;
+    if (
+      typeof track !== "object" ||
+      track === null ||
+      typeof track.uri !== "string" ||
+      !track.uri.startsWith(TRACK_URI_PREFIX) ||
+      typeof track.playlistPosition !== "number"
+    ) {
+      throw new Error(`tracks[${index}] must have a track "uri" and a "playlistPosition"`);
+    }
+
+    const artists = Array.isArray(track.artists) ? (track.artists as Array<{ name?: unknown }>) : [];
+    return {
+      position: track.playlistPosition,
+      track: {
+        uri: track.uri,
+        name: typeof track.name === "string" ? track.name : null,
+        artists: artists.flatMap((artist) => (typeof artist?.name === "string" ? [artist.name] : [])),
+        likedAt: null
+      }
+    };
+  });
+
+  return tracks.sort((a, b) => a.position - b.position).map((entry) => entry.track);
+}
+
+/**
+ * Works out which source tracks are missing from Liked Songs. The source is
+ * taken to list tracks newest like first (the mirror's default order), so
+ * missing tracks are saved in reverse, leaving the newest like on top. Like
+ * times recorded in state (kept while a graveyard is configured) are
+ * attached, so those tracks return to their original place.
+ *
+ * @param {RestoreTrack[]} sourceTracks - The source's tracks, newest like first.
+ * @param {SavedTrackItem[]} likedTracks - The current liked tracks.
+ * @param {Record<string, LikedTrackState>} [knownLikes] - Liked tracks recorded by earlier sync runs, by URI.
+ * @returns {RestorePlan} The tracks to save and how many are already liked.
+ */
+export function planRestore(
+  sourceTracks: RestoreTrack[],
+  likedTracks: SavedTrackItem[],
+  knownLikes: Record<string, LikedTrackState> = {}
+): RestorePlan {
+  const liked = new Set(likedTracks.map((item) => item.track?.uri));
+  const seen = new Set<string>();
+  const missing: RestoreTrack[] = [];
+  let alreadyLikedCount = 0;
+
+  for (const track of sourceTracks) {
+    if (seen.has(track.uri)) {
+      continue;
+    }
+
+    seen.add(track.uri);
+    if (liked.has(track.uri)) {
+      alreadyLikedCount += 1;
+      continue;
+    }
+
+    missing.push({ ...track, likedAt: track.likedAt ?? knownLikes[track.uri]?.likedAt ?? null });
+  }
+
+  return { sourceCount: seen.size, alreadyLikedCount, missing: missing.reverse() };
+}
+
+/**
+ * Splits the tracks to save into requests: runs of tracks that all have (or
+ * all lack) a like time, at most 50 each, keeping the save order.
+ *
+ * @param {RestoreTrack[]} tracks - The tracks to save, in order.
+ * @returns {RestoreTrack[][]} The tracks of each request, in order.
+ */
+function batchRestoreTracks(tracks: RestoreTrack[]): RestoreTrack[][] {
+  const batches: RestoreTrack[][] = [];
+  for (const track of tracks) {
+    const last = batches[batches.length - 1];
+    if (
+      last &&
+      last.length < SPOTIFY_LIBRARY_SAVE_BATCH_SIZE &&
+      (last[0].likedAt === null) === (track.likedAt === null)
+    ) {
+      last.push(track);
+    } else {
+      batches.push([track]);
+    }
+  }
+
+  return batches;
+}
+
+/**
+ * Re-saves the source tracks missing from Liked Songs (or, in a dry run,
+ * only plans it). The saves need the `user-library-modify` scope.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {RestoreTrack[]} sourceTracks - The source's tracks, newest like first.
+ * @param {{ knownLikes?: Record<string, LikedTrackState>; dryRun?: boolean }} [options]
+ *   Like times recorded by earlier sync runs, and whether to skip the saves.
+ * @returns {Promise<RestorePlan>} The plan that was applied (or previewed).
+ * @throws {SpotifyApiError} If a Spotify request fails.
+ */
+export async function restoreLikedSongs(
+  spotifyClient: SpotifyClient,
+  sourceTracks: RestoreTrack[],
+  options: { knownLikes?: Record<string, LikedTrackState>; dryRun?: boolean } = {}
+): Promise<RestorePlan> {
+  logger.info("Stage: fetching liked tracks.");
+  const likedTracks = await spotifyClient.fetchAllLikedTracks();
+  const plan = planRestore(sourceTracks, likedTracks, options.knownLikes);
+  logger.info(
+    `Stage: planned restore sourceCount=${plan.sourceCount} alreadyLikedCount=${plan.alreadyLikedCount} ` +
+      `missingCount=${plan.missing.length}`
+  );
+
+  if (options.dryRun) {
+    logger.info("Stage: dry run, skipping library saves.");
+    return plan;
+  }
+
+  for (const batch of batchRestoreTracks(plan.missing)) {
+    logger.info(`Stage: saving ${batch.length} track(s) to Liked Songs.`);
+    await spotifyClient.saveLikedTracks(
+      batch.map((track) => ({ id: track.uri.slice(TRACK_URI_PREFIX.length), likedAt: track.likedAt }))
+    );
+  }
+
+  return plan;
+}
@@ -1,3 +1,7 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const prefixes = new AsyncLocalStorage<string>();
+
 /**
  * Produces the current time as an ISO 8601 timestamp string.
  *
@@ -7,9 +11,31 @@ function timestamp(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Produces the prefix of the current log context, if any.
+ *
+ * @returns {string} The bracketed prefix followed by a space, or an empty string.
+ */
+function contextPrefix(): string {
+  const prefix = prefixes.getStore();
+  return prefix ? `[${prefix}] ` : "";
+}
+
+/**
+ * Runs a function with every message it logs, including from asynchronous
+ * work it starts, prefixed with a label, so interleaved runs can be told apart.
+ *
+ * @param {string} prefix - The label, e.g. `profile=alex`.
+ * @param {() => Promise<T>} run - The function to run.
+ * @returns {Promise<T>} The function's result.
+ */
+export function withLogPrefix<T>(prefix: string, run: () => Promise<T>): Promise<T> {
+  return prefixes.run(prefix, run);
+}
+
 /**
  * Minimal console-based logger that prefixes each message with an ISO
- * timestamp and a severity level.
+ * timestamp, a severity level and the current log context's prefix.
  */
 export const logger = {
   /**
@@ -19,7 +45,7 @@ export const logger = {
    * @returns {void}
    */
   info(message: string): void {
-    console.log(`[${timestamp()}] INFO ${message}`);
+    console.log(`[${timestamp()}] INFO ${contextPrefix()}${message}`);
   },
   /**
    * Logs a warning message to stderr.
@@ -28,7 +54,7 @@ export const logger = {
    * @returns {void}
    */
   warn(message: string): void {
-    console.warn(`[${timestamp()}] WARN ${message}`);
+    console.warn(`[${timestamp()}] WARN ${contextPrefix()}${message}`);
   },
   /**
    * Logs an error message to stderr.
@@ -37,6 +63,6 @@ export const logger = {
    * @returns {void}
    */
   error(message: string): void {
-    console.error(`[${timestamp()}] ERROR ${message}`);
+    console.error(`[${timestamp()}] ERROR ${contextPrefix()}${message}`);
   }
 };
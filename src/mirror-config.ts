@@ -0,0 +1,742 @@
+import { readFileSync } from "node:fs";
+import { ARCHIVE_PERIODS, isValidTimeZone, type ArchivePeriod } from "./archive-period";
+import { DRIFT_POLICIES, type DriftPolicy } from "./mirror-drift";
+import type { DedupeConfig } from "./track-dedupe";
+import { parseFilterRules, type FilterRule } from "./track-filter";
+import { MIRROR_ORDERS, type MirrorOrder } from "./track-order";
+import { ALBUM_LAYOUTS, SOURCE_TYPES, type AlbumLayout, type SourceType, type TargetSource } from "./track-source";
+import type { PlaylistVisibility } from "./types";
+
+/** Key of the target used when no config file exists; legacy single-playlist state maps onto it. */
+export const DEFAULT_TARGET_KEY = "liked-songs";
+
+const TARGET_KEY_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const VISIBILITIES: PlaylistVisibility[] = ["public", "private", "collaborative"];
+
+/** Most items Spotify allows in a single playlist. */
+export const SPOTIFY_PLAYLIST_ITEM_LIMIT = 10000;
+
+/**
+ * Restricts a target to recent likes: those liked within the last `days`
+ * days and/or among the `count` most recent likes (both must hold when both
+ * are set). `null` leaves that bound open.
+ */
+export interface LikedWindow {
+  days: number | null;
+  count: number | null;
+}
+
+/**
+ * Turns a target into a set of archive playlists, one per month or year of
+ * like dates, instead of a single mirror.
+ */
+export interface ArchiveConfig {
+  period: ArchivePeriod;
+  /** Description template for newly created archive playlists. */
+  description: string;
+  /** IANA time zone used to decide which period a like falls in. */
+  timeZone: string;
+  /** Whether unliked tracks are still removed from the playlists of closed periods. */
+  pruneClosed: boolean;
+}
+
+/**
+ * Where a managed cover image comes from: a JPEG file, or an image generated
+ * on every run showing the playlist's track count.
+ */
+export type CoverConfig =
+  | { source: "file"; path: string }
+  | { source: "generated"; background: string; foreground: string };
+
+/**
+ * Playlist details kept current on every run instead of only being set when
+ * the playlist is created.
+ */
+export interface PlaylistDetailsConfig {
+  /** Description template, or `null` to leave the description as created. */
+  description: string | null;
+  /** Whether the name is reset to the rendered name template when it differs. */
+  enforceName: boolean;
+  cover: CoverConfig | null;
+}
+
+/**
+ * A playlist collecting tracks that were removed from Liked Songs, newest
+ * unlike last, trimmed to the retention limits.
+ */
+export interface GraveyardConfig {
+  name: string;
+  description: string;
+  visibility: PlaylistVisibility;
+  /**
+   * Which unliked tracks stay: those unliked within the last `days` days
+   * and/or the `count` most recent unlikes. `null` keeps them until the
+   * playlist limit is reached.
+   */
+  retention: LikedWindow | null;
+}
+
+/**
+ * Limits on how many tracks one run may remove from a mirror before it is
+ * refused (unless forced). A `null` limit is not checked.
+ */
+export interface SafetyConfig {
+  /** Most tracks a run may remove, as a percentage of the previous count. */
+  maxRemovedPercent: number | null;
+  /** Most tracks a run may remove. */
+  maxRemovedCount: number | null;
+}
+
+/**
+ * The validated contents of the mirror config file.
+ */
+export interface MirrorConfig {
+  targets: MirrorTargetConfig[];
+  /** The graveyard playlist, or `null` when unliked tracks are not collected. */
+  graveyard: GraveyardConfig | null;
+  safety: SafetyConfig;
+}
+
+const DEFAULT_DEDUPE_TOLERANCE_SECONDS = 3;
+const DEFAULT_ARCHIVE_NAME = "Liked — {period}";
+const DEFAULT_ARCHIVE_DESCRIPTION = "Songs liked in {period} (auto-synced archive)";
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const DEFAULT_COVER_BACKGROUND = "#121212";
+const DEFAULT_COVER_FOREGROUND = "#1db954";
+const DEFAULT_GRAVEYARD_NAME = "Recently Unliked";
+const DEFAULT_GRAVEYARD_DESCRIPTION = "Songs recently removed from Liked Songs (auto-synced)";
+const DEFAULT_MAX_REMOVED_PERCENT = 50;
+/** Default name template of each source's targets; sources without one need a `name`. */
+const DEFAULT_SOURCE_NAMES: Partial<Record<SourceType, string | null>> = {
+  "liked-songs": null,
+  "saved-albums": "{displayName}'s Saved Albums",
+  "saved-episodes": "{displayName}'s Saved Episodes"
+};
+const SOURCE_FIELDS: Record<SourceType, string[]> = {
+  "liked-songs": [],
+  "saved-albums": ["layout"],
+  "saved-episodes": [],
+  playlist: ["playlist"],
+  "uri-file": ["path"],
+  union: ["sources"],
+  intersection: ["sources"],
+  difference: ["from", "minus"]
+};
+const PLAYLIST_REFERENCE_PATTERNS = [
+  /^([A-Za-z0-9]+)$/,
+  /^spotify:playlist:([A-Za-z0-9]+)$/,
+  /^https:\/\/open\.spotify\.com\/(?:intl-[a-z-]+\/)?playlist\/([A-Za-z0-9]+)\/?(?:[?#].*)?$/
+];
+
+/**
+ * One mirror playlist declared in the config file.
+ */
+export interface MirrorTargetConfig {
+  /** Stable identifier used as the target's key in `state/state.json`. */
+  key: string;
+  /** Where the target's tracks come from; defaults to Liked Songs. */
+  source: TargetSource;
+  /**
+   * Name template for a newly created playlist; `{displayName}` and `{userId}`
+   * (and, for archives, the period variables) are substituted. Saved-album
+   * and saved-episode targets default to `{displayName}'s Saved Albums` (or
+   * `Episodes`), other non-library sources require one; `null` uses
+   * `<display name>'s Liked Songs`.
+   */
+  name: string | null;
+  visibility: PlaylistVisibility;
+  /** Rolling window of recent likes the target draws from, or `null` for the whole library. */
+  window: LikedWindow | null;
+  /** Filter rules applied in order (after the window); empty keeps every playable track. */
+  filter: FilterRule[];
+  /** Collapses different releases of the same recording, or `null` to only drop repeated URIs. */
+  dedupe: DedupeConfig | null;
+  order: MirrorOrder;
+  /**
+   * Seed for the `shuffle` order; the order stays the same between runs until
+   * the seed changes. Defaults to the target key.
+   */
+  shuffleSeed: string;
+  /**
+   * Most tracks kept in one playlist; larger mirrors continue in
+   * "<name> (Part N)" playlists. Defaults to Spotify's playlist limit.
+   */
+  maxTracksPerPlaylist: number;
+  /** Archive settings, or `null` for a regular mirror. */
+  archive: ArchiveConfig | null;
+  /** Details kept current on every run, or `null` to only set them at creation. */
+  details: PlaylistDetailsConfig | null;
+  /** What to do about edits made to the playlists by hand, or `null` to not look for them. */
+  drift: DriftPolicy | null;
+}
+
+/**
+ * Returns the target list used when no config file is present: a single
+ * public, unfiltered, newest-first mirror of all liked songs.
+ *
+ * @returns {MirrorTargetConfig[]} The default target list.
+ */
+export function defaultMirrorTargets(): MirrorTargetConfig[] {
+  return [
+    {
+      key: DEFAULT_TARGET_KEY,
+      source: { type: "liked-songs" },
+      name: null,
+      visibility: "public",
+      window: null,
+      filter: [],
+      dedupe: null,
+      order: "newest-first",
+      shuffleSeed: DEFAULT_TARGET_KEY,
+      maxTracksPerPlaylist: SPOTIFY_PLAYLIST_ITEM_LIMIT,
+      archive: null,
+      details: null,
+      drift: null
+    }
+  ];
+}
+
+/**
+ * Checks that a value is a plain (non-array) object.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a non-null, non-array object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a target's `window`, which must set `days` and/or `count` as
+ * positive integers.
+ *
+ * @param {unknown} raw - The raw `window` value, or undefined when absent.
+ * @param {string} where - Location for error messages.
+ * @returns {LikedWindow | null} The validated window, or null when absent.
+ * @throws {Error} If the window is malformed or empty.
+ */
+function parseLikedWindow(raw: unknown, where: string): LikedWindow | null {
+  if (raw === undefined) {
+    return null;
+  }
+
+  if (!isObject(raw) || Object.keys(raw).length === 0) {
+    throw new Error(`${where} must set "days" and/or "count"`);
+  }
+
+  const window: LikedWindow = { days: null, count: null };
+  for (const [field, bound] of Object.entries(raw)) {
+    if (field !== "days" && field !== "count") {
+      throw new Error(`${where} has unknown field "${field}" (expected "days" or "count")`);
+    }
+
+    if (typeof bound !== "number" || !Number.isInteger(bound) || bound <= 0) {
+      throw new Error(`${where}.${field} must be a positive integer`);
+    }
+
+    window[field] = bound;
+  }
+
+  return window;
+}
+
+/**
+ * Extracts a playlist ID from a bare ID, a `spotify:playlist:` URI or an
+ * `open.spotify.com` playlist URL.
+ *
+ * @param {string} value - The playlist reference.
+ * @returns {string | null} The playlist ID, or null if the value is not a playlist reference.
+ */
+function parsePlaylistId(value: string): string | null {
+  for (const pattern of PLAYLIST_REFERENCE_PATTERNS) {
+    const match = pattern.exec(value.trim());
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates a target's `source` (or one part of a combined source): a source
+ * type name, or an object with `type` and the type's fields.
+ *
+ * @param {unknown} raw - The raw `source` value, or undefined when absent.
+ * @param {string} where - Location for error messages.
+ * @param {boolean} [topLevel=true] - Whether this is the target's own source rather than a part of one.
+ * @returns {TargetSource} The validated source, or Liked Songs when a target's source is absent.
+ * @throws {Error} If the source is malformed.
+ */
+function parseSource(raw: unknown, where: string, topLevel = true): TargetSource {
+  if (raw === undefined && topLevel) {
+    return { type: "liked-songs" };
+  }
+
+  const settings = typeof raw === "string" ? { type: raw } : raw;
+  if (!isObject(settings)) {
+    throw new Error(`${where} must be a source type or an object with "type"`);
+  }
+
+  const type = settings.type as SourceType;
+  if (!SOURCE_TYPES.includes(type)) {
+    throw new Error(`${where}${typeof raw === "string" ? "" : ".type"} must be one of: ${SOURCE_TYPES.join(", ")}`);
+  }
+
+  const unknownField = Object.keys(settings).find((field) => field !== "type" && !SOURCE_FIELDS[type].includes(field));
+  if (unknownField) {
+    throw new Error(`${where} has unknown field "${unknownField}"`);
+  }
+
+  switch (type) {
+    case "saved-albums":
+      if (settings.layout !== undefined && !topLevel) {
+        throw new Error(`${where}.layout only applies to a target's own source, not to part of a combined one`);
+      }
+
+      if (settings.layout !== undefined && !ALBUM_LAYOUTS.includes(settings.layout as AlbumLayout)) {
+        throw new Error(`${where}.layout must be one of: ${ALBUM_LAYOUTS.join(", ")}`);
+      }
+
+      return { type, layout: (settings.layout as AlbumLayout | undefined) ?? "tracks" };
+    case "playlist": {
+      const playlistId = typeof settings.playlist === "string" ? parsePlaylistId(settings.playlist) : null;
+      if (!playlistId) {
+        throw new Error(`${where}.playlist must be a playlist ID, spotify:playlist: URI or open.spotify.com URL`);
+      }
+
+      return { type, playlistId };
+    }
+    case "uri-file":
+      if (typeof settings.path !== "string" || !settings.path.trim()) {
+        throw new Error(`${where}.path must be a non-empty string`);
+      }
+
+      return { type, path: settings.path.trim() };
+    case "union":
+    case "intersection":
+      if (!Array.isArray(settings.sources) || settings.sources.length === 0) {
+        throw new Error(`${where}.sources must be a non-empty array of sources`);
+      }
+
+      return {
+        type,
+        sources: settings.sources.map((part, index) => parseSource(part, `${where}.sources[${index}]`, false))
+      };
+    case "difference":
+      if (!Array.isArray(settings.minus) || settings.minus.length === 0) {
+        throw new Error(`${where}.minus must be a non-empty array of sources`);
+      }
+
+      return {
+        type,
+        from: parseSource(settings.from, `${where}.from`, false),
+        minus: settings.minus.map((part, index) => parseSource(part, `${where}.minus[${index}]`, false))
+      };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Validates a target's `dedupe` settings, applying defaults. `true` enables
+ * dedupe with the defaults.
+ *
+ * @param {unknown} raw - The raw `dedupe` value, or undefined when absent.
+ * @param {string} where - Location for error messages.
+ * @returns {DedupeConfig | null} The validated settings, or null when dedupe is off.
+ * @throws {Error} If the settings are malformed.
+ */
+function parseDedupe(raw: unknown, where: string): DedupeConfig | null {
+  if (raw === undefined || raw === false) {
+    return null;
+  }
+
+  const settings = raw === true ? {} : raw;
+  if (!isObject(settings)) {
+    throw new Error(`${where} must be true, false, or an object with "keep" and/or "durationToleranceSeconds"`);
+  }
+
+  const unknownField = Object.keys(settings).find((field) => !["keep", "durationToleranceSeconds"].includes(field));
+  if (unknownField) {
+    throw new Error(`${where} has unknown field "${unknownField}"`);
+  }
+
+  if (settings.keep !== undefined && settings.keep !== "latest" && settings.keep !== "earliest") {
+    throw new Error(`${where}.keep must be one of: latest, earliest`);
+  }
+
+  const tolerance = settings.durationToleranceSeconds;
+  if (tolerance !== undefined && (typeof tolerance !== "number" || !Number.isFinite(tolerance) || tolerance < 0)) {
+    throw new Error(`${where}.durationToleranceSeconds must be a non-negative number`);
+  }
+
+  return {
+    keep: (settings.keep as DedupeConfig["keep"] | undefined) ?? "latest",
+    durationToleranceSeconds: (tolerance as number | undefined) ?? DEFAULT_DEDUPE_TOLERANCE_SECONDS
+  };
+}
+
+/**
+ * Validates a target's `archive` settings, applying defaults.
+ *
+ * @param {unknown} raw - The raw `archive` value, or undefined when absent.
+ * @param {string} where - Location for error messages.
+ * @returns {ArchiveConfig | null} The validated settings, or null when absent.
+ * @throws {Error} If the settings are malformed.
+ */
+function parseArchive(raw: unknown, where: string): ArchiveConfig | null {
+  if (raw === undefined) {
+    return null;
+  }
+
+  if (!isObject(raw) || !ARCHIVE_PERIODS.includes(raw.period as ArchivePeriod)) {
+    throw new Error(`${where}.period must be one of: ${ARCHIVE_PERIODS.join(", ")}`);
+  }
+
+  const unknownField = Object.keys(raw).find(
+    (field) => !["period", "description", "timeZone", "pruneClosed"].includes(field)
+  );
+  if (unknownField) {
+    throw new Error(`${where} has unknown field "${unknownField}"`);
+  }
+
+  if (raw.description !== undefined && (typeof raw.description !== "string" || !raw.description.trim())) {
+    throw new Error(`${where}.description must be a non-empty string`);
+  }
+
+  if (raw.timeZone !== undefined && (typeof raw.timeZone !== "string" || !isValidTimeZone(raw.timeZone))) {
+    throw new Error(`${where}.timeZone must be an IANA time zone such as "Europe/London"`);
+  }
+
+  if (raw.pruneClosed !== undefined && typeof raw.pruneClosed !== "boolean") {
+    throw new Error(`${where}.pruneClosed must be true or false`);
+  }
+
+  return {
+    period: raw.period as ArchivePeriod,
+    description: typeof raw.description === "string" ? raw.description.trim() : DEFAULT_ARCHIVE_DESCRIPTION,
+    timeZone: (raw.timeZone as string | undefined) ?? "UTC",
+    pruneClosed: raw.pruneClosed === true
+  };
+}
+
+/**
+ * Validates a `details.cover` setting: `{ "file": "<path to .jpg>" }` or
+ * `{ "generate": true }` with optional `#rrggbb` colours.
+ *
+ * @param {unknown} raw - The raw `cover` value, or undefined when absent.
+ * @param {string} where - Location for error messages.
+ * @returns {CoverConfig | null} The validated cover, or null when absent.
+ * @throws {Error} If the cover is malformed.
+ */
+function parseCover(raw: unknown, where: string): CoverConfig | null {
+  if (raw === undefined) {
+    return null;
+  }
+
+  if (isObject(raw) && Object.keys(raw).length === 1 && typeof raw.file === "string") {
+    if (!/\.jpe?g$/i.test(raw.file)) {
+      throw new Error(`${where}.file must be a .jpg or .jpeg file`);
+    }
+
+    return { source: "file", path: raw.file };
+  }
+
+  if (!isObject(raw) || raw.generate !== true) {
+    throw new Error(`${where} must be { "file": "<path>" } or { "generate": true }`);
+  }
+
+  const unknownField = Object.keys(raw).find((field) => !["generate", "background", "foreground"].includes(field));
+  if (unknownField) {
+    throw new Error(`${where} has unknown field "${unknownField}"`);
+  }
+
+  for (const field of ["background", "foreground"]) {
+    if (raw[field] !== undefined && (typeof raw[field] !== "string" || !HEX_COLOR_PATTERN.test(raw[field]))) {
+      throw new Error(`${where}.${field} must be a colour such as "#1db954"`);
+    }
+  }
+
+  return {
+    source: "generated",
+    background: (raw.background as string | undefined) ?? DEFAULT_COVER_BACKGROUND,
+    foreground: (raw.foreground as string | undefined) ?? DEFAULT_COVER_FOREGROUND
+  };
+}
+
+/**
+ * Validates a target's `details` settings.
+ *
+ * @param {unknown} raw - The raw `details` value, or undefined when absent.
+ * @param {string} where - Location for error messages.
+ * @returns {PlaylistDetailsConfig | null} The validated settings, or null when absent.
+ * @throws {Error} If the settings are malformed.
+ */
+function parseDetails(raw: unknown, where: string): PlaylistDetailsConfig | null {
+  if (raw === undefined) {
+    return null;
+  }
+
+  if (!isObject(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const unknownField = Object.keys(raw).find((field) => !["description", "enforceName", "cover"].includes(field));
+  if (unknownField) {
+    throw new Error(`${where} has unknown field "${unknownField}"`);
+  }
+
+  if (raw.description !== undefined && (typeof raw.description !== "string" || !raw.description.trim())) {
+    throw new Error(`${where}.description must be a non-empty string`);
+  }
+
+  if (raw.enforceName !== undefined && typeof raw.enforceName !== "boolean") {
+    throw new Error(`${where}.enforceName must be true or false`);
+  }
+
+  return {
+    description: typeof raw.description === "string" ? raw.description.trim() : null,
+    enforceName: raw.enforceName === true,
+    cover: parseCover(raw.cover, `${where}.cover`)
+  };
+}
+
+/**
+ * Validates the top-level `graveyard` settings, applying defaults.
+ *
+ * @param {unknown} raw - The raw `graveyard` value, or undefined when absent.
+ * @returns {GraveyardConfig | null} The validated settings, or null when absent.
+ * @throws {Error} If the settings are malformed.
+ */
+function parseGraveyard(raw: unknown): GraveyardConfig | null {
+  if (raw === undefined) {
+    return null;
+  }
+
+  if (!isObject(raw)) {
+    throw new Error("graveyard must be an object");
+  }
+
+  const unknownField = Object.keys(raw).find(
+    (field) => !["name", "description", "visibility", "retention"].includes(field)
+  );
+  if (unknownField) {
+    throw new Error(`graveyard has unknown field "${unknownField}"`);
+  }
+
+  for (const field of ["name", "description"]) {
+    if (raw[field] !== undefined && (typeof raw[field] !== "string" || !raw[field].trim())) {
+      throw new Error(`graveyard.${field} must be a non-empty string`);
+    }
+  }
+
+  if (raw.visibility !== undefined && !VISIBILITIES.includes(raw.visibility as PlaylistVisibility)) {
+    throw new Error(`graveyard.visibility must be one of: ${VISIBILITIES.join(", ")}`);
+  }
+
+  return {
+    name: typeof raw.name === "string" ? raw.name.trim() : DEFAULT_GRAVEYARD_NAME,
+    description: typeof raw.description === "string" ? raw.description.trim() : DEFAULT_GRAVEYARD_DESCRIPTION,
+    visibility: (raw.visibility as PlaylistVisibility | undefined) ?? "private",
+    retention: parseLikedWindow(raw.retention, "graveyard.retention")
+  };
+}
+
+/**
+ * Returns the mass-removal limits used when the config does not set them:
+ * at most half of a mirror may be removed in one run.
+ *
+ * @returns {SafetyConfig} The default limits.
+ */
+export function defaultSafetyConfig(): SafetyConfig {
+  return { maxRemovedPercent: DEFAULT_MAX_REMOVED_PERCENT, maxRemovedCount: null };
+}
+
+/**
+ * Validates the top-level `safety` settings, applying defaults. A limit set
+ * to `null` is turned off.
+ *
+ * @param {unknown} raw - The raw `safety` value, or undefined when absent.
+ * @returns {SafetyConfig} The validated limits.
+ * @throws {Error} If the settings are malformed.
+ */
+function parseSafety(raw: unknown): SafetyConfig {
+  if (raw === undefined) {
+    return defaultSafetyConfig();
+  }
+
+  if (!isObject(raw)) {
+    throw new Error("safety must be an object");
+  }
+
+  const unknownField = Object.keys(raw).find((field) => !["maxRemovedPercent", "maxRemovedCount"].includes(field));
+  if (unknownField) {
+    throw new Error(`safety has unknown field "${unknownField}"`);
+  }
+
+  const percent = raw.maxRemovedPercent;
+  if (percent !== undefined && percent !== null && (typeof percent !== "number" || percent < 0 || percent > 100)) {
+    throw new Error("safety.maxRemovedPercent must be a number from 0 to 100, or null");
+  }
+
+  const count = raw.maxRemovedCount;
+  if (count !== undefined && count !== null && (typeof count !== "number" || !Number.isInteger(count) || count < 0)) {
+    throw new Error("safety.maxRemovedCount must be a non-negative integer, or null");
+  }
+
+  return {
+    maxRemovedPercent: percent === undefined ? DEFAULT_MAX_REMOVED_PERCENT : (percent as number | null),
+    maxRemovedCount: (count as number | null | undefined) ?? null
+  };
+}
+
+/**
+ * Validates one entry of the `targets` array, applying defaults.
+ *
+ * @param {unknown} raw - The raw target value.
+ * @param {number} index - Position of the target in the array, for error messages.
+ * @returns {MirrorTargetConfig} The validated target.
+ * @throws {Error} If the target is malformed.
+ */
+function parseTarget(raw: unknown, index: number): MirrorTargetConfig {
+  const where = `targets[${index}]`;
+  if (!isObject(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  if (typeof raw.key !== "string" || !TARGET_KEY_PATTERN.test(raw.key)) {
+    throw new Error(`${where}.key must be lowercase letters, digits and dashes (e.g. "all-likes")`);
+  }
+
+  if (raw.name !== undefined && (typeof raw.name !== "string" || !raw.name.trim())) {
+    throw new Error(`${where}.name must be a non-empty string`);
+  }
+
+  if (raw.visibility !== undefined && !VISIBILITIES.includes(raw.visibility as PlaylistVisibility)) {
+    throw new Error(`${where}.visibility must be one of: ${VISIBILITIES.join(", ")}`);
+  }
+
+  if (raw.order !== undefined && !MIRROR_ORDERS.includes(raw.order as MirrorOrder)) {
+    throw new Error(`${where}.order must be one of: ${MIRROR_ORDERS.join(", ")}`);
+  }
+
+  if (raw.shuffleSeed !== undefined) {
+    if (typeof raw.shuffleSeed !== "string" || !raw.shuffleSeed) {
+      throw new Error(`${where}.shuffleSeed must be a non-empty string`);
+    }
+
+    if (raw.order !== "shuffle") {
+      throw new Error(`${where}.shuffleSeed is only used with order "shuffle"`);
+    }
+  }
+
+  const maxTracks = raw.maxTracksPerPlaylist;
+  if (
+    maxTracks !== undefined &&
+    (typeof maxTracks !== "number" ||
+      !Number.isInteger(maxTracks) ||
+      maxTracks < 1 ||
+      maxTracks > SPOTIFY_PLAYLIST_ITEM_LIMIT)
+  ) {
+    throw new Error(`${where}.maxTracksPerPlaylist must be an integer from 1 to ${SPOTIFY_PLAYLIST_ITEM_LIMIT}`);
+  }
+
+  if (raw.drift !== undefined && !DRIFT_POLICIES.includes(raw.drift as DriftPolicy)) {
+    throw new Error(`${where}.drift must be one of: ${DRIFT_POLICIES.join(", ")}`);
+  }
+
+  const archive = parseArchive(raw.archive, `${where}.archive`);
+  if (archive && maxTracks !== undefined) {
+    throw new Error(`${where}.maxTracksPerPlaylist cannot be combined with archive`);
+  }
+
+  const source = parseSource(raw.source, `${where}.source`);
+  const defaultName = archive ? DEFAULT_ARCHIVE_NAME : DEFAULT_SOURCE_NAMES[source.type];
+  if (raw.name === undefined && defaultName === undefined) {
+    throw new Error(`${where}.name is required for a "${source.type}" source`);
+  }
+
+  return {
+    key: raw.key,
+    source,
+    name: typeof raw.name === "string" ? raw.name.trim() : (defaultName ?? null),
+    visibility: (raw.visibility as PlaylistVisibility | undefined) ?? "public",
+    window: parseLikedWindow(raw.window, `${where}.window`),
+    filter: parseFilterRules(raw.filter, `${where}.filter`),
+    dedupe: parseDedupe(raw.dedupe, `${where}.dedupe`),
+    order: (raw.order as MirrorOrder | undefined) ?? "newest-first",
+    shuffleSeed: (raw.shuffleSeed as string | undefined) ?? raw.key,
+    maxTracksPerPlaylist: (maxTracks as number | undefined) ?? SPOTIFY_PLAYLIST_ITEM_LIMIT,
+    archive,
+    details: parseDetails(raw.details, `${where}.details`),
+    drift: (raw.drift as DriftPolicy | undefined) ?? null
+  };
+}
+
+/**
+ * Validates a parsed mirror config document and returns its targets.
+ *
+ * @param {unknown} raw - The parsed JSON document.
+ * @returns {MirrorTargetConfig[]} The validated targets, in declaration order.
+ * @throws {Error} If the document, or any target in it, is malformed or keys repeat.
+ */
+export function parseMirrorTargets(raw: unknown): MirrorTargetConfig[] {
+  if (!isObject(raw) || !Array.isArray(raw.targets) || raw.targets.length === 0) {
+    throw new Error("Mirror config must contain a non-empty \"targets\" array");
+  }
+
+  const targets = raw.targets.map(parseTarget);
+  const seenKeys = new Set<string>();
+  for (const target of targets) {
+    if (seenKeys.has(target.key)) {
+      throw new Error(`Duplicate mirror target key: ${target.key}`);
+    }
+
+    seenKeys.add(target.key);
+  }
+
+  return targets;
+}
+
+/**
+ * Validates a parsed mirror config document: its targets, the optional
+ * graveyard playlist and the mass-removal limits.
+ *
+ * @param {unknown} raw - The parsed JSON document.
+ * @returns {MirrorConfig} The validated config.
+ * @throws {Error} If any part of the document is malformed.
+ */
+export function parseMirrorConfig(raw: unknown): MirrorConfig {
+  const targets = parseMirrorTargets(raw);
+  const { graveyard, safety } = raw as Record<string, unknown>;
+  return { targets, graveyard: parseGraveyard(graveyard), safety: parseSafety(safety) };
+}
+
+/**
+ * Reads the mirror config file. A missing file yields the default
+ * single-target setup without a graveyard and with the default safety
+ * limits, so existing deployments keep working unchanged.
+ *
+ * @param {string} configFilePath - Absolute path to the JSON config file.
+ * @returns {MirrorConfig} The configured (or default) targets, graveyard and safety limits.
+ * @throws {Error} If the file cannot be read or parsed, or fails validation.
+ */
+export function loadMirrorConfig(configFilePath: string): MirrorConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(configFilePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { targets: defaultMirrorTargets(), graveyard: null, safety: defaultSafetyConfig() };
+    }
+
+    throw new Error(`Failed to read mirror config (${configFilePath}): ${(error as Error).message}`);
+  }
+
+  try {
+    return parseMirrorConfig(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(`Invalid mirror config (${configFilePath}): ${(error as Error).message}`);
+  }
+}
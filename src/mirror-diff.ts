@@ -0,0 +1,249 @@
+/** Maximum number of items Spotify accepts in a single playlist add or remove call. */
+export const SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE = 100;
+
+/**
+ * A single positional write applied to the mirror after removals, in order.
+ * Positions refer to the playlist as it stands immediately before the step.
+ */
+export type MirrorDiffStep =
+  | { op: "insert"; position: number; uris: string[] }
+  | { op: "move"; uris: string[]; rangeStart: number; insertBefore: number };
+
+/**
+ * Minimal set of operations that turns the live mirror contents into the
+ * desired track order.
+ */
+export interface MirrorDiffPlan {
+  /** URIs to remove (every occurrence) before any step is applied. */
+  removeUris: string[];
+  /** Inserts and moves, to be applied sequentially after the removals. */
+  steps: MirrorDiffStep[];
+  /**
+   * When set, the playlist is rewritten to these URIs instead, as moving the
+   * tracks would take too many calls. `removeUris` and the inserts in `steps`
+   * then only describe the change (inserts at their final positions).
+   */
+  replaceUris: string[] | null;
+  /** Number of tracks inserted by the plan. */
+  addedCount: number;
+  /** Number of playlist entries removed by the plan. */
+  removedCount: number;
+  /** Number of tracks repositioned via the reorder endpoint. */
+  movedCount: number;
+}
+
+/**
+ * Returns the indices (into `values`) of one longest strictly increasing
+ * subsequence, using patience sorting in O(n log n).
+ *
+ * @param {number[]} values - Sequence to search.
+ * @returns {number[]} Indices of the subsequence in ascending order.
+ */
+function longestIncreasingSubsequence(values: number[]): number[] {
+  const tailIndices: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  for (let i = 0; i < values.length; i += 1) {
+    let low = 0;
+    let high = tailIndices.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tailIndices[mid]] < values[i]) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    previous[i] = low > 0 ? tailIndices[low - 1] : -1;
+    tailIndices[low] = i;
+  }
+
+  const result: number[] = [];
+  let cursor = tailIndices.length > 0 ? tailIndices[tailIndices.length - 1] : -1;
+  while (cursor >= 0) {
+    result.push(cursor);
+    cursor = previous[cursor];
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Most reorder calls worth making before rewriting the playlist instead: one
+ * more than the calls a rewrite of `count` tracks takes.
+ *
+ * @param {number} count - Number of tracks in the desired playlist.
+ * @returns {number} The largest number of move steps to plan.
+ */
+export function defaultMaxMoveSteps(count: number): number {
+  return Math.ceil(count / SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE) + 1;
+}
+
+/**
+ * Plans the writes needed to turn the current mirror into `desiredUris`.
+ *
+ * Entries that are no longer wanted, and URIs that appear more than once, are
+ * removed by URI first (a URI removal drops every occurrence, so duplicated
+ * wanted tracks are re-inserted once). The longest run of remaining tracks
+ * that is already in desired order stays untouched; every other desired track
+ * is then inserted or moved directly after its predecessor, walking the
+ * desired order front to back. Tracks that sit together in both orders move
+ * as one range. If that takes more than `maxMoveSteps` moves, the playlist is
+ * rewritten instead, unless it holds unresolvable entries (`null`), which are
+ * always left alone.
+ *
+ * @param {Array<string | null>} currentUris - URIs of the live playlist entries in playlist order.
+ * @param {string[]} desiredUris - Deduplicated URIs in the order the mirror should have.
+ * @param {number} [maxMoveSteps] - Most move steps before rewriting; defaults to `defaultMaxMoveSteps`.
+ * @returns {MirrorDiffPlan} The removals, ordered steps, and per-kind counts.
+ */
+export function planMirrorDiff(
+  currentUris: Array<string | null>,
+  desiredUris: string[],
+  maxMoveSteps = defaultMaxMoveSteps(desiredUris.length)
+): MirrorDiffPlan {
+  const desiredIndex = new Map(desiredUris.map((uri, index) => [uri, index]));
+  const occurrences = new Map<string, number>();
+  for (const uri of currentUris) {
+    if (uri !== null) {
+      occurrences.set(uri, (occurrences.get(uri) ?? 0) + 1);
+    }
+  }
+
+  const removeUris = [...occurrences.entries()]
+    .filter(([uri, count]) => !desiredIndex.has(uri) || count > 1)
+    .map(([uri]) => uri);
+  const removeSet = new Set(removeUris);
+  const working = currentUris.filter((uri) => uri === null || !removeSet.has(uri));
+  const removedCount = currentUris.length - working.length;
+
+  const kept = working.filter((uri): uri is string => uri !== null);
+  const stable = new Set(
+    longestIncreasingSubsequence(kept.map((uri) => desiredIndex.get(uri)!)).map((index) => kept[index])
+  );
+  const rewritable = kept.length === working.length;
+
+  // Position of every track in `working`, kept current as steps reshape it.
+  const positions = new Map<string, number>();
+  const reindex = (from: number, to: number): void => {
+    for (let i = from; i < to; i += 1) {
+      const uri = working[i];
+      if (uri !== null) {
+        positions.set(uri, i);
+      }
+    }
+  };
+  reindex(0, working.length);
+
+  const steps: MirrorDiffStep[] = [];
+  let addedCount = 0;
+  let movedCount = 0;
+  let moveSteps = 0;
+
+  for (let index = 0; index < desiredUris.length; index += 1) {
+    const uri = desiredUris[index];
+    if (stable.has(uri)) {
+      continue;
+    }
+
+    const target = index === 0 ? 0 : positions.get(desiredUris[index - 1])! + 1;
+    const currentPosition = positions.get(uri);
+
+    if (currentPosition === undefined) {
+      const lastStep = steps[steps.length - 1];
+      if (
+        lastStep?.op === "insert" &&
+        lastStep.position + lastStep.uris.length === target &&
+        lastStep.uris.length < SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE
+      ) {
+        lastStep.uris.push(uri);
+      } else {
+        steps.push({ op: "insert", position: target, uris: [uri] });
+      }
+
+      working.splice(target, 0, uri);
+      reindex(target, working.length);
+      addedCount += 1;
+      continue;
+    }
+
+    if (currentPosition === target) {
+      // Already directly after its predecessor; earlier placements lined it up.
+      continue;
+    }
+
+    if (moveSteps === maxMoveSteps && rewritable) {
+      return planRewrite(desiredUris, removeUris, removedCount, new Set(kept), kept.length - stable.size);
+    }
+
+    // The desired tracks that follow it here too move along in the same call.
+    let length = 1;
+    while (
+      index + length < desiredUris.length &&
+      !stable.has(desiredUris[index + length]) &&
+      working[currentPosition + length] === desiredUris[index + length]
+    ) {
+      length += 1;
+    }
+
+    const moved = working.splice(currentPosition, length) as string[];
+    steps.push({ op: "move", uris: moved, rangeStart: currentPosition, insertBefore: target });
+    working.splice(currentPosition < target ? target - length : target, 0, ...moved);
+    reindex(Math.min(currentPosition, target), Math.max(currentPosition + length, target));
+    movedCount += length;
+    moveSteps += 1;
+    index += length - 1;
+  }
+
+  return {
+    removeUris,
+    steps,
+    replaceUris: null,
+    addedCount,
+    removedCount,
+    movedCount
+  };
+}
+
+/**
+ * Plans a rewrite of the whole playlist, listing the tracks it adds at their
+ * final positions so the change can still be reviewed.
+ *
+ * @param {string[]} desiredUris - URIs in the order the mirror should have.
+ * @param {string[]} removeUris - URIs the rewrite drops.
+ * @param {number} removedCount - Number of playlist entries the rewrite drops.
+ * @param {Set<string>} keptUris - URIs already in the playlist that stay.
+ * @param {number} movedCount - Number of kept tracks out of order.
+ * @returns {MirrorDiffPlan} The rewrite plan.
+ */
+function planRewrite(
+  desiredUris: string[],
+  removeUris: string[],
+  removedCount: number,
+  keptUris: Set<string>,
+  movedCount: number
+): MirrorDiffPlan {
+  const steps: Array<Extract<MirrorDiffStep, { op: "insert" }>> = [];
+  for (const [position, uri] of desiredUris.entries()) {
+    if (keptUris.has(uri)) {
+      continue;
+    }
+
+    const lastStep = steps[steps.length - 1];
+    if (lastStep && lastStep.position + lastStep.uris.length === position) {
+      lastStep.uris.push(uri);
+    } else {
+      steps.push({ op: "insert", position, uris: [uri] });
+    }
+  }
+
+  return {
+    removeUris,
+    steps,
+    replaceUris: desiredUris,
+    addedCount: desiredUris.length - keptUris.size,
+    removedCount,
+    movedCount
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * What a sync does when a playlist was edited outside the bot since the
+ * previous run:
+ * - `overwrite`: report the edits, then restore the expected contents.
+ * - `keep-additions`: report the edits, restore removals and order, but keep
+ *   manually added tracks where they are until they are removed by hand.
+ * - `stop`: report the edits and leave the playlist untouched, failing the run.
+ */
+export type DriftPolicy = "overwrite" | "keep-additions" | "stop";
+
+export const DRIFT_POLICIES: DriftPolicy[] = ["overwrite", "keep-additions", "stop"];
+
+/**
+ * Edits found in a playlist that the bot did not make.
+ */
+export interface DetectedDrift {
+  /** Tracks in the playlist that the bot did not put there. */
+  addedUris: string[];
+  /** Tracks the bot put in the playlist that are gone. */
+  removedUris: string[];
+  /** Whether the tracks the bot put there are in a different order. */
+  reordered: boolean;
+}
+
+/**
+ * Compares a playlist's live contents with what the previous run left in it.
+ * Entries without a URI (such as local files) are ignored.
+ *
+ * @param {string[]} expectedUris - The URIs the previous run left in the playlist, in order.
+ * @param {Array<string | null>} currentUris - The playlist's live entries, in order.
+ * @returns {DetectedDrift | null} The edits made outside the bot, or null if there are none.
+ */
+export function detectDrift(expectedUris: string[], currentUris: Array<string | null>): DetectedDrift | null {
+  const current = currentUris.filter((uri): uri is string => uri !== null);
+  const expectedSet = new Set(expectedUris);
+  const currentSet = new Set(current);
+
+  const addedUris = [...new Set(current.filter((uri) => !expectedSet.has(uri)))];
+  const removedUris = expectedUris.filter((uri) => !currentSet.has(uri));
+  const keptInCurrentOrder = current.filter((uri) => expectedSet.has(uri));
+  const keptInExpectedOrder = expectedUris.filter((uri) => currentSet.has(uri));
+  const reordered =
+    keptInCurrentOrder.length !== keptInExpectedOrder.length ||
+    keptInCurrentOrder.some((uri, index) => uri !== keptInExpectedOrder[index]);
+
+  return addedUris.length > 0 || removedUris.length > 0 || reordered ? { addedUris, removedUris, reordered } : null;
+}
+
+/**
+ * Inserts pinned tracks into a playlist's desired contents at the positions
+ * they currently hold, so manual additions stay where they were put.
+ *
+ * @param {string[]} desiredUris - The URIs the playlist should hold, in order.
+ * @param {Array<string | null>} currentUris - The playlist's live entries, in order.
+ * @param {Set<string>} pinnedUris - Tracks to keep in place; any that are also desired are left to the desired order.
+ * @returns {string[]} The desired URIs with the pinned tracks in place.
+ */
+export function keepPinnedUris(
+  desiredUris: string[],
+  currentUris: Array<string | null>,
+  pinnedUris: Set<string>
+): string[] {
+  const desired = new Set(desiredUris);
+  const result = [...desiredUris];
+  const placed = new Set<string>();
+
+  for (const [index, uri] of currentUris.entries()) {
+    if (uri !== null && pinnedUris.has(uri) && !desired.has(uri) && !placed.has(uri)) {
+      result.splice(Math.min(index, result.length), 0, uri);
+      placed.add(uri);
+    }
+  }
+
+  return result;
+}
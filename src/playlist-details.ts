@@ -0,0 +1,89 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { renderCountCover } from "./cover-image";
+import type { CoverConfig } from "./mirror-config";
+import type { SavedTrackItem } from "./types";
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Formats a total length as hours and minutes, e.g. `3 hr 25 min` or `42 min`.
+ *
+ * @param {number} durationMs - The length in milliseconds.
+ * @returns {string} The formatted length.
+ */
+function formatTotalDuration(durationMs: number): string {
+  const totalMinutes = Math.round(durationMs / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  return hours > 0 ? `${hours} hr ${totalMinutes % 60} min` : `${totalMinutes} min`;
+}
+
+/**
+ * Returns the variables a playlist's managed name and description can use:
+ * `{trackCount}`, `{totalDuration}`, `{lastSync}` (the run's time in UTC) and
+ * `{newestTrack}` (the most recently liked track, as "Title — Artist").
+ *
+ * @param {SavedTrackItem[]} likedTracks - The liked entries of the tracks the playlist holds.
+ * @param {Date} now - Time of the sync run.
+ * @returns {Record<string, string>} Variable values by name (without braces).
+ */
+export function playlistDetailVariables(likedTracks: SavedTrackItem[], now: Date): Record<string, string> {
+  const newest = likedTracks.reduce<SavedTrackItem | null>(
+    (latest, item) => (!latest || Date.parse(item.added_at) > Date.parse(latest.added_at) ? item : latest),
+    null
+  )?.track;
+  const newestArtist = newest?.artists?.[0]?.name;
+
+  return {
+    trackCount: likedTracks.length.toLocaleString("en-US"),
+    totalDuration: formatTotalDuration(likedTracks.reduce((sum, item) => sum + (item.track?.duration_ms ?? 0), 0)),
+    lastSync: `${now.toISOString().slice(0, 16).replace("T", " ")} UTC`,
+    newestTrack: newest?.name ? `${newest.name}${newestArtist ? ` — ${newestArtist}` : ""}` : ""
+  };
+}
+
+/**
+ * Undoes the HTML escaping Spotify applies to playlist descriptions, so a
+ * stored description can be compared with the text that was sent.
+ *
+ * @param {string} description - The description as returned by Spotify.
+ * @returns {string} The plain-text description.
+ */
+export function decodeDescription(description: string): string {
+  return description.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#")) {
+      const point = code[1].toLowerCase() === "x" ? Number.parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return String.fromCodePoint(point);
+    }
+
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Produces a playlist's cover image: the configured JPEG file (resolved
+ * against the working directory), or a generated image showing the track count.
+ *
+ * @param {CoverConfig} cover - The target's cover setting.
+ * @param {number} trackCount - Number of tracks the playlist holds.
+ * @returns {Promise<Buffer>} The JPEG image.
+ * @throws {Error} If the cover file cannot be read.
+ */
+export async function loadCoverImage(cover: CoverConfig, trackCount: number): Promise<Buffer> {
+  if (cover.source === "generated") {
+    return renderCountCover(trackCount, cover);
+  }
+
+  const filePath = path.resolve(process.cwd(), cover.path);
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read cover image (${filePath}): ${(error as Error).message}`);
+  }
+}
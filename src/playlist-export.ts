@@ -35,6 +35,8 @@ export interface MirrorPlaylistExport {
   source: {
     playlistId: string;
     spotifyUrl: string;
+    /** Part playlists from part 2 on, whose tracks follow the first playlist's; absent for a single playlist. */
+    partPlaylistIds?: string[];
   };
   tracks: MirrorPlaylistExportTrack[];
   skipped: {
@@ -46,6 +48,8 @@ export interface MirrorPlaylistExport {
 
 interface BuildMirrorPlaylistExportOptions {
   playlistId: string;
+  /** Part playlists from part 2 on, whose items follow the first playlist's in `playlistItems`. */
+  partPlaylistIds?: string[];
   playlistItems: PlaylistItem[];
   exportedAt: string;
 }
@@ -94,7 +98,8 @@ export function buildMirrorPlaylistExport(
     exportedAt: options.exportedAt,
     source: {
       playlistId: options.playlistId,
-      spotifyUrl: `https://open.spotify.com/playlist/${options.playlistId}`
+      spotifyUrl: `https://open.spotify.com/playlist/${options.playlistId}`,
+      ...(options.partPlaylistIds?.length ? { partPlaylistIds: options.partPlaylistIds } : {})
     },
     tracks,
     skipped: {
@@ -0,0 +1,54 @@
+import { withLogPrefix } from "./logger";
+
+/**
+ * How one profile's run ended.
+ */
+export interface ProfileOutcome<T> {
+  /** The profile name, or `null` for the single-account setup. */
+  profile: string | null;
+  /** The run's result, or `null` if it failed. */
+  result: T | null;
+  /** The error the run failed with, or `null` if it completed. */
+  error: Error | null;
+}
+
+/**
+ * Runs every profile, at most `concurrency` at a time, in listed order. A
+ * failing profile does not stop the others: its error is recorded in its
+ * outcome instead. Messages logged by a named profile's run are prefixed with
+ * the profile, so runs that overlap can be told apart.
+ *
+ * @param {Array<string | null>} profiles - The profiles to run.
+ * @param {number} concurrency - The most profiles to run at once (at least 1).
+ * @param {(profile: string | null) => Promise<T>} run - Runs one profile.
+ * @returns {Promise<ProfileOutcome<T>[]>} One outcome per profile, in the order given.
+ */
+export async function runProfiles<T>(
+  profiles: Array<string | null>,
+  concurrency: number,
+  run: (profile: string | null) => Promise<T>
+): Promise<ProfileOutcome<T>[]> {
+  const outcomes: ProfileOutcome<T>[] = new Array(profiles.length);
+  let next = 0;
+
+  const runOne = async (profile: string | null): Promise<ProfileOutcome<T>> => {
+    try {
+      return { profile, result: await run(profile), error: null };
+    } catch (error) {
+      return { profile, result: null, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < profiles.length) {
+      const index = next;
+      next += 1;
+      const profile = profiles[index];
+      outcomes[index] =
+        profile === null ? await runOne(profile) : await withLogPrefix(`profile=${profile}`, () => runOne(profile));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), profiles.length) }, worker));
+  return outcomes;
+}
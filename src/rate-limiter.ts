@@ -0,0 +1,109 @@
+/**
+ * How fast and how many requests at once a `SpotifyClient` sends.
+ */
+export interface RateLimitPolicy {
+  /** Sustained request rate. */
+  requestsPerSecond: number;
+  /** Requests that may be sent back to back before the rate applies. */
+  burst: number;
+  /** Most requests in flight at once. */
+  maxConcurrency: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitPolicy = {
+  requestsPerSecond: 10,
+  burst: 10,
+  maxConcurrency: 4
+};
+
+/**
+ * Client-side request scheduler: a token bucket bounds the request rate, a
+ * slot count bounds concurrency, and a pause (after a 429) holds back every
+ * request until the server's `Retry-After` has passed.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private refilledAt: number;
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  /**
+   * @param {RateLimitPolicy} policy - Rate, burst and concurrency limits.
+   * @param {() => number} now - Current time in milliseconds.
+   * @param {(ms: number) => Promise<void>} sleep - Waits for the given delay.
+   */
+  constructor(
+    private readonly policy: RateLimitPolicy,
+    private readonly now: () => number,
+    private readonly sleep: (ms: number) => Promise<void>
+  ) {
+    this.tokens = policy.burst;
+    this.refilledAt = now();
+  }
+
+  /**
+   * Runs a request once a concurrency slot and a rate token are free and any
+   * pause has passed, holding the slot until the request settles.
+   *
+   * @template T The request's result.
+   * @param {() => Promise<T>} run - Sends the request.
+   * @returns {Promise<T>} The request's result.
+   */
+  async schedule<T>(run: () => Promise<T>): Promise<T> {
+    if (this.active < this.policy.maxConcurrency) {
+      this.active += 1;
+    } else {
+      // A finishing request hands its slot straight to the next in line.
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    }
+
+    try {
+      let seenPause = this.pausedUntil;
+      let wait = this.reserve();
+      while (wait > 0) {
+        await this.sleep(wait);
+        // Wait again only if a newer pause started while this request slept.
+        wait = this.pausedUntil > seenPause ? this.pausedUntil - this.now() : 0;
+        seenPause = this.pausedUntil;
+      }
+
+      return await run();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active -= 1;
+      }
+    }
+  }
+
+  /**
+   * Holds back every request scheduled from now on for the given delay, as
+   * after a 429. An already longer pause is kept.
+   *
+   * @param {number} ms - How long to pause.
+   * @returns {void}
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  /**
+   * Takes a rate token, refilling the bucket for the time since the last
+   * refill, and works out how long the request must wait: until the token
+   * is earned (the bucket may go into debt) or until the pause ends.
+   *
+   * @returns {number} The wait in milliseconds, 0 to send now.
+   */
+  private reserve(): number {
+    const now = this.now();
+    const earned = ((now - this.refilledAt) * this.policy.requestsPerSecond) / 1000;
+    this.tokens = Math.min(this.policy.burst, this.tokens + earned) - 1;
+    this.refilledAt = now;
+
+    const rateWait = this.tokens < 0 ? Math.ceil((-this.tokens * 1000) / this.policy.requestsPerSecond) : 0;
+    return Math.max(rateWait, this.pausedUntil - now);
+  }
+}
@@ -0,0 +1,165 @@
+import { spawn } from "node:child_process";
+import { readFileSync, promises as fs } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger";
+
+/**
+ * Where a refresh token Spotify rotates is saved, from `REFRESH_TOKEN_SINK`:
+ * - `state`: `state/refresh-tokens.json`, which then takes precedence over the environment.
+ * - `env-file`: the token's line in an env file (`.env` unless a path follows, `env-file:<path>`).
+ * - `command`: a shell command that reads the token on stdin (`command:<command>`), e.g. to set a CI secret.
+ */
+export type RefreshTokenSink =
+  | { type: "state"; path: string }
+  | { type: "env-file"; path: string }
+  | { type: "command"; command: string };
+
+/** Serializes writes to a shared file, since profiles can rotate tokens at the same time. */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Parses a `REFRESH_TOKEN_SINK` value.
+ *
+ * @param {string} value - The raw value.
+ * @param {string} stateDirectory - Absolute path of the `state` directory.
+ * @returns {RefreshTokenSink} The sink, with paths resolved against the working directory.
+ * @throws {Error} If the value names no known sink or lacks a command.
+ */
+export function parseRefreshTokenSink(value: string, stateDirectory: string): RefreshTokenSink {
+  const separator = value.indexOf(":");
+  const type = separator === -1 ? value : value.slice(0, separator);
+  const argument = separator === -1 ? "" : value.slice(separator + 1).trim();
+
+  if (type === "state" && !argument) {
+    return { type, path: path.join(stateDirectory, "refresh-tokens.json") };
+  }
+
+  if (type === "env-file") {
+    return { type, path: path.resolve(process.cwd(), argument || ".env") };
+  }
+
+  if (type === "command" && argument) {
+    return { type, command: argument };
+  }
+
+  throw new Error(
+    `REFRESH_TOKEN_SINK must be "state", "env-file", "env-file:<path>" or "command:<command>", got "${value}"`
+  );
+}
+
+/**
+ * Reads a refresh token saved by the `state` sink.
+ *
+ * @param {string} filePath - Absolute path of the refresh token file.
+ * @param {string} name - The token's environment variable name, which keys it in the file.
+ * @returns {string | null} The saved token, or null if none was saved.
+ * @throws {Error} If the file exists but cannot be read or parsed.
+ */
+export function readStoredRefreshToken(filePath: string, name: string): string | null {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+
+    throw new Error(`Failed to read refresh tokens (${filePath}): ${(error as Error).message}`);
+  }
+
+  try {
+    const token = (JSON.parse(raw) as Record<string, unknown>)[name];
+    return typeof token === "string" && token ? token : null;
+  } catch (error) {
+    throw new Error(`Invalid refresh tokens file (${filePath}): ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Sets a variable in an env file's contents, replacing its existing
+ * assignment or appending one.
+ *
+ * @param {string} contents - The env file's contents.
+ * @param {string} name - The variable name.
+ * @param {string} value - The new value.
+ * @returns {string} The updated contents.
+ */
+export function setEnvFileVariable(contents: string, name: string, value: string): string {
+  const assignment = new RegExp(`^(\\s*(?:export\\s+)?${name}\\s*=).*$`, "m");
+  if (assignment.test(contents)) {
+    return contents.replace(assignment, (_, prefix: string) => `${prefix}${value}`);
+  }
+
+  return `${contents}${contents && !contents.endsWith("\n") ? "\n" : ""}${name}=${value}\n`;
+}
+
+/**
+ * Runs a sink command with the token on stdin and its variable name in
+ * `SPOTIFY_REFRESH_TOKEN_NAME`.
+ *
+ * @param {string} command - The shell command.
+ * @param {string} name - The token's environment variable name.
+ * @param {string} token - The new refresh token.
+ * @returns {Promise<void>} Resolves once the command has exited successfully.
+ * @throws {Error} If the command cannot be started or exits with a non-zero status.
+ */
+function runSinkCommand(command: string, name: string, token: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ["pipe", "inherit", "inherit"],
+      env: { ...process.env, SPOTIFY_REFRESH_TOKEN_NAME: name }
+    });
+    child.on("error", reject);
+    child.on("close", (code) =>
+      code === 0 ? resolve() : reject(new Error(`Refresh token sink command exited with status ${code}`))
+    );
+    child.stdin.end(token);
+  });
+}
+
+/**
+ * Saves a refresh token Spotify rotated. Without a sink, only a warning is
+ * logged: the configured token may stop working once it has been replaced.
+ *
+ * @param {RefreshTokenSink | null} sink - Where to save the token, or null if nowhere.
+ * @param {string} name - The token's environment variable name, e.g. `SPOTIFY_REFRESH_TOKEN_ALEX`.
+ * @param {string} token - The new refresh token.
+ * @returns {Promise<void>} Resolves once the token is saved.
+ * @throws {Error} If the sink fails.
+ */
+export async function persistRefreshToken(sink: RefreshTokenSink | null, name: string, token: string): Promise<void> {
+  if (!sink) {
+    logger.warn(
+      `Spotify replaced the refresh token in ${name}; the old one may stop working. ` +
+        "Set REFRESH_TOKEN_SINK to save new tokens, or re-run npm run auth if syncs start failing."
+    );
+    return;
+  }
+
+  if (sink.type === "command") {
+    await runSinkCommand(sink.command, name, token);
+  } else {
+    const write = pendingWrite.then(async () => {
+      let contents = "";
+      try {
+        contents = await fs.readFile(sink.path, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+
+      const next =
+        sink.type === "state"
+          ? `${JSON.stringify({ ...(contents ? JSON.parse(contents) : {}), [name]: token }, null, 2)}\n`
+          : setEnvFileVariable(contents, name, token);
+      await fs.mkdir(path.dirname(sink.path), { recursive: true });
+      await fs.writeFile(sink.path, next, "utf8");
+    });
+    pendingWrite = write.catch(() => undefined);
+    await write;
+  }
+
+  logger.info(`Saved the new Spotify refresh token for ${name} (sink=${sink.type}).`);
+}
@@ -0,0 +1,200 @@
+import { logger } from "./logger";
+
+/**
+ * How failed requests (timeouts, connection errors, rate limits and server
+ * errors) are retried.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt before giving up. */
+  maxRetries: number;
+  /**
+   * Largest delay before the first retry; each further retry doubles it. The
+   * actual delay is drawn at random below it.
+   */
+  initialDelayMs: number;
+  /** Longest backoff delay. A server's `Retry-After` is honored even when longer. */
+  maxDelayMs: number;
+  /**
+   * Most time one client spends waiting on retries, over all its requests.
+   * Once a retry would go past it, failures are no longer retried.
+   */
+  retryBudgetMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  retryBudgetMs: 5 * 60 * 1000
+};
+
+/** Why an attempt failed in a way that may be retried. */
+export type RetryReason = "timeout" | "network" | "rate-limit" | "server-error";
+
+/**
+ * A failed attempt the retry policy may retry.
+ */
+export interface RetryFailure {
+  reason: RetryReason;
+  /** HTTP status of the response, or null if none arrived. */
+  status: number | null;
+  /** Code of the network error (e.g. `ECONNRESET`), or null. */
+  errorCode: string | null;
+  /** Delay the server asked for in `Retry-After`, or null if it gave none. */
+  retryAfterMs: number | null;
+}
+
+/**
+ * A retry about to be made, reported to `SpotifyClientOptions.onRetry` for
+ * logging and metrics.
+ */
+export interface RetryEvent extends RetryFailure {
+  /** The request being retried, e.g. `GET https://api.spotify.com/v1/me` or `token request`. */
+  request: string;
+  /** The retry about to be made, from 1. */
+  attempt: number;
+  /** How long the client waits before the retry. */
+  delayMs: number;
+  /** Time left in the retry budget after this wait. */
+  budgetRemainingMs: number;
+}
+
+/**
+ * Network error codes of failures that are worth retrying: dropped or refused
+ * connections, unreachable hosts, DNS lookups that failed for now, and
+ * undici's socket and timeout errors.
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENETDOWN",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CLOSED",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT"
+]);
+
+/**
+ * Parses a `Retry-After` header value, given either as seconds or as an
+ * HTTP date, into milliseconds from now.
+ *
+ * @param {string | null} headerValue - The raw header value, or null if absent.
+ * @param {number} now - Current time in milliseconds, for an HTTP date.
+ * @returns {number | null} The delay in milliseconds, or null if the value is missing or invalid.
+ */
+export function parseRetryAfterMs(headerValue: string | null, now: number): number | null {
+  const value = headerValue?.trim();
+  if (!value) {
+    return null;
+  }
+
+  // A "Retry-After: 0" means retry immediately; preserve 0 so it is honored
+  // (the caller uses `?? backoff`, which keeps a 0 value) rather than falling
+  // back to exponential backoff. A date already past means the same.
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Works out whether an error thrown by `fetch` is a transient network
+ * failure: an aborted (timed out) request, a known transient error code
+ * anywhere in its `cause` chain, or undici's bare `fetch failed`.
+ *
+ * @param {unknown} error - The thrown error.
+ * @returns {Pick<RetryFailure, "reason" | "errorCode"> | null} The failure, or null if it should not be retried.
+ */
+export function classifyNetworkError(error: unknown): Pick<RetryFailure, "reason" | "errorCode"> | null {
+  if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+    return { reason: "timeout", errorCode: null };
+  }
+
+  let code: string | null = null;
+  for (let current: unknown = error; current instanceof Error && code === null; current = current.cause) {
+    const value = (current as NodeJS.ErrnoException).code;
+    code = typeof value === "string" ? value : null;
+  }
+
+  if (code !== null) {
+    return TRANSIENT_ERROR_CODES.has(code) ? { reason: "network", errorCode: code } : null;
+  }
+
+  return error instanceof TypeError && error.message === "fetch failed" ? { reason: "network", errorCode: null } : null;
+}
+
+/**
+ * Applies a retry policy to the failed attempts of one client's requests:
+ * decides whether each is retried and after what delay (full jitter on the
+ * exponential backoff, or the server's `Retry-After`), keeps the total wait
+ * within the budget, and reports every retry.
+ */
+export class Retrier {
+  private spentMs = 0;
+
+  /**
+   * @param {RetryPolicy} policy - Retry limits and delays.
+   * @param {() => number} random - Returns a number in [0, 1), for jitter.
+   * @param {(event: RetryEvent) => void} [onRetry] - Called before each retry.
+   */
+  constructor(
+    private readonly policy: RetryPolicy,
+    private readonly random: () => number,
+    private readonly onRetry?: (event: RetryEvent) => void
+  ) {}
+
+  /**
+   * Decides whether a failed attempt is retried, and after how long.
+   *
+   * @param {string} request - The request, for the retry event.
+   * @param {number} attempt - The retry that would be made, from 1.
+   * @param {RetryFailure} failure - How the attempt failed.
+   * @returns {number | null} The delay in milliseconds, or null to give up.
+   */
+  nextDelay(request: string, attempt: number, failure: RetryFailure): number | null {
+    if (attempt > this.policy.maxRetries) {
+      return null;
+    }
+
+    const delayMs = failure.retryAfterMs ?? this.backoffMs(attempt);
+    if (this.spentMs + delayMs > this.policy.retryBudgetMs) {
+      logger.warn(
+        `Not retrying ${request}: waiting ${delayMs}ms would exceed the retry budget ` +
+          `(${this.policy.retryBudgetMs - this.spentMs}ms of ${this.policy.retryBudgetMs}ms left).`
+      );
+      return null;
+    }
+
+    this.spentMs += delayMs;
+    this.onRetry?.({
+      ...failure,
+      request,
+      attempt,
+      delayMs,
+      budgetRemainingMs: this.policy.retryBudgetMs - this.spentMs
+    });
+    return delayMs;
+  }
+
+  /**
+   * Draws the backoff before a retry at random below the exponential cap
+   * ("full jitter"), so clients that failed together do not retry together.
+   *
+   * @param {number} attempt - The retry about to be made, from 1.
+   * @returns {number} The delay in milliseconds.
+   */
+  private backoffMs(attempt: number): number {
+    const capMs = Math.min(this.policy.initialDelayMs * 2 ** (attempt - 1), this.policy.maxDelayMs);
+    return Math.floor(this.random() * capMs);
+  }
+}
@@ -0,0 +1,77 @@
+import type { MirrorTargetConfig, SafetyConfig } from "./mirror-config";
+import { findRelativeLikedAtRule } from "./track-filter";
+import type { SafetyViolation } from "./types";
+
+/** The `limit` of a refused selection that became empty, which no limit setting allows. */
+export const EMPTY_SELECTION_LIMIT = "emptySelection";
+
+/**
+ * Checks whether a target drops tracks as time passes, through a rolling
+ * window in days or a `likedAt.withinDays` filter. Such a target can lose
+ * most of its tracks between runs without anything being unliked, so its
+ * removals are not held to the mass-removal limits (only the liked songs
+ * total is, and its selection may still not become empty).
+ *
+ * @param {Pick<MirrorTargetConfig, "window" | "filter">} target - The target to check.
+ * @returns {boolean} True if the target's selection shrinks over time.
+ */
+export function dropsTracksOverTime(target: Pick<MirrorTargetConfig, "window" | "filter">): boolean {
+  return Boolean(target.window?.days) || findRelativeLikedAtRule(target.filter) !== null;
+}
+
+/**
+ * Checks a removal against the mass-removal limits.
+ *
+ * @param {number} previousCount - How many tracks there were before the removal.
+ * @param {number} removedCount - How many of them would be removed.
+ * @param {SafetyConfig} safety - The limits to check.
+ * @returns {string | null} The exceeded limit (e.g. `maxRemovedPercent=50`), or null if the removal is within limits.
+ */
+export function exceededRemovalLimit(previousCount: number, removedCount: number, safety: SafetyConfig): string | null {
+  if (removedCount <= 0) {
+    return null;
+  }
+
+  if (safety.maxRemovedCount !== null && removedCount > safety.maxRemovedCount) {
+    return `maxRemovedCount=${safety.maxRemovedCount}`;
+  }
+
+  if (safety.maxRemovedPercent !== null && removedCount > (previousCount * safety.maxRemovedPercent) / 100) {
+    return `maxRemovedPercent=${safety.maxRemovedPercent}`;
+  }
+
+  return null;
+}
+
+/**
+ * Explains a refused removal in one line.
+ *
+ * @param {SafetyViolation} violation - The refused removal.
+ * @returns {string} The explanation.
+ */
+export function describeViolation(violation: SafetyViolation): string {
+  const { target, playlistId, previousCount, removedCount, limit } = violation;
+  if (violation.library === "unliked") {
+    return (
+      `Graveyard: ${removedCount} of the ${previousCount} track(s) liked on the previous run are no longer liked ` +
+      `(exceeds ${limit}); they were not moved to the graveyard.`
+    );
+  }
+
+  if (violation.library === "total") {
+    return (
+      `Liked Songs: ${previousCount - removedCount} track(s) where the previous run had ${previousCount}, ` +
+      `${removedCount} fewer (exceeds ${limit}).`
+    );
+  }
+
+  if (limit === EMPTY_SELECTION_LIMIT) {
+    return `Target ${target}: no tracks selected where the previous run had ${previousCount}, which would empty it.`;
+  }
+
+  return playlistId === null
+    ? `Target ${target}: ${previousCount - removedCount} track(s) selected where the previous run had ` +
+        `${previousCount}, which would remove ${removedCount} (exceeds ${limit}).`
+    : `Target ${target}: would remove ${removedCount} of the ${previousCount} track(s) in playlist ${playlistId} ` +
+        `(exceeds ${limit}).`;
+}
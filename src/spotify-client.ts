@@ -1,10 +1,72 @@
 import { logger } from "./logger";
-import type { PagingResponse, PlaylistItem, SavedTrackItem, SpotifyUser } from "./types";
+import { DEFAULT_RATE_LIMIT, RateLimiter, type RateLimitPolicy } from "./rate-limiter";
+import {
+  classifyNetworkError,
+  DEFAULT_RETRY_POLICY,
+  parseRetryAfterMs,
+  Retrier,
+  type RetryEvent,
+  type RetryFailure,
+  type RetryPolicy
+} from "./retry-policy";
+import { TokenManager, type TokenGrant } from "./token-manager";
+import type {
+  PagingResponse,
+  PlaylistItem,
+  PlaylistSummary,
+  PlaylistVisibility,
+  SavedAlbumItem,
+  SavedEpisodeItem,
+  SavedTrackItem,
+  SpotifyTrack,
+  SpotifyUser,
+  SubstitutionMatch
+} from "./types";
 
 const SPOTIFY_API_BASE = "https://api.spotify.com/v1";
 const SPOTIFY_ACCOUNTS_BASE = "https://accounts.spotify.com/api";
-const MAX_RETRIES = 4;
-const REQUEST_TIMEOUT_MS = 30000;
+const SEARCH_LIMIT = 10;
+
+export { DEFAULT_RETRY_POLICY, type RetryEvent, type RetryPolicy } from "./retry-policy";
+
+/**
+ * Optional settings for a `SpotifyClient`, mainly for tests and for pointing
+ * the client at a proxy or a local stand-in for Spotify.
+ */
+export interface SpotifyClientOptions {
+  /** Performs the HTTP requests. Default: the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Base URL of the Web API. Default: `https://api.spotify.com/v1`. */
+  apiBaseUrl?: string;
+  /** Base URL of the accounts service that issues access tokens. Default: `https://accounts.spotify.com/api`. */
+  accountsBaseUrl?: string;
+  /** Overrides for the retry policy; unset fields keep their defaults. */
+  retry?: Partial<RetryPolicy>;
+  /** Called before each retry, e.g. to log or count retries. */
+  onRetry?: (event: RetryEvent) => void;
+  /** Returns a number in [0, 1) to jitter backoff delays. Default: `Math.random`. */
+  random?: () => number;
+  /** Overrides for the request rate and concurrency limits; unset fields keep their defaults. */
+  rateLimit?: Partial<RateLimitPolicy>;
+  /**
+   * Fetch the pages of liked tracks and playlist items after the first one
+   * concurrently, checking the list held still. Default: true.
+   */
+  parallelPages?: boolean;
+  /** How long one request may take before it is aborted and retried. Default: 30000. */
+  timeoutMs?: number;
+  /** Current time in milliseconds. Default: `Date.now`. */
+  now?: () => number;
+  /** Waits between retries. Default: a `setTimeout` delay. */
+  sleep?: (ms: number) => Promise<void>;
+  /** How long before it expires the access token is refreshed. Default: 60000. */
+  tokenRefreshMarginMs?: number;
+  /**
+   * Called with the new refresh token when Spotify replaces the configured
+   * one, so it can be persisted; the old token may stop working.
+   */
+  onRefreshTokenRotated?: (refreshToken: string) => void | Promise<void>;
+}
 
 /**
  * Returns a promise that resolves after the given delay.
@@ -16,28 +78,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/**
- * Parses a `Retry-After` header value (in seconds) into milliseconds.
- *
- * @param {string | null} headerValue - The raw header value, or null if absent.
- * @returns {number | null} The delay in milliseconds, or null if the value is missing or invalid.
- */
-function parseRetryAfterMs(headerValue: string | null): number | null {
-  if (!headerValue) {
-    return null;
-  }
-
-  const seconds = Number(headerValue);
-  if (!Number.isFinite(seconds) || seconds < 0) {
-    return null;
-  }
-
-  // A "Retry-After: 0" means retry immediately; preserve 0 so it is honored
-  // (the caller uses `?? backoff`, which keeps a 0 value) rather than falling
-  // back to exponential backoff.
-  return seconds * 1000;
-}
-
 /**
  * Builds a human-readable error message for a failed Spotify API response,
  * extracting the API's error message from the JSON body when available.
@@ -106,111 +146,215 @@ function parseJsonResponse<T>(bodyText: string, context: string): T {
   }
 }
 
+/**
+ * Error thrown when the accounts service rejects the refresh token itself
+ * (`invalid_grant`): the user revoked the app's access, or the token was
+ * replaced or has expired. Retrying cannot help; a new token is needed.
+ */
+export class RefreshTokenRevokedError extends SpotifyApiError {
+  /**
+   * @param {string | null} description - Spotify's `error_description`, if any.
+   */
+  constructor(description: string | null) {
+    super(
+      400,
+      `Spotify rejected the refresh token (invalid_grant${description ? `: ${description}` : ""}). ` +
+        "It was revoked or has expired; re-run npm run auth and store the new refresh token."
+    );
+    this.name = "RefreshTokenRevokedError";
+  }
+}
+
+/**
+ * Returns Spotify's `error_description` when a token response body is an
+ * `invalid_grant` error, or undefined for any other body.
+ *
+ * @param {string} bodyText - The raw response body text.
+ * @returns {string | null | undefined} The description (null if absent), or undefined if not `invalid_grant`.
+ */
+function invalidGrantDescription(bodyText: string): string | null | undefined {
+  try {
+    const parsed = JSON.parse(bodyText) as { error?: unknown; error_description?: unknown };
+    if (parsed.error === "invalid_grant") {
+      return typeof parsed.error_description === "string" ? parsed.error_description : null;
+    }
+  } catch {
+    // Not JSON, so not an OAuth error body.
+  }
+
+  return undefined;
+}
+
+/**
+ * A response and its body text, as one attempt of a request got them.
+ */
+interface SentRequest {
+  response: Response;
+  bodyText: string;
+}
+
 interface RequestOptions {
-  method?: "GET" | "POST" | "PUT";
+  method?: "GET" | "POST" | "PUT" | "DELETE";
   body?: unknown;
-  accessToken?: string;
+  /** Sends `body` (a string) as-is with this content type instead of as JSON. */
+  contentType?: string;
+  /**
+   * Whether sending the request twice has the same effect as sending it
+   * once, so it may be resent after a timeout or network error that lost the
+   * response. Defaults to true for GET only.
+   */
+  idempotent?: boolean;
 }
 
+/** Largest cover image Spotify accepts, measured as base64-encoded JPEG. */
+export const SPOTIFY_COVER_IMAGE_LIMIT_BYTES = 256 * 1024;
+
+/** Most tracks one save-to-library request may carry. */
+export const SPOTIFY_LIBRARY_SAVE_BATCH_SIZE = 50;
+
 /**
  * Thin client for the Spotify Web API covering the operations needed to mirror
- * liked songs: token refresh, user lookup, and playlist read/write. Requests
- * are retried with exponential backoff on rate-limit and server errors.
+ * the user's library: user lookup, library reads, and playlist read/write.
+ * The client holds the account's access token, refreshing it before it
+ * expires. Requests go through a client-side rate limiter and are retried,
+ * under one retry policy and budget, on timeouts, transient network errors,
+ * rate limits and server errors.
  */
 export class SpotifyClient {
+  private readonly fetch: typeof fetch;
+  private readonly apiBaseUrl: string;
+  private readonly accountsBaseUrl: string;
+  private readonly retrier: Retrier;
+  private readonly timeoutMs: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly tokens: TokenManager;
+  private readonly limiter: RateLimiter;
+  private readonly parallelPages: boolean;
+
   /**
    * @param {string} clientId - The Spotify application client ID.
    * @param {string} clientSecret - The Spotify application client secret.
    * @param {string} refreshToken - The OAuth refresh token used to obtain access tokens.
+   * @param {SpotifyClientOptions} [options] - Transport, retry, timing and token settings; defaults talk to Spotify.
    */
   constructor(
     private readonly clientId: string,
     private readonly clientSecret: string,
-    private readonly refreshToken: string
-  ) {}
+    refreshToken: string,
+    options: SpotifyClientOptions = {}
+  ) {
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.apiBaseUrl = (options.apiBaseUrl ?? SPOTIFY_API_BASE).replace(/\/+$/, "");
+    this.accountsBaseUrl = (options.accountsBaseUrl ?? SPOTIFY_ACCOUNTS_BASE).replace(/\/+$/, "");
+    this.retrier = new Retrier(
+      { ...DEFAULT_RETRY_POLICY, ...options.retry },
+      options.random ?? Math.random,
+      options.onRetry
+    );
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? sleep;
+    this.tokens = new TokenManager(refreshToken, (token) => this.requestTokenGrant(token), {
+      now: this.now,
+      refreshMarginMs: options.tokenRefreshMarginMs ?? 60000,
+      onRefreshTokenRotated: options.onRefreshTokenRotated
+    });
+    this.limiter = new RateLimiter({ ...DEFAULT_RATE_LIMIT, ...options.rateLimit }, this.now, this.sleep);
+    this.parallelPages = options.parallelPages ?? true;
+  }
+
+  /**
+   * Points a pagination URL returned by Spotify at the configured API base,
+   * so a proxy or stand-in also serves the following pages.
+   *
+   * @param {string | null} url - The `next` URL from a page, or null on the last page.
+   * @returns {string | null} The URL to request, or null.
+   */
+  private nextPageUrl(url: string | null): string | null {
+    return url?.startsWith(SPOTIFY_API_BASE) ? `${this.apiBaseUrl}${url.slice(SPOTIFY_API_BASE.length)}` : url;
+  }
 
   /**
-   * Exchanges the configured refresh token for a short-lived access token,
-   * retrying with backoff on timeouts, rate limits, and server errors.
+   * Returns the account's access token, refreshing it first if none has been
+   * obtained yet or it is about to expire. Concurrent callers share one
+   * refresh.
    *
    * @returns {Promise<string>} A valid Spotify access token.
-   * @throws {SpotifyApiError} If the token endpoint returns a non-retryable error or exhausts retries.
-   * @throws {Error} If the response omits an access token or a non-abort network error occurs.
-   */
-  async refreshAccessToken(): Promise<string> {
-    let attempt = 0;
-
-    while (true) {
-      const params = new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: this.refreshToken,
-        client_id: this.clientId,
-        client_secret: this.clientSecret
-      });
+   * @throws {RefreshTokenRevokedError} If Spotify rejects the refresh token.
+   * @throws {SpotifyApiError} If the token endpoint returns another error or exhausts retries.
+   */
+  async getAccessToken(): Promise<string> {
+    return this.tokens.getAccessToken();
+  }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  /**
+   * Exchanges a refresh token for a short-lived access token, retrying under
+   * the retry policy on timeouts, network errors, rate limits, and server errors.
+   *
+   * @param {string} refreshToken - The refresh token to exchange.
+   * @returns {Promise<TokenGrant>} The access token, its lifetime and any replacement refresh token.
+   * @throws {RefreshTokenRevokedError} If Spotify rejects the refresh token.
+   * @throws {SpotifyApiError} If the token endpoint returns another non-retryable error or exhausts retries.
+   * @throws {Error} If the response omits an access token or a non-transient network error occurs.
+   */
+  private async requestTokenGrant(refreshToken: string): Promise<TokenGrant> {
+    const params = new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret
+    });
 
-      let response: Response;
-      try {
-        response = await fetch(`${SPOTIFY_ACCOUNTS_BASE}/token`, {
+    // Exchanging the token twice does no harm, so lost responses are retried.
+    return this.withRetries(
+      "token request",
+      true,
+      () =>
+        this.send(`${this.accountsBaseUrl}/token`, {
           method: "POST",
           headers: {
             "Content-Type": "application/x-www-form-urlencoded"
           },
-          body: params,
-          signal: controller.signal
-        });
-      } catch (error) {
-        const isAbortError = error instanceof Error && error.name === "AbortError";
-        if (isAbortError && attempt < MAX_RETRIES) {
-          attempt += 1;
-          const backoffMs = 500 * 2 ** (attempt - 1);
-          logger.warn(`Spotify token request timed out after ${REQUEST_TIMEOUT_MS}ms. Retrying attempt ${attempt}.`);
-          await sleep(backoffMs);
-          continue;
-        }
+          body: params
+        }),
+      ({ response, bodyText }) => {
+        if (!response.ok) {
+          const description = response.status === 400 ? invalidGrantDescription(bodyText) : undefined;
+          if (description !== undefined) {
+            throw new RefreshTokenRevokedError(description);
+          }
 
-        throw error;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-
-      const bodyText = await response.text();
+          throw new SpotifyApiError(response.status, buildErrorMessage(response.status, bodyText));
+        }
 
-      if (response.ok) {
-        const parsed = parseJsonResponse<{ access_token?: string }>(bodyText, "token");
+        const parsed = parseJsonResponse<{ access_token?: string; expires_in?: number; refresh_token?: string }>(
+          bodyText,
+          "token"
+        );
         if (!parsed.access_token) {
           throw new Error("Spotify token response did not include access_token");
         }
 
-        return parsed.access_token;
-      }
-
-      const shouldRetry = response.status === 429 || response.status >= 500;
-      if (shouldRetry && attempt < MAX_RETRIES) {
-        attempt += 1;
-        const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
-        const backoffMs = retryAfterMs ?? 500 * 2 ** (attempt - 1);
-        await sleep(backoffMs);
-        continue;
-      }
-
-      throw new SpotifyApiError(response.status, buildErrorMessage(response.status, bodyText));
-    }
+        return {
+          accessToken: parsed.access_token,
+          expiresInSeconds: typeof parsed.expires_in === "number" ? parsed.expires_in : null,
+          refreshToken: parsed.refresh_token || null
+        };
+      },
+      (delayMs) => this.sleep(delayMs)
+    );
   }
 
   /**
    * Fetches the profile of the user that owns the access token.
    *
-   * @param {string} accessToken - A valid Spotify access token.
    * @returns {Promise<SpotifyUser>} The current user's profile.
    * @throws {SpotifyApiError} If the request fails.
    */
-  async getCurrentUser(accessToken: string): Promise<SpotifyUser> {
-    return this.request<SpotifyUser>(`${SPOTIFY_API_BASE}/me`, {
-      method: "GET",
-      accessToken
+  async getCurrentUser(): Promise<SpotifyUser> {
+    return this.request<SpotifyUser>(`${this.apiBaseUrl}/me`, {
+      method: "GET"
     });
   }
 
@@ -218,18 +362,21 @@ export class SpotifyClient {
    * Checks whether a playlist exists and is accessible to the current user.
    *
    * @param {string} playlistId - The Spotify playlist ID to look up.
-   * @param {string} accessToken - A valid Spotify access token.
-   * @returns {Promise<{ id: string } | null>} The playlist's id, or null if it is missing or inaccessible (403/404).
+   * @returns {Promise<PlaylistSummary | null>}
+   *   The playlist's id, current snapshot ID, name and description, or null if it is missing or
+   *   inaccessible (403/404).
    * @throws {SpotifyApiError} If the request fails with a status other than 403 or 404.
    */
-  async getPlaylist(playlistId: string, accessToken: string): Promise<{ id: string } | null> {
+  async getPlaylist(playlistId: string): Promise<PlaylistSummary | null> {
     logger.info(`Checking playlist existence for playlistId=${playlistId}.`);
 
     try {
-      return await this.request<{ id: string }>(`${SPOTIFY_API_BASE}/playlists/${playlistId}?fields=id`, {
-        method: "GET",
-        accessToken
-      });
+      return await this.request<PlaylistSummary>(
+        `${this.apiBaseUrl}/playlists/${playlistId}?fields=id,snapshot_id,name,description,public,collaborative`,
+        {
+          method: "GET"
+        }
+      );
     } catch (error) {
       if (error instanceof SpotifyApiError && (error.status === 403 || error.status === 404)) {
         return null;
@@ -240,29 +387,31 @@ export class SpotifyClient {
   }
 
   /**
-   * Creates a new public playlist for the current user.
+   * Creates a new playlist for the current user.
    *
    * @param {string} name - The display name for the new playlist.
-   * @param {string} accessToken - A valid Spotify access token.
+   * @param {PlaylistVisibility} visibility - Whether the playlist is public, private or collaborative.
+   * @param {string} [description] - The playlist description.
    * @returns {Promise<{ id: string; externalUrl: string | null }>} The new playlist's id and public URL (null if absent).
    * @throws {SpotifyApiError} If the request fails.
    */
-  async createPublicPlaylist(
+  async createPlaylist(
     name: string,
-    accessToken: string
+    visibility: PlaylistVisibility,
+    description = "Mirror of liked songs (auto-synced)"
   ): Promise<{ id: string; externalUrl: string | null }> {
     const payload = {
       name,
-      public: true,
-      description: "Mirror of liked songs (auto-synced)"
+      public: visibility === "public",
+      collaborative: visibility === "collaborative",
+      description
     };
 
     const response = await this.request<{ id: string; external_urls?: { spotify?: string } }>(
-      `${SPOTIFY_API_BASE}/me/playlists`,
+      `${this.apiBaseUrl}/me/playlists`,
       {
         method: "POST",
-        body: payload,
-        accessToken
+        body: payload
       }
     );
 
@@ -273,106 +422,428 @@ export class SpotifyClient {
   }
 
   /**
-   * Fetches every page of the current user's liked (saved) tracks.
+   * Changes a playlist's name, description and/or visibility. A collaborative
+   * playlist must also be sent as not public.
    *
-   * @param {string} accessToken - A valid Spotify access token.
-   * @returns {Promise<SavedTrackItem[]>} All saved track items in their original order.
+   * @param {string} playlistId - The playlist ID.
+   * @param {{ name?: string; description?: string; public?: boolean; collaborative?: boolean }} details - The
+   *   fields to change.
+   * @returns {Promise<void>} Resolves once the details have been changed.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async updatePlaylistDetails(
+    playlistId: string,
+    details: { name?: string; description?: string; public?: boolean; collaborative?: boolean }
+  ): Promise<void> {
+    await this.request<void>(`${this.apiBaseUrl}/playlists/${playlistId}`, {
+      method: "PUT",
+      body: details,
+      idempotent: true
+    });
+  }
+
+  /**
+   * Replaces a playlist's cover image. Requires the `ugc-image-upload` scope.
+   *
+   * @param {string} playlistId - The playlist ID.
+   * @param {Buffer} jpeg - The JPEG image; at most 256 KB once base64-encoded.
+   * @returns {Promise<void>} Resolves once Spotify has accepted the image.
+   * @throws {Error} If the image is too large.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async uploadPlaylistCover(playlistId: string, jpeg: Buffer): Promise<void> {
+    const encoded = jpeg.toString("base64");
+    if (encoded.length > SPOTIFY_COVER_IMAGE_LIMIT_BYTES) {
+      throw new Error(
+        `Cover image for playlist ${playlistId} is ${encoded.length} bytes base64-encoded; ` +
+          `Spotify accepts at most ${SPOTIFY_COVER_IMAGE_LIMIT_BYTES}`
+      );
+    }
+
+    await this.request<void>(`${this.apiBaseUrl}/playlists/${playlistId}/images`, {
+      method: "PUT",
+      body: encoded,
+      contentType: "image/jpeg",
+      idempotent: true
+    });
+  }
+
+  /**
+   * Fetches the first page of the current user's liked tracks, newest first,
+   * along with the library's total.
+   *
+   * @returns {Promise<PagingResponse<SavedTrackItem>>} The first page of up to 50 liked tracks.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async getLikedTracksPage(): Promise<PagingResponse<SavedTrackItem>> {
+    return this.request<PagingResponse<SavedTrackItem>>(
+      `${this.apiBaseUrl}/me/tracks?limit=50&offset=0&market=from_token`,
+      { method: "GET" }
+    );
+  }
+
+  /**
+   * Fetches every page of the current user's liked (saved) tracks. Spotify
+   * returns them newest first, so a caller that only needs recent likes can
+   * pass `stopWhen` to end pagination as soon as the collected tracks suffice;
+   * the pages are then read one at a time.
+   *
+   * @param {{ stopWhen?: (collected: SavedTrackItem[]) => boolean; onTotal?: (total: number) => void }} [options]
+   *   `stopWhen` is called after each page; returning true skips the remaining pages. `onTotal` is
+   *   called with the library's total as the first page reports it, even when pagination stops early.
+   * @returns {Promise<SavedTrackItem[]>} The saved track items fetched, in their original order.
    * @throws {SpotifyApiError} If any page request fails.
    */
-  async fetchAllLikedTracks(accessToken: string): Promise<SavedTrackItem[]> {
-    const results: SavedTrackItem[] = [];
-    const limit = 50;
-
-    // Drive pagination off the API's `next` cursor rather than a snapshot
-    // `total`. The saved-tracks library can change between page requests; if
-    // the loop is bounded by `total` with manual offset math, a shrinking
-    // library (total drops mid-read) can cause tracks to be skipped or the
-    // result set to be silently truncated, and a growing one can duplicate
-    // or miss items. Following `next` until it is null is the authoritative,
-    // race-free way to walk every page Spotify hands back.
-    //
+  async fetchAllLikedTracks(
+    options: { stopWhen?: (collected: SavedTrackItem[]) => boolean; onTotal?: (total: number) => void } = {}
+  ): Promise<SavedTrackItem[]> {
     // Pass market=from_token so Spotify resolves track relinking and
     // populates `is_playable` for the authenticated user's market. Without a
     // market the field is omitted, leaving the downstream is_playable===false
     // skip filter (sync-service) inert and unavailable tracks silently
     // mirrored. Spotify preserves query params (including market) across the
     // `next` URLs it hands back, so this only needs to be set once here.
-    let nextUrl: string | null = `${SPOTIFY_API_BASE}/me/tracks?limit=${limit}&offset=0&market=from_token`;
+    return this.fetchPages<SavedTrackItem>(
+      `${this.apiBaseUrl}/me/tracks?limit=50&offset=0&market=from_token`,
+      "liked tracks",
+      (entry) => `${entry.added_at} ${entry.track?.uri}`,
+      options.stopWhen,
+      options.onTotal
+    );
+  }
+
+  /**
+   * Fetches every page of a paged list. When enabled, and no `stopWhen` is
+   * given, the pages after the first are fetched concurrently at the offsets
+   * the first page's `total` implies; if the list changed meanwhile, it is
+   * read again by following `next` cursors.
+   *
+   * @template T The list's item type.
+   * @param {string} firstUrl - URL of the first page, with its `limit` and `offset`.
+   * @param {string} label - What the list holds, for log messages.
+   * @param {(item: T) => string} identify - Identifies an item, to check the first page did not change.
+   * @param {(collected: T[]) => boolean} [stopWhen] - Called after each page; returning true skips the remaining pages.
+   * @param {(total: number) => void} [onTotal] - Called with the list's total from the first page (read again if
+   *   the list changed mid-read).
+   * @returns {Promise<T[]>} The items, in list order.
+   * @throws {SpotifyApiError} If any page request fails.
+   */
+  private async fetchPages<T>(
+    firstUrl: string,
+    label: string,
+    identify: (item: T) => string,
+    stopWhen?: (collected: T[]) => boolean,
+    onTotal?: (total: number) => void
+  ): Promise<T[]> {
+    const first = await this.request<PagingResponse<T>>(firstUrl, { method: "GET" });
+    onTotal?.(first.total);
+    if (!this.parallelPages || stopWhen || !first.next) {
+      return this.walkPages(first, label, stopWhen);
+    }
+
+    const items = await this.fetchPagesConcurrently(firstUrl, first, label, identify);
+    if (items) {
+      logger.info(`Completed ${label} fetch. collected=${items.length}`);
+      return items;
+    }
+
+    logger.warn(`The ${label} changed while their pages were fetched concurrently. Re-reading them page by page.`);
+    const reread = await this.request<PagingResponse<T>>(firstUrl, { method: "GET" });
+    onTotal?.(reread.total);
+    return this.walkPages(reread, label);
+  }
+
+  /**
+   * Reads a paged list one page at a time, from its first page on.
+   *
+   * Pagination is driven off the API's `next` cursor rather than a snapshot
+   * `total`. The list can change between page requests; if the loop is
+   * bounded by `total` with manual offset math, a shrinking list (total drops
+   * mid-read) can cause items to be skipped or the result set to be silently
+   * truncated, and a growing one can duplicate or miss items. Following `next`
+   * until it is null is the authoritative, race-free way to walk every page
+   * Spotify hands back.
+   *
+   * @template T The list's item type.
+   * @param {PagingResponse<T>} first - The first page, already fetched.
+   * @param {string} label - What the list holds, for log messages.
+   * @param {(collected: T[]) => boolean} [stopWhen] - Called after each page; returning true skips the remaining pages.
+   * @returns {Promise<T[]>} The items, in list order.
+   * @throws {SpotifyApiError} If any page request fails.
+   */
+  private async walkPages<T>(
+    first: PagingResponse<T>,
+    label: string,
+    stopWhen?: (collected: T[]) => boolean
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let page: PagingResponse<T> | null = first;
+
+    while (page) {
+      results.push(...page.items);
+      logger.info(`Fetched ${label} page offset=${page.offset} items=${page.items.length} collected=${results.length}`);
+
+      const nextUrl = this.nextPageUrl(page.next);
+      if (nextUrl && stopWhen?.(results)) {
+        logger.info(`Stopping ${label} fetch early. collected=${results.length}`);
+        break;
+      }
+
+      page = nextUrl ? await this.request<PagingResponse<T>>(nextUrl, { method: "GET" }) : null;
+    }
+
+    logger.info(`Completed ${label} fetch. collected=${results.length}`);
+    return results;
+  }
+
+  /**
+   * Fetches the pages after the first concurrently, at the offsets the first
+   * page's `total` implies, then checks the list held still: every page
+   * reports the same total, the items add up to it, and the first page, read
+   * again, is unchanged (new likes appear there).
+   *
+   * @template T The list's item type.
+   * @param {string} firstUrl - URL of the first page.
+   * @param {PagingResponse<T>} first - The first page.
+   * @param {string} label - What the list holds, for log messages.
+   * @param {(item: T) => string} identify - Identifies an item, to compare the first page.
+   * @returns {Promise<T[] | null>} The items in list order, or null if the list changed mid-read.
+   * @throws {SpotifyApiError} If any page request fails.
+   */
+  private async fetchPagesConcurrently<T>(
+    firstUrl: string,
+    first: PagingResponse<T>,
+    label: string,
+    identify: (item: T) => string
+  ): Promise<T[] | null> {
+    logger.info(`Fetched ${label} page offset=${first.offset} items=${first.items.length} total=${first.total}`);
+    const offsets: number[] = [];
+    for (let offset = first.offset + first.limit; offset < first.total; offset += first.limit) {
+      offsets.push(offset);
+    }
+
+    const pages = await Promise.all(
+      offsets.map(async (offset) => {
+        const url = new URL(firstUrl);
+        url.searchParams.set("limit", String(first.limit));
+        url.searchParams.set("offset", String(offset));
+        const page = await this.request<PagingResponse<T>>(url.toString(), { method: "GET" });
+        logger.info(`Fetched ${label} page offset=${page.offset} items=${page.items.length} total=${page.total}`);
+        return page;
+      })
+    );
+    const items = [first, ...pages].flatMap((page) => page.items);
+
+    const reread = await this.request<PagingResponse<T>>(firstUrl, { method: "GET" });
+    const sameFirstPage = reread.items.map(identify).join("\n") === first.items.map(identify).join("\n");
+    const consistent =
+      [...pages, reread].every((page) => page.total === first.total) &&
+      items.length === first.total - first.offset &&
+      sameFirstPage;
+    return consistent ? items : null;
+  }
+
+  /**
+   * Fetches every page of the current user's saved albums, newest save first,
+   * along with all of each album's tracks (following the album's own track
+   * pages for albums longer than one page).
+   *
+   * @returns {Promise<SavedAlbumItem[]>} The saved albums, each with its complete track list.
+   * @throws {SpotifyApiError} If any page request fails.
+   */
+  async fetchAllSavedAlbums(): Promise<SavedAlbumItem[]> {
+    const results: SavedAlbumItem[] = [];
+    // As with liked tracks, market=from_token populates `is_playable` on the
+    // albums' tracks, and Spotify carries it over to the `next` URLs.
+    let nextUrl: string | null = `${this.apiBaseUrl}/me/albums?limit=50&offset=0&market=from_token`;
 
     while (nextUrl) {
-      const page: PagingResponse<SavedTrackItem> = await this.request<PagingResponse<SavedTrackItem>>(nextUrl, {
-        method: "GET",
-        accessToken
+      const page: PagingResponse<SavedAlbumItem> = await this.request<PagingResponse<SavedAlbumItem>>(nextUrl, {
+        method: "GET"
       });
 
-      results.push(...page.items);
+      for (const entry of page.items) {
+        const tracks = [...entry.album.tracks.items];
+        let tracksUrl = this.nextPageUrl(entry.album.tracks.next);
+        while (tracksUrl) {
+          const tracksPage: PagingResponse<SpotifyTrack> = await this.request<PagingResponse<SpotifyTrack>>(
+            tracksUrl,
+            { method: "GET" }
+          );
+          tracks.push(...tracksPage.items);
+          tracksUrl = this.nextPageUrl(tracksPage.next);
+        }
+
+        results.push({
+          ...entry,
+          album: { ...entry.album, tracks: { ...entry.album.tracks, items: tracks, next: null } }
+        });
+      }
+
       logger.info(
-        `Fetched liked tracks page offset=${page.offset} items=${page.items.length} collected=${results.length}`
+        `Fetched saved albums page offset=${page.offset} items=${page.items.length} collected=${results.length}`
       );
-
-      nextUrl = page.next;
+      nextUrl = this.nextPageUrl(page.next);
     }
 
-    logger.info(`Completed liked tracks fetch. collected=${results.length}`);
-
+    logger.info(`Completed saved albums fetch. collected=${results.length}`);
     return results;
   }
 
   /**
-   * Fetches every page of an owned or collaborative playlist using Spotify's
-   * 2026 playlist-items endpoint and response shape.
+   * Fetches every page of the current user's saved podcast episodes, newest
+   * save first. Requires the `user-read-playback-position` scope as well as
+   * `user-library-read`.
    *
-   * @param {string} playlistId - Spotify ID of the playlist to read.
-   * @param {string} accessToken - A valid user access token for the playlist owner or collaborator.
-   * @returns {Promise<PlaylistItem[]>} All playlist items in their source order.
-   * @throws {SpotifyApiError} If the playlist is inaccessible or a request fails.
+   * @returns {Promise<SavedEpisodeItem[]>} The saved episode items, in their original order.
+   * @throws {SpotifyApiError} If any page request fails.
    */
-  async fetchAllPlaylistItems(playlistId: string, accessToken: string): Promise<PlaylistItem[]> {
-    const results: PlaylistItem[] = [];
-    const encodedPlaylistId = encodeURIComponent(playlistId);
-    let nextUrl: string | null =
-      `${SPOTIFY_API_BASE}/playlists/${encodedPlaylistId}/items` +
-      "?limit=50&offset=0&market=from_token";
+  async fetchAllSavedEpisodes(): Promise<SavedEpisodeItem[]> {
+    const results: SavedEpisodeItem[] = [];
+    let nextUrl: string | null = `${this.apiBaseUrl}/me/episodes?limit=50&offset=0&market=from_token`;
 
     while (nextUrl) {
-      const page: PagingResponse<PlaylistItem> = await this.request<PagingResponse<PlaylistItem>>(nextUrl, {
-        method: "GET",
-        accessToken
+      const page: PagingResponse<SavedEpisodeItem> = await this.request<PagingResponse<SavedEpisodeItem>>(nextUrl, {
+        method: "GET"
       });
 
       results.push(...page.items);
       logger.info(
-        `Fetched mirror playlist page offset=${page.offset} items=${page.items.length} collected=${results.length}`
+        `Fetched saved episodes page offset=${page.offset} items=${page.items.length} collected=${results.length}`
       );
-      nextUrl = page.next;
+      nextUrl = this.nextPageUrl(page.next);
     }
 
-    logger.info(`Completed mirror playlist fetch. collected=${results.length}`);
+    logger.info(`Completed saved episodes fetch. collected=${results.length}`);
     return results;
   }
 
+  /**
+   * Saves tracks to the current user's Liked Songs. Requires the
+   * `user-library-modify` scope. When every track has a like time it is sent
+   * along, so Spotify lists the track as liked at that time; otherwise the
+   * tracks are liked now.
+   *
+   * @param {Array<{ id: string; likedAt: string | null }>} tracks - Track IDs (at most 50) and their like times.
+   * @returns {Promise<void>} Resolves once the tracks are saved.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async saveLikedTracks(tracks: Array<{ id: string; likedAt: string | null }>): Promise<void> {
+    const timestamped = tracks.every((track) => track.likedAt !== null);
+    await this.request<void>(`${this.apiBaseUrl}/me/tracks`, {
+      method: "PUT",
+      body: timestamped
+        ? { timestamped_ids: tracks.map((track) => ({ id: track.id, added_at: track.likedAt })) }
+        : { ids: tracks.map((track) => track.id) },
+      idempotent: true
+    });
+  }
+
+  /**
+   * Searches the catalog for tracks, resolving playability for the user's
+   * market so `is_playable` is populated on every result.
+   *
+   * @param {string} query - A Spotify search query (field filters such as `isrc:` are allowed).
+   * @returns {Promise<SpotifyTrack[]>} The first page of matching tracks.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async searchTracks(query: string): Promise<SpotifyTrack[]> {
+    const params = new URLSearchParams({ q: query, type: "track", market: "from_token", limit: `${SEARCH_LIMIT}` });
+    const response = await this.request<{ tracks?: PagingResponse<SpotifyTrack | null> }>(
+      `${this.apiBaseUrl}/search?${params.toString()}`,
+      {
+        method: "GET"
+      }
+    );
+
+    return (response.tracks?.items ?? []).filter((track): track is SpotifyTrack => track !== null);
+  }
+
+  /**
+   * Looks for a playable release of the same recording as an unplayable
+   * track: first by ISRC, then by an exact (case-insensitive) match on track
+   * name and primary artist.
+   *
+   * @param {SpotifyTrack} track - The unplayable track.
+   * @returns {Promise<{ track: SpotifyTrack; matchedBy: SubstitutionMatch } | null>}
+   *   The playable substitute and how it was matched, or null if none was found.
+   * @throws {SpotifyApiError} If a search request fails.
+   */
+  async findPlayableEquivalent(
+    track: SpotifyTrack
+  ): Promise<{ track: SpotifyTrack; matchedBy: SubstitutionMatch } | null> {
+    const isPlayableAlternative = (candidate: SpotifyTrack) =>
+      candidate.uri !== track.uri && candidate.is_playable === true && candidate.is_local !== true;
+
+    const isrc = track.external_ids?.isrc;
+    if (isrc) {
+      const match = (await this.searchTracks(`isrc:${isrc}`)).find(isPlayableAlternative);
+      if (match) {
+        return { track: match, matchedBy: "isrc" };
+      }
+    }
+
+    const artist = track.artists?.[0]?.name;
+    if (!track.name || !artist) {
+      return null;
+    }
+
+    // Quotes would end the field filter early, so they are dropped from the query.
+    const quote = (value: string) => `"${value.replaceAll('"', "")}"`;
+    const name = track.name.toLowerCase();
+    const artistName = artist.toLowerCase();
+    const match = (await this.searchTracks(`track:${quote(track.name)} artist:${quote(artist)}`)).find(
+      (candidate) =>
+        isPlayableAlternative(candidate) &&
+        candidate.name?.toLowerCase() === name &&
+        candidate.artists?.[0]?.name.toLowerCase() === artistName
+    );
+
+    return match ? { track: match, matchedBy: "name-artist" } : null;
+  }
+
+  /**
+   * Fetches every page of an owned or collaborative playlist using Spotify's
+   * 2026 playlist-items endpoint and response shape.
+   *
+   * @param {string} playlistId - Spotify ID of the playlist to read.
+   * @returns {Promise<PlaylistItem[]>} All playlist items in their source order.
+   * @throws {SpotifyApiError} If the playlist is inaccessible or a request fails.
+   */
+  async fetchAllPlaylistItems(playlistId: string): Promise<PlaylistItem[]> {
+    return this.fetchPages<PlaylistItem>(
+      `${this.apiBaseUrl}/playlists/${encodeURIComponent(playlistId)}/items?limit=50&offset=0&market=from_token`,
+      "mirror playlist",
+      (entry) => `${entry.added_at} ${entry.item?.uri}`
+    );
+  }
+
   /**
    * Replaces all items in a playlist with the given URIs (passing an empty
    * array clears the playlist). A 403 returned while clearing an already-empty
    * playlist is treated as success.
    *
    * @param {string} playlistId - The target playlist ID.
-   * @param {string[]} uris - The track URIs to set as the playlist's contents.
-   * @param {string} accessToken - A valid Spotify access token.
-   * @returns {Promise<void>} Resolves once the playlist items have been replaced.
+   * @param {string[]} uris - The track URIs to set as the playlist's contents (at most 100).
+   * @returns {Promise<string | null>} The playlist's new snapshot ID, or null if Spotify omitted it.
    * @throws {SpotifyApiError} If the request fails (other than the ignored empty-clear 403 case).
    */
-  async replacePlaylistItems(playlistId: string, uris: string[], accessToken: string): Promise<void> {
+  async replacePlaylistItems(playlistId: string, uris: string[]): Promise<string | null> {
     try {
-      await this.request<void>(`${SPOTIFY_API_BASE}/playlists/${playlistId}/items`, {
-        method: "PUT",
-        body: { uris },
-        accessToken
-      });
+      const response = await this.request<{ snapshot_id?: string } | undefined>(
+        `${this.apiBaseUrl}/playlists/${playlistId}/items`,
+        {
+          method: "PUT",
+          body: { uris },
+          idempotent: true
+        }
+      );
+
+      return response?.snapshot_id ?? null;
     } catch (error) {
       // Spotify may return 403 when clearing an already-empty playlist. Ignore it.
       if (uris.length === 0 && error instanceof SpotifyApiError && error.status === 403) {
-        return;
+        return null;
       }
 
       throw error;
@@ -380,110 +851,271 @@ export class SpotifyClient {
   }
 
   /**
-   * Appends the given track URIs to the end of a playlist.
+   * Unfollows a playlist on behalf of the current user, which is how Spotify
+   * deletes a playlist the user owns.
    *
-   * @param {string} playlistId - The target playlist ID.
-   * @param {string[]} uris - The track URIs to append.
-   * @param {string} accessToken - A valid Spotify access token.
-   * @returns {Promise<void>} Resolves once the items have been added.
+   * @param {string} playlistId - The playlist ID.
+   * @returns {Promise<void>} Resolves once the playlist has been unfollowed.
    * @throws {SpotifyApiError} If the request fails.
    */
-  async addPlaylistItems(playlistId: string, uris: string[], accessToken: string): Promise<void> {
-    await this.request<void>(`${SPOTIFY_API_BASE}/playlists/${playlistId}/items`, {
-      method: "POST",
-      body: { uris },
-      accessToken
+  async unfollowPlaylist(playlistId: string): Promise<void> {
+    await this.request<void>(`${this.apiBaseUrl}/playlists/${playlistId}/followers`, {
+      method: "DELETE"
     });
   }
 
   /**
-   * Performs an authenticated JSON request against the Spotify API, retrying
-   * with exponential backoff on timeouts, rate limits (429), and server errors
-   * (5xx). Parses the JSON response body, or returns undefined for empty bodies.
+   * Inserts the given track URIs into a playlist, appending them to the end
+   * unless a zero-based position is given.
+   *
+   * @param {string} playlistId - The target playlist ID.
+   * @param {string[]} uris - The track URIs to insert (at most 100).
+   * @param {number} [position] - Zero-based index to insert at; omitted to append.
+   * @returns {Promise<string | null>} The playlist's new snapshot ID, or null if Spotify omitted it.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async addPlaylistItems(playlistId: string, uris: string[], position?: number): Promise<string | null> {
+    const response = await this.request<{ snapshot_id?: string } | undefined>(
+      `${this.apiBaseUrl}/playlists/${playlistId}/items`,
+      {
+        method: "POST",
+        body: position === undefined ? { uris } : { uris, position }
+      }
+    );
+
+    return response?.snapshot_id ?? null;
+  }
+
+  /**
+   * Removes every occurrence of the given track URIs from a playlist.
+   *
+   * @param {string} playlistId - The target playlist ID.
+   * @param {string[]} uris - The track URIs to remove (at most 100).
+   * @param {string | null} snapshotId - Snapshot the removal applies to, or null for the latest.
+   * @returns {Promise<string | null>} The playlist's new snapshot ID, or null if Spotify omitted it.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async removePlaylistItems(playlistId: string, uris: string[], snapshotId: string | null): Promise<string | null> {
+    const response = await this.request<{ snapshot_id?: string } | undefined>(
+      `${this.apiBaseUrl}/playlists/${playlistId}/items`,
+      {
+        method: "DELETE",
+        body: {
+          items: uris.map((uri) => ({ uri })),
+          ...(snapshotId ? { snapshot_id: snapshotId } : {})
+        }
+      }
+    );
+
+    return response?.snapshot_id ?? null;
+  }
+
+  /**
+   * Moves a contiguous range of playlist items to a new position. As with
+   * Spotify's reorder endpoint, `insertBefore` is an index into the playlist
+   * as it stands before the move.
+   *
+   * @param {string} playlistId - The target playlist ID.
+   * @param {{ rangeStart: number; insertBefore: number; rangeLength: number; snapshotId: string | null }} move
+   *   The range to move, its destination, and the snapshot the move applies to.
+   * @returns {Promise<string | null>} The playlist's new snapshot ID, or null if Spotify omitted it.
+   * @throws {SpotifyApiError} If the request fails.
+   */
+  async reorderPlaylistItems(
+    playlistId: string,
+    move: { rangeStart: number; insertBefore: number; rangeLength: number; snapshotId: string | null }
+  ): Promise<string | null> {
+    const response = await this.request<{ snapshot_id?: string } | undefined>(
+      `${this.apiBaseUrl}/playlists/${playlistId}/items`,
+      {
+        method: "PUT",
+        body: {
+          range_start: move.rangeStart,
+          insert_before: move.insertBefore,
+          range_length: move.rangeLength,
+          ...(move.snapshotId ? { snapshot_id: move.snapshotId } : {})
+        }
+      }
+    );
+
+    return response?.snapshot_id ?? null;
+  }
+
+  /**
+   * Performs an authenticated JSON request against the Spotify API through
+   * the rate limiter, retrying under the retry policy on server errors (5xx),
+   * timeouts and transient network errors for idempotent requests only; an
+   * insert or reorder that got no answer or a 5xx (say, from a gateway) may
+   * already have been applied, so the error is thrown and the next run's diff
+   * repairs the playlist. A rate limit (429) pauses every
+   * request for the server's `Retry-After` (or the backoff) before retrying.
+   * Parses the JSON response body, or returns undefined for empty bodies.
    *
    * @template T The expected shape of the parsed response body.
    * @param {string} url - The fully-qualified request URL.
-   * @param {RequestOptions} options - Request method, optional JSON body, and optional access token.
-   * @returns {Promise<T>} The parsed response body (undefined when the body is empty).
-   * @throws {SpotifyApiError} If the response is a non-retryable error or retries are exhausted.
-   * @throws {Error} If a non-abort network error occurs.
+   * @param {RequestOptions} options - The HTTP method and optional body.
+   * @returns {Promise<T>} The parsed response body.
+   * @throws {SpotifyApiError} If the API returns a non-retryable error status or retries are exhausted.
+   * @throws {Error} If a non-transient network error occurs.
    */
   private async request<T>(url: string, options: RequestOptions): Promise<T> {
-    let attempt = 0;
-    let accessToken = options.accessToken;
+    const method = options.method || "GET";
+    const body =
+      options.body === undefined
+        ? undefined
+        : options.contentType
+          ? String(options.body)
+          : JSON.stringify(options.body);
+    let accessToken = await this.tokens.getAccessToken();
     let refreshedOnce = false;
 
-    while (true) {
-      const headers: Record<string, string> = {
-        Accept: "application/json"
-      };
+    const sendOnce = (attempt: number) =>
+      // The timeout starts once the limiter lets the request go.
+      this.limiter.schedule(() => {
+        const headers: Record<string, string> = {
+          Accept: "application/json",
+          Authorization: `Bearer ${accessToken}`
+        };
+        if (options.body !== undefined) {
+          headers["Content-Type"] = options.contentType ?? "application/json";
+        }
 
-      if (accessToken) {
-        headers.Authorization = `Bearer ${accessToken}`;
-      }
+        logger.info(`Spotify request attempt ${attempt}: ${method} ${url}`);
+        return this.send(url, { method, headers, body });
+      });
 
-      if (options.body !== undefined) {
-        headers["Content-Type"] = "application/json";
-      }
+    return this.withRetries(
+      `${method} ${url}`,
+      options.idempotent ?? method === "GET",
+      async (attempt) => {
+        const sent = await sendOnce(attempt);
+
+        // The token is refreshed ahead of its expiry, but Spotify can still
+        // revoke it early. Refresh once and retry the request with a fresh token
+        // before treating the 401 as fatal.
+        if (sent.response.status === 401 && !refreshedOnce) {
+          refreshedOnce = true;
+          logger.warn("Spotify request returned 401. Refreshing access token and retrying.");
+          accessToken = await this.tokens.renew(accessToken);
+          return sendOnce(attempt);
+        }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        return sent;
+      },
+      ({ response, bodyText }) => {
+        if (!response.ok) {
+          throw new SpotifyApiError(response.status, buildErrorMessage(response.status, bodyText));
+        }
 
-      logger.info(`Spotify request attempt ${attempt + 1}: ${options.method || "GET"} ${url}`);
+        return bodyText ? parseJsonResponse<T>(bodyText, "API") : (undefined as T);
+      },
+      async (delayMs, failure) => {
+        if (failure.reason === "rate-limit") {
+          this.limiter.pause(delayMs);
+        } else {
+          await this.sleep(delayMs);
+        }
+      }
+    );
+  }
+
+  /**
+   * Sends one attempt of a request and reads its body, aborting it once the
+   * timeout passes.
+   *
+   * @param {string} url - The fully-qualified request URL.
+   * @param {RequestInit} init - The request's method, headers and body.
+   * @returns {Promise<SentRequest>} The response and its body text.
+   * @throws {Error} If the request fails or times out (an `AbortError`).
+   */
+  private async send(url: string, init: RequestInit): Promise<SentRequest> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await this.fetch(url, { ...init, signal: controller.signal });
+      return { response, bodyText: await response.text() };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
 
-      let response: Response;
+  /**
+   * Runs the attempts of a request under the retry policy. An attempt that
+   * gets a 429, or (if the request may be resent) a 5xx, a timeout or a
+   * transient network error, is retried after the policy's delay, until it
+   * runs out of retries or budget; any other response is settled.
+   *
+   * @template T The request's result.
+   * @param {string} label - The request, for log messages and retry events.
+   * @param {boolean} resendable - Whether the request may be resent after a lost response or a 5xx.
+   * @param {(attempt: number) => Promise<SentRequest>} sendAttempt - Sends the given attempt, from 1.
+   * @param {(sent: SentRequest) => T} settle - Turns a response into the result, throwing for an error status.
+   * @param {(delayMs: number, failure: RetryFailure) => Promise<void>} wait - Waits before a retry.
+   * @returns {Promise<T>} The settled result.
+   * @throws {Error} What `settle` throws for the last response, or the last non-retried network error.
+   */
+  private async withRetries<T>(
+    label: string,
+    resendable: boolean,
+    sendAttempt: (attempt: number) => Promise<SentRequest>,
+    settle: (sent: SentRequest) => T,
+    wait: (delayMs: number, failure: RetryFailure) => Promise<void>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      let sent: SentRequest | null = null;
+      let failure: RetryFailure;
       try {
-        response = await fetch(url, {
-          method: options.method || "GET",
-          headers,
-          body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
-          signal: controller.signal
-        });
+        sent = await sendAttempt(attempt);
       } catch (error) {
-        const isAbortError = error instanceof Error && error.name === "AbortError";
-        if (isAbortError && attempt < MAX_RETRIES) {
-          attempt += 1;
-          const backoffMs = 500 * 2 ** (attempt - 1);
-          logger.warn(`Spotify API request timed out after ${REQUEST_TIMEOUT_MS}ms. Retrying attempt ${attempt}.`);
-          await sleep(backoffMs);
-          continue;
+        const network = classifyNetworkError(error);
+        if (!network) {
+          throw error;
         }
 
-        throw error;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-
-      const bodyText = await response.text();
+        const what =
+          network.reason === "timeout"
+            ? `timed out after ${this.timeoutMs}ms`
+            : `failed (${network.errorCode ?? (error as Error).message})`;
+        if (!resendable) {
+          logger.warn(`Spotify ${label} ${what}. Not retrying, as it may already have been applied.`);
+          throw error;
+        }
 
-      if (response.ok) {
-        if (!bodyText) {
-          return undefined as T;
+        failure = { ...network, status: null, retryAfterMs: null };
+        const delayMs = this.retrier.nextDelay(label, attempt, failure);
+        if (delayMs === null) {
+          throw error;
         }
 
-        return parseJsonResponse<T>(bodyText, "API");
+        logger.warn(`Spotify ${label} ${what}. Retrying attempt ${attempt} in ${delayMs}ms.`);
+        await wait(delayMs, failure);
+        continue;
       }
 
-      // The access token lasts ~1 hour, so a long-running sync can outlive it
-      // and start receiving 401s mid-run. Refresh once and retry the request
-      // with a fresh token before treating the 401 as fatal.
-      if (response.status === 401 && accessToken && !refreshedOnce) {
-        refreshedOnce = true;
-        logger.warn("Spotify request returned 401. Refreshing access token and retrying.");
-        accessToken = await this.refreshAccessToken();
-        continue;
+      const { status } = sent.response;
+      if (status !== 429 && status < 500) {
+        return settle(sent);
       }
 
-      const shouldRetry = response.status === 429 || response.status >= 500;
-      if (shouldRetry && attempt < MAX_RETRIES) {
-        attempt += 1;
-        const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
-        const backoffMs = retryAfterMs ?? 500 * 2 ** (attempt - 1);
-        await sleep(backoffMs);
-        continue;
+      // A gateway can answer 5xx after Spotify already applied the request.
+      if (status >= 500 && !resendable) {
+        logger.warn(`Spotify ${label} returned ${status}. Not retrying, as it may already have been applied.`);
+        return settle(sent);
+      }
+
+      failure = {
+        reason: status === 429 ? "rate-limit" : "server-error",
+        status,
+        errorCode: null,
+        retryAfterMs: parseRetryAfterMs(sent.response.headers.get("retry-after"), this.now())
+      };
+      const delayMs = this.retrier.nextDelay(label, attempt, failure);
+      if (delayMs === null) {
+        return settle(sent);
       }
 
-      throw new SpotifyApiError(response.status, buildErrorMessage(response.status, bodyText));
+      logger.warn(`Spotify ${label} returned ${status}. Retrying attempt ${attempt} in ${delayMs}ms.`);
+      await wait(delayMs, failure);
     }
   }
 }
@@ -1,31 +1,277 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
-import type { AppState } from "./types";
+import { DEFAULT_TARGET_KEY } from "./mirror-config";
+import type {
+  AppState,
+  GraveyardState,
+  GraveyardTrack,
+  LibraryFingerprint,
+  LikedTrackState,
+  PlaylistSnapshot,
+  TargetState
+} from "./types";
 
 const DEFAULT_STATE: AppState = {
-  playlistId: null
+  targets: {}
 };
 
+/**
+ * Validates a persisted liked-track record, returning null if it is malformed.
+ *
+ * @param {unknown} value - The parsed record.
+ * @returns {LikedTrackState | null} The record, or null if a field is missing or has the wrong type.
+ */
+function normalizeLikedTrack(value: unknown): LikedTrackState | null {
+  const { name, artists, likedAt } = (value as Partial<LikedTrackState> | null) ?? {};
+  if (
+    (name !== null && typeof name !== "string") ||
+    !Array.isArray(artists) ||
+    !artists.every((artist) => typeof artist === "string") ||
+    typeof likedAt !== "string"
+  ) {
+    return null;
+  }
+
+  return { name, artists, likedAt };
+}
+
+/**
+ * Validates a persisted playlist snapshot, returning null if it is malformed.
+ *
+ * @param {unknown} value - The parsed snapshot.
+ * @returns {PlaylistSnapshot | null} The snapshot, or null if a field is missing or has the wrong type.
+ */
+function normalizeSnapshot(value: unknown): PlaylistSnapshot | null {
+  const { snapshotId, uris, pinnedUris } = (value as Partial<PlaylistSnapshot> | null) ?? {};
+  if ((snapshotId !== null && typeof snapshotId !== "string") || !Array.isArray(uris)) {
+    return null;
+  }
+
+  const snapshot: PlaylistSnapshot = { snapshotId, uris: uris.filter((uri) => typeof uri === "string") };
+  const pinned = Array.isArray(pinnedUris) ? pinnedUris.filter((uri) => typeof uri === "string") : [];
+  if (pinned.length > 0) {
+    snapshot.pinnedUris = pinned;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Validates a persisted library fingerprint, returning null if it is malformed.
+ *
+ * @param {unknown} value - The parsed fingerprint.
+ * @returns {LibraryFingerprint | null} The fingerprint, or null if a field is missing or has the wrong type.
+ */
+function normalizeFingerprint(value: unknown): LibraryFingerprint | null {
+  const { total, newestAddedAt, firstPageTrackIds, playlistSnapshots, configHash, reconciledAt } =
+    (value as Partial<LibraryFingerprint> | null) ?? {};
+  if (
+    typeof total !== "number" ||
+    (newestAddedAt !== null && typeof newestAddedAt !== "string") ||
+    !Array.isArray(firstPageTrackIds) ||
+    !firstPageTrackIds.every((id) => id === null || typeof id === "string") ||
+    typeof playlistSnapshots !== "object" ||
+    playlistSnapshots === null ||
+    !Object.values(playlistSnapshots).every((snapshotId) => typeof snapshotId === "string") ||
+    typeof configHash !== "string" ||
+    typeof reconciledAt !== "string"
+  ) {
+    return null;
+  }
+
+  return { total, newestAddedAt, firstPageTrackIds, playlistSnapshots, configHash, reconciledAt };
+}
+
+/**
+ * Normalizes parsed state JSON, dropping malformed entries (including
+ * liked-track, graveyard, playlist snapshot and fingerprint records). A
+ * legacy single-playlist file (`{ "playlistId": ... }`) is mapped onto the
+ * default target so existing mirrors keep being reused. Each profile's
+ * section is normalized the same way.
+ *
+ * @param {Record<string, unknown>} parsed - The parsed state file contents.
+ * @param {boolean} [topLevel=true] - Whether this is the whole file, which may hold profile sections.
+ * @returns {AppState} The normalized state.
+ */
+function normalizeState(parsed: Record<string, unknown>, topLevel = true): AppState {
+  const targets: Record<string, TargetState> = {};
+
+  if (typeof parsed.playlistId === "string") {
+    targets[DEFAULT_TARGET_KEY] = { playlistId: parsed.playlistId };
+  }
+
+  if (typeof parsed.targets === "object" && parsed.targets !== null) {
+    for (const [key, value] of Object.entries(parsed.targets as Record<string, unknown>)) {
+      const { playlistId, partPlaylistIds, archivePlaylistIds, coverHashes, snapshots, candidateCount, source } =
+        (value as Partial<TargetState> | null) ?? {};
+      targets[key] = { playlistId: typeof playlistId === "string" ? playlistId : null };
+
+      if (Array.isArray(partPlaylistIds)) {
+        const ids = partPlaylistIds.filter((id): id is string => typeof id === "string");
+        if (ids.length > 0) {
+          targets[key].partPlaylistIds = ids;
+        }
+      }
+
+      if (typeof archivePlaylistIds === "object" && archivePlaylistIds !== null) {
+        const entries = Object.entries(archivePlaylistIds).filter(([, id]) => typeof id === "string");
+        if (entries.length > 0) {
+          targets[key].archivePlaylistIds = Object.fromEntries(entries);
+        }
+      }
+
+      if (typeof coverHashes === "object" && coverHashes !== null) {
+        const entries = Object.entries(coverHashes).filter(([, hash]) => typeof hash === "string");
+        if (entries.length > 0) {
+          targets[key].coverHashes = Object.fromEntries(entries);
+        }
+      }
+
+      if (typeof snapshots === "object" && snapshots !== null) {
+        const entries = Object.entries(snapshots).flatMap(([id, value]) => {
+          const snapshot = normalizeSnapshot(value);
+          return snapshot ? [[id, snapshot] as const] : [];
+        });
+        if (entries.length > 0) {
+          targets[key].snapshots = Object.fromEntries(entries);
+        }
+      }
+
+      if (typeof candidateCount === "number" && Number.isInteger(candidateCount) && candidateCount >= 0) {
+        targets[key].candidateCount = candidateCount;
+      }
+
+      if (typeof source === "string") {
+        targets[key].source = source;
+      }
+    }
+  }
+
+  const state: AppState = { targets };
+
+  if (typeof parsed.likedTracks === "object" && parsed.likedTracks !== null) {
+    state.likedTracks = {};
+    for (const [uri, value] of Object.entries(parsed.likedTracks as Record<string, unknown>)) {
+      const liked = normalizeLikedTrack(value);
+      if (liked) {
+        state.likedTracks[uri] = liked;
+      }
+    }
+  }
+
+  if (typeof parsed.graveyard === "object" && parsed.graveyard !== null) {
+    const { playlistId, tracks } = parsed.graveyard as Partial<GraveyardState>;
+    state.graveyard = {
+      playlistId: typeof playlistId === "string" ? playlistId : null,
+      tracks: (Array.isArray(tracks) ? tracks : []).flatMap((value): GraveyardTrack[] => {
+        const { uri, unlikedAt } = (value as Partial<GraveyardTrack> | null) ?? {};
+        const liked = normalizeLikedTrack(value);
+        return liked && typeof uri === "string" && typeof unlikedAt === "string" ? [{ uri, ...liked, unlikedAt }] : [];
+      })
+    };
+  }
+
+  const { likedCount } = parsed;
+  if (typeof likedCount === "number" && Number.isInteger(likedCount) && likedCount >= 0) {
+    state.likedCount = likedCount;
+  }
+
+  const fingerprint = normalizeFingerprint(parsed.fingerprint);
+  if (fingerprint) {
+    state.fingerprint = fingerprint;
+  }
+
+  if (topLevel && typeof parsed.profiles === "object" && parsed.profiles !== null) {
+    state.profiles = {};
+    for (const [name, value] of Object.entries(parsed.profiles as Record<string, unknown>)) {
+      if (typeof value === "object" && value !== null) {
+        state.profiles[name] = normalizeState(value as Record<string, unknown>, false);
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Picks out the state a sync of one profile works with.
+ *
+ * @param {AppState} state - The whole persisted state.
+ * @param {string | null} profile - The profile name, or `null` for the single-account setup.
+ * @returns {AppState} The profile's section (empty if it has none yet), or the top-level state for `null`.
+ */
+export function profileState(state: AppState, profile: string | null): AppState {
+  if (profile === null) {
+    return state;
+  }
+
+  return state.profiles?.[profile] ?? { targets: {} };
+}
+
+/**
+ * Lists the playlists holding a target's tracks, newest like first: the
+ * mirror and then each part playlist in order or, for an archive target,
+ * every period playlist from the newest period back.
+ *
+ * @param {AppState} state - The profile's state.
+ * @param {string} targetKey - The target's key.
+ * @returns {string[]} The playlist IDs, in order.
+ * @throws {Error} If the state records no playlist for the target.
+ */
+export function targetPlaylistIds(state: AppState, targetKey: string): string[] {
+  const targetState = state.targets[targetKey];
+  const archiveIds = Object.entries(targetState?.archivePlaylistIds ?? {})
+    .sort(([left], [right]) => right.localeCompare(left))
+    .map(([, playlistId]) => playlistId);
+  const playlistIds = targetState?.playlistId
+    ? [targetState.playlistId, ...(targetState.partPlaylistIds ?? [])]
+    : archiveIds;
+
+  if (playlistIds.length === 0) {
+    throw new Error(`The mirror playlist ID for target ${targetKey} is not configured in state/state.json`);
+  }
+
+  return playlistIds;
+}
+
+/**
+ * Puts a profile's next state back into the whole state, leaving the other
+ * profiles' sections as they are.
+ *
+ * @param {AppState} state - The whole persisted state.
+ * @param {string | null} profile - The profile name, or `null` for the single-account setup.
+ * @param {AppState} next - The profile's next state.
+ * @returns {AppState} The new whole state.
+ */
+export function withProfileState(state: AppState, profile: string | null, next: AppState): AppState {
+  if (profile === null) {
+    return state.profiles ? { ...next, profiles: state.profiles } : next;
+  }
+
+  return { ...state, profiles: { ...state.profiles, [profile]: next } };
+}
+
 /**
  * Reads the persisted application state from disk. If the file does not exist,
- * the default state is written to disk and returned.
+ * the default state is returned and, unless `persistDefault` is false (as in
+ * a dry run), also written to disk.
  *
  * @param {string} stateFilePath - Absolute path to the state JSON file.
+ * @param {boolean} [persistDefault=true] - Whether to create the file when it is missing.
  * @returns {Promise<AppState>} The parsed (or freshly initialized) application state.
  * @throws {Error} If the file exists but cannot be read for a reason other than absence.
  */
-export async function readState(stateFilePath: string): Promise<AppState> {
+export async function readState(stateFilePath: string, persistDefault = true): Promise<AppState> {
   try {
     const raw = await fs.readFile(stateFilePath, "utf8");
-    const parsed = JSON.parse(raw) as Partial<AppState>;
-
-    return {
-      playlistId: typeof parsed.playlistId === "string" ? parsed.playlistId : null
-    };
+    return normalizeState(JSON.parse(raw) as Record<string, unknown>);
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      await writeState(stateFilePath, DEFAULT_STATE);
-      return { ...DEFAULT_STATE };
+      if (persistDefault) {
+        await writeState(stateFilePath, DEFAULT_STATE);
+      }
+
+      return { targets: {} };
     }
 
     throw new Error(`Failed to read state file (${stateFilePath}): ${(error as Error).message}`);
@@ -0,0 +1,261 @@
+import type { MirrorDiffPlan } from "./mirror-diff";
+import type {
+  CollapsedDuplicate,
+  PlaylistDrift,
+  PlaylistItem,
+  PlaylistVisibility,
+  SavedTrackItem,
+  SkippedTrack
+} from "./types";
+
+export interface SyncPlanTrack {
+  uri: string;
+  name: string | null;
+  artists: string[];
+}
+
+/**
+ * Planned changes to one playlist of a target (a target spread over several
+ * playlists has one entry per part).
+ */
+export interface SyncPlanPlaylist {
+  /** One-based part number. */
+  part: number;
+  /** Archive period the playlist covers (e.g. `2026-10`), or `null` for a mirror part. */
+  period: string | null;
+  /** ID of the existing playlist, or `null` if it would be created. */
+  id: string | null;
+  /** Name the playlist would be created with; `null` for an existing playlist. */
+  name: string | null;
+  create: boolean;
+  added: Array<SyncPlanTrack & { position: number }>;
+  removed: SyncPlanTrack[];
+  moved: Array<SyncPlanTrack & { from: number; insertBefore: number }>;
+  /** Whether the playlist is rewritten in full, as moving its tracks would take too many calls. */
+  rewrite: boolean;
+  /** Managed details that differ and are (or would be) sent; `null` fields are left as they are. */
+  details: SyncPlanDetails;
+  /** Edits made outside the bot since the previous run, or `null` if none were found. */
+  drift: SyncPlanDrift | null;
+  /** Whether the changes were refused by the mass-removal limits and not written. */
+  refused: boolean;
+}
+
+export interface SyncPlanDrift {
+  added: SyncPlanTrack[];
+  removed: SyncPlanTrack[];
+  reordered: boolean;
+  action: PlaylistDrift["action"];
+}
+
+export interface SyncPlanDetails {
+  name: string | null;
+  description: string | null;
+  /** Visibility the playlist is switched to because it differs from the config. */
+  visibility: PlaylistVisibility | null;
+  /** Whether a new cover image is uploaded. */
+  cover: boolean;
+}
+
+export interface SyncPlan {
+  /** Key of the mirror target the plan applies to. */
+  target: string;
+  dryRun: boolean;
+  playlists: SyncPlanPlaylist[];
+  /** IDs of surplus part playlists that are emptied and unfollowed. */
+  retiredPlaylistIds: string[];
+  skipped: SkippedTrack[];
+  duplicates: CollapsedDuplicate[];
+}
+
+interface BuildPlaylistPlanOptions {
+  part: number;
+  period?: string | null;
+  playlist: { id: string | null; name: string | null; create: boolean };
+  diff: MirrorDiffPlan;
+  likedTracks: SavedTrackItem[];
+  mirrorItems: PlaylistItem[];
+  /** Labels for planned tracks that are no longer liked. */
+  knownTracks?: SyncPlanTrack[];
+  details?: SyncPlanDetails;
+  drift?: PlaylistDrift | null;
+  refused?: boolean;
+}
+
+/**
+ * Expands a playlist's diff into a reviewable plan, attaching track names and
+ * artists from the liked tracks (for additions and moves) and from the live
+ * playlist (for removals) so the plan can be read without looking URIs up.
+ *
+ * @param {BuildPlaylistPlanOptions} options - Diff, playlist identity, and the track metadata sources.
+ * @returns {SyncPlanPlaylist} The playlist's plan, in the same order the writes would be applied.
+ */
+export function buildPlaylistPlan(options: BuildPlaylistPlanOptions): SyncPlanPlaylist {
+  const known = new Map<string, SyncPlanTrack>();
+
+  for (const entry of options.mirrorItems) {
+    if (entry.item?.uri) {
+      known.set(entry.item.uri, {
+        uri: entry.item.uri,
+        name: entry.item.name,
+        artists: entry.item.type === "track" ? entry.item.artists.map((artist) => artist.name) : []
+      });
+    }
+  }
+
+  for (const track of options.knownTracks ?? []) {
+    known.set(track.uri, track);
+  }
+
+  for (const entry of options.likedTracks) {
+    if (entry.track?.uri) {
+      known.set(entry.track.uri, {
+        uri: entry.track.uri,
+        name: entry.track.name ?? null,
+        artists: entry.track.artists?.map((artist) => artist.name) ?? []
+      });
+    }
+  }
+
+  const describe = (uri: string): SyncPlanTrack => known.get(uri) ?? { uri, name: null, artists: [] };
+  const added: SyncPlanPlaylist["added"] = [];
+  const moved: SyncPlanPlaylist["moved"] = [];
+
+  for (const step of options.diff.steps) {
+    if (step.op === "insert") {
+      added.push(...step.uris.map((uri, offset) => ({ ...describe(uri), position: step.position + offset })));
+    } else {
+      moved.push(
+        ...step.uris.map((uri, offset) => ({
+          ...describe(uri),
+          from: step.rangeStart + offset,
+          insertBefore: step.insertBefore
+        }))
+      );
+    }
+  }
+
+  return {
+    part: options.part,
+    period: options.period ?? null,
+    ...options.playlist,
+    added,
+    removed: options.diff.removeUris.map(describe),
+    moved,
+    rewrite: options.diff.replaceUris !== null,
+    details: options.details ?? { name: null, description: null, visibility: null, cover: false },
+    drift: options.drift
+      ? {
+          added: options.drift.addedUris.map(describe),
+          removed: options.drift.removedUris.map(describe),
+          reordered: options.drift.reordered,
+          action: options.drift.action
+        }
+      : null,
+    refused: options.refused === true
+  };
+}
+
+/**
+ * Renders a track as `Name — Artist, Artist (uri)`, or just the URI when no
+ * metadata is known.
+ *
+ * @param {{ uri: string | null; name: string | null; artists?: string[] }} track - Track to label.
+ * @returns {string} Human-readable label.
+ */
+function formatTrack(track: { uri: string | null; name: string | null; artists?: string[] }): string {
+  const uri = track.uri ?? "unresolved track";
+  if (!track.name) {
+    return uri;
+  }
+
+  const artists = track.artists && track.artists.length > 0 ? ` — ${track.artists.join(", ")}` : "";
+  return `${track.name}${artists} (${uri})`;
+}
+
+/**
+ * Formats a sync plan as human-readable lines for the console.
+ *
+ * @param {SyncPlan} plan - The plan to render.
+ * @returns {string[]} One line per heading or track.
+ */
+export function formatSyncPlan(plan: SyncPlan): string[] {
+  const lines = [
+    plan.dryRun
+      ? `Sync plan for target ${plan.target} (dry run, nothing will be written):`
+      : `Sync plan for target ${plan.target}:`
+  ];
+
+  for (const playlist of plan.playlists) {
+    const part =
+      playlist.period !== null
+        ? ` (period ${playlist.period})`
+        : plan.playlists.length > 1
+          ? ` (part ${playlist.part})`
+          : "";
+    lines.push(
+      playlist.create
+        ? `  Playlist${part}: would create "${playlist.name}"`
+        : `  Playlist${part}: existing playlistId=${playlist.id}`
+    );
+
+    if (playlist.drift) {
+      const { added, removed, reordered, action } = playlist.drift;
+      lines.push(`  Edited outside the bot (${action}):${reordered ? " tracks reordered" : ""}`);
+      lines.push(...added.map((track) => `    > added ${formatTrack(track)}`));
+      lines.push(...removed.map((track) => `    < removed ${formatTrack(track)}`));
+    }
+
+    if (playlist.refused) {
+      lines.push("  Refused by the mass-removal limits; nothing is written.");
+    }
+
+    if (playlist.rewrite) {
+      lines.push("  Rewritten in full, as too many tracks are out of order.");
+    }
+
+    lines.push(`  Add ${playlist.added.length} track(s):`);
+    lines.push(...playlist.added.map((track) => `    + [${track.position}] ${formatTrack(track)}`));
+    lines.push(`  Remove ${playlist.removed.length} track(s):`);
+    lines.push(...playlist.removed.map((track) => `    - ${formatTrack(track)}`));
+    lines.push(`  Move ${playlist.moved.length} track(s):`);
+    lines.push(
+      ...playlist.moved.map(
+        (track) => `    ~ ${formatTrack(track)} from ${track.from} to before ${track.insertBefore}`
+      )
+    );
+
+    if (playlist.details.name !== null) {
+      lines.push(`  Rename to "${playlist.details.name}"`);
+    }
+
+    if (playlist.details.description !== null) {
+      lines.push(`  Set description to "${playlist.details.description}"`);
+    }
+
+    if (playlist.details.visibility !== null) {
+      lines.push(`  Make ${playlist.details.visibility}`);
+    }
+
+    if (playlist.details.cover) {
+      lines.push("  Upload cover image");
+    }
+  }
+
+  lines.push(...plan.retiredPlaylistIds.map((id) => `  Retire surplus part playlistId=${id}`));
+  lines.push(`  Skip ${plan.skipped.length} track(s):`);
+  lines.push(...plan.skipped.map((track) => `    ! ${formatTrack(track)} [${track.reason}]`));
+
+  if (plan.duplicates.length > 0) {
+    lines.push(`  Collapse ${plan.duplicates.length} duplicate(s):`);
+    lines.push(
+      ...plan.duplicates.map(
+        (duplicate) =>
+          `    = ${formatTrack({ uri: duplicate.droppedUri, name: duplicate.name })} kept as ${duplicate.keptUri} ` +
+          `[${duplicate.matchedBy}]`
+      )
+    );
+  }
+
+  return lines;
+}
@@ -1,9 +1,66 @@
+import { createHash } from "node:crypto";
+import { periodKeyOf, periodTemplateVariables } from "./archive-period";
 import type { AppConfig } from "./config";
+import {
+  fingerprintBlocker,
+  fingerprintLibrary,
+  fullSyncReason,
+  hashSyncSettings,
+  managedPlaylistIds
+} from "./library-fingerprint";
 import { logger } from "./logger";
+import type { ArchiveConfig, GraveyardConfig, LikedWindow, MirrorTargetConfig, SafetyConfig } from "./mirror-config";
+import { planMirrorDiff, SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE, type MirrorDiffPlan } from "./mirror-diff";
+import { detectDrift, keepPinnedUris, type DriftPolicy } from "./mirror-drift";
+import { decodeDescription, loadCoverImage, playlistDetailVariables } from "./playlist-details";
+import { dropsTracksOverTime, EMPTY_SELECTION_LIMIT, exceededRemovalLimit } from "./safety-guard";
 import { SpotifyClient } from "./spotify-client";
-import type { AppState, SavedTrackItem, SpotifyTrack, SyncSummary } from "./types";
+import {
+  buildPlaylistPlan,
+  type SyncPlan,
+  type SyncPlanDetails,
+  type SyncPlanPlaylist,
+  type SyncPlanTrack
+} from "./sync-plan";
+import { dedupeRecordings, type DedupeConfig } from "./track-dedupe";
+import { findExcludingRule, type FilterRule } from "./track-filter";
+import { orderAlbumSections, orderTracks } from "./track-order";
+import { createSourceReader, describeSource, readSource, sourceUses, type SourceType } from "./track-source";
+import { substituteUnplayableTracks, type SubstitutionCache } from "./track-substitution";
+import { recordLikedTracks, updateGraveyard } from "./unliked-graveyard";
+import type {
+  AppState,
+  CollapsedDuplicate,
+  GraveyardState,
+  GraveyardSyncSummary,
+  LikedTrackState,
+  PlaylistDrift,
+  PlaylistItem,
+  PlaylistSnapshot,
+  PlaylistSummary,
+  PlaylistVisibility,
+  RuleExclusion,
+  SafetyViolation,
+  SavedTrackItem,
+  SkippedTrack,
+  SkipReason,
+  SpotifyTrack,
+  SpotifyUser,
+  SyncSummary,
+  TargetState,
+  TargetSyncSummary
+} from "./types";
 
-const SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE = 100;
+export interface SyncOptions {
+  /** Perform every read and compute the plan, but skip all playlist writes and creation. */
+  dryRun?: boolean;
+  /** Cached substitute lookups, used when `config.substituteUnplayable` is enabled. */
+  substitutionCache?: SubstitutionCache;
+  /** Apply removals even when they exceed `config.safety`'s limits. */
+  force?: boolean;
+  /** Sync everything even when Liked Songs and the playlists match the last full sync's fingerprint. */
+  fullSync?: boolean;
+}
 
 /**
  * Derives the mirror playlist name from the user's display name, falling back
@@ -23,36 +80,153 @@ export function buildInitialPlaylistName(displayName: string | null, fallbackNam
 }
 
 /**
- * Determines whether a saved track should be excluded from the mirror, i.e.
- * when it is missing, lacks a URI, is a local file, or is not playable.
+ * Renders the name (or description) for a target's newly created playlist
+ * from its template, substituting `{displayName}` (or the user ID when no
+ * display name is set), `{userId}`, and any extra variables such as an
+ * archive's `{period}`. Targets without a template use `buildInitialPlaylistName`.
+ *
+ * @param {string | null} template - The target's name template, or null for the default name.
+ * @param {SpotifyUser} user - The current Spotify user.
+ * @param {string} fallbackName - The default name used when no template and no display name exist.
+ * @param {Record<string, string>} [variables] - Extra variable values by name (without braces).
+ * @returns {string} The playlist name.
+ */
+export function renderPlaylistName(
+  template: string | null,
+  user: SpotifyUser,
+  fallbackName: string,
+  variables: Record<string, string> = {}
+): string {
+  if (!template) {
+    return buildInitialPlaylistName(user.display_name, fallbackName);
+  }
+
+  let rendered = template
+    .replaceAll("{displayName}", user.display_name?.trim() || user.id)
+    .replaceAll("{userId}", user.id);
+  for (const [name, value] of Object.entries(variables)) {
+    rendered = rendered.replaceAll(`{${name}}`, value);
+  }
+
+  return rendered;
+}
+
+/**
+ * Determines why a saved track should be excluded from the mirror, i.e. when
+ * it is missing, lacks a URI, is a local file, or is not playable.
  *
  * @param {SpotifyTrack | null} track - The track to evaluate, or null.
- * @returns {boolean} True if the track should be skipped, false otherwise.
+ * @returns {SkipReason | null} The reason to skip the track, or null if it can be mirrored.
+ */
+function getSkipReason(track: SpotifyTrack | null): SkipReason | null {
+  if (!track || !track.uri) {
+    return "unavailable";
+  }
+
+  if (track.is_local === true) {
+    return "local";
+  }
+
+  return track.is_playable === false ? "unplayable" : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Narrows the liked tracks (newest first) to a target's rolling window. As
+ * the window moves, older likes fall out of the selection and the incremental
+ * diff removes them from the mirror.
+ *
+ * @param {SavedTrackItem[]} likedTracks - Liked tracks, newest first.
+ * @param {LikedWindow | null} window - The target's window, or null for no window.
+ * @param {Date} now - Reference time for the `days` bound.
+ * @returns {SavedTrackItem[]} The liked tracks inside the window, newest first.
+ */
+export function selectLikedWindow(
+  likedTracks: SavedTrackItem[],
+  window: LikedWindow | null,
+  now: Date
+): SavedTrackItem[] {
+  if (!window) {
+    return likedTracks;
+  }
+
+  let selected = window.count === null ? likedTracks : likedTracks.slice(0, window.count);
+  if (window.days !== null) {
+    const cutoff = now.getTime() - window.days * DAY_MS;
+    selected = selected.filter((item) => Date.parse(item.added_at) >= cutoff);
+  }
+
+  return selected;
+}
+
+/**
+ * Checks whether the liked tracks fetched so far (newest first) already hold
+ * everything a window can select, i.e. later pages can only fall outside it.
+ *
+ * @param {SavedTrackItem[]} collected - Liked tracks fetched so far, newest first.
+ * @param {LikedWindow} window - The window to check.
+ * @param {Date} now - Reference time for the `days` bound.
+ * @returns {boolean} True if fetching further pages cannot change the window's selection.
  */
-function isSkippableTrack(track: SpotifyTrack | null): boolean {
-  return !track || !track.uri || track.is_local === true || track.is_playable === false;
+function coversLikedWindow(collected: SavedTrackItem[], window: LikedWindow, now: Date): boolean {
+  if (window.count !== null && collected.length >= window.count) {
+    return true;
+  }
+
+  const oldest = collected[collected.length - 1];
+  return (
+    window.days !== null && oldest !== undefined && Date.parse(oldest.added_at) < now.getTime() - window.days * DAY_MS
+  );
 }
 
 /**
  * Selects the deduplicated, ordered list of track URIs to mirror from the
- * user's liked tracks, skipping unplayable/local/missing tracks.
+ * user's liked tracks, skipping unplayable/local/missing tracks and any that
+ * the target's filter rules exclude. Each filtered track is attributed to the
+ * first rule that dropped it. With dedupe settings, likes of the same
+ * recording under different URIs are then collapsed to one.
  *
  * @param {SavedTrackItem[]} likedTracks - The user's saved track items.
- * @returns {{ uris: string[]; likedCount: number; skippedCount: number }}
- *   The selected URIs, the total number of liked tracks, and the count of skipped tracks.
+ * @param {FilterRule[]} [rules] - The target's filter rules; empty keeps every playable track.
+ * @param {Date} [now] - Reference time for liked-date windows.
+ * @param {DedupeConfig | null} [dedupe] - The target's recording dedupe settings, or null to only drop repeated URIs.
+ * @returns {{ uris: string[]; likedCount: number; skippedCount: number; skipped: SkippedTrack[];
+ *   filteredCount: number; ruleExclusions: RuleExclusion[]; duplicates: CollapsedDuplicate[] }}
+ *   The selected URIs, the total number of liked tracks, the skipped tracks with their count,
+ *   the number of playable tracks the rules excluded, overall and per rule, and the collapsed duplicates.
  */
-export function selectCandidateUris(likedTracks: SavedTrackItem[]): {
+export function selectCandidateUris(
+  likedTracks: SavedTrackItem[],
+  rules: FilterRule[] = [],
+  now: Date = new Date(),
+  dedupe: DedupeConfig | null = null
+): {
   uris: string[];
   likedCount: number;
   skippedCount: number;
+  skipped: SkippedTrack[];
+  filteredCount: number;
+  ruleExclusions: RuleExclusion[];
+  duplicates: CollapsedDuplicate[];
 } {
   const seenUris = new Set<string>();
-  const uris: string[] = [];
-  let skippedCount = 0;
+  let selected: SavedTrackItem[] = [];
+  const skipped: SkippedTrack[] = [];
+  const ruleExclusions: RuleExclusion[] = rules.map((rule) => ({ rule: rule.name, excludedCount: 0 }));
+  let filteredCount = 0;
 
   for (const item of likedTracks) {
-    if (isSkippableTrack(item.track)) {
-      skippedCount += 1;
+    const skipReason = getSkipReason(item.track);
+    if (skipReason) {
+      skipped.push({ uri: item.track?.uri || null, name: item.track?.name ?? null, reason: skipReason });
+      continue;
+    }
+
+    const excludingRule = findExcludingRule(rules, item, now);
+    if (excludingRule) {
+      ruleExclusions[rules.indexOf(excludingRule)].excludedCount += 1;
+      filteredCount += 1;
       continue;
     }
 
@@ -63,16 +237,66 @@ export function selectCandidateUris(likedTracks: SavedTrackItem[]): {
     }
 
     seenUris.add(uri);
-    uris.push(uri);
+    selected.push(item);
+  }
+
+  let duplicates: CollapsedDuplicate[] = [];
+  if (dedupe) {
+    ({ items: selected, duplicates } = dedupeRecordings(selected, dedupe));
   }
 
   return {
-    uris,
+    uris: selected.map((item) => item.track!.uri),
     likedCount: likedTracks.length,
-    skippedCount
+    skippedCount: skipped.length,
+    skipped,
+    filteredCount,
+    ruleExclusions,
+    duplicates
   };
 }
 
+/**
+ * Indexes liked tracks by URI, keeping the first (most recent) like of each
+ * track, which is the one `selectCandidateUris` keeps.
+ *
+ * @param {SavedTrackItem[]} likedTracks - Liked tracks, newest first.
+ * @returns {Map<string, SavedTrackItem>} The liked entry for each track URI.
+ */
+function indexLikedTracks(likedTracks: SavedTrackItem[]): Map<string, SavedTrackItem> {
+  const likedByUri = new Map<string, SavedTrackItem>();
+  for (const item of likedTracks) {
+    if (item.track && !likedByUri.has(item.track.uri)) {
+      likedByUri.set(item.track.uri, item);
+    }
+  }
+
+  return likedByUri;
+}
+
+/**
+ * Arranges selected URIs (which arrive newest-liked first) in a target's
+ * order, looking up the metadata the ordering needs in the liked tracks. A
+ * saved-albums target with the `albums` layout keeps each album together.
+ *
+ * @param {string[]} uris - Candidate URIs in liked order, newest first.
+ * @param {Map<string, SavedTrackItem>} likedByUri - The liked entry for each candidate URI.
+ * @param {MirrorTargetConfig} target - The target whose order and shuffle seed apply.
+ * @returns {string[]} The URIs in the order the mirror should list them.
+ */
+function orderCandidateUris(
+  uris: string[],
+  likedByUri: Map<string, SavedTrackItem>,
+  target: MirrorTargetConfig
+): string[] {
+  const tracks = uris.map((uri) => likedByUri.get(uri)!.track!);
+  const ordered =
+    target.source.type === "saved-albums" && target.source.layout === "albums"
+      ? orderAlbumSections(tracks, target.order, target.shuffleSeed)
+      : orderTracks(tracks, target.order, target.shuffleSeed);
+  return ordered.map((track) => track.uri);
+}
+
 /**
  * Splits an array into consecutive sub-arrays of at most the given size.
  *
@@ -92,99 +316,1338 @@ function chunk<T>(items: T[], size: number): T[][] {
 }
 
 /**
- * Runs the full mirror sync: refreshes the access token, resolves (or creates)
- * the mirror playlist, fetches the user's liked tracks, selects the tracks to
- * mirror, then clears and repopulates the playlist in batches.
+ * Applies a planned diff to the mirror playlist: removals in batches first,
+ * then each insert and move in plan order, threading the snapshot ID returned
+ * by every write into the next so positional edits apply to the expected state.
+ * A rewrite plan replaces the contents with the first batch and appends the
+ * rest instead.
  *
  * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
- * @param {AppConfig} config - The application configuration.
- * @param {AppState} state - The persisted state, including any known playlist ID.
- * @returns {Promise<{ summary: SyncSummary; nextState: AppState }>}
- *   A summary of the sync and the next state to persist.
- * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ * @param {string} playlistId - The mirror playlist ID.
+ * @param {MirrorDiffPlan} plan - The planned removals and positional steps.
+ * @param {string | null} snapshotId - Snapshot ID of the playlist the plan was computed from.
+ * @returns {Promise<string | null>} The playlist's snapshot ID after the last write (the given one if none was made).
+ * @throws {SpotifyApiError} If any write fails.
  */
-export async function syncLikedSongsMirror(
+async function applyMirrorDiff(
   spotifyClient: SpotifyClient,
-  config: AppConfig,
-  state: AppState
-): Promise<{ summary: SyncSummary; nextState: AppState }> {
-  logger.info("Stage: refreshing access token.");
-  const accessToken = await spotifyClient.refreshAccessToken();
-  logger.info("Stage: access token acquired.");
+  playlistId: string,
+  plan: MirrorDiffPlan,
+  snapshotId: string | null
+): Promise<string | null> {
+  if (plan.replaceUris) {
+    const [firstChunk, ...restChunks] = chunk(plan.replaceUris, SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE);
+    logger.info(
+      `Stage: rewriting mirror with ${plan.replaceUris.length} track(s) in ${restChunks.length + 1} call(s).`
+    );
+    let currentSnapshotId = (await spotifyClient.replacePlaylistItems(playlistId, firstChunk ?? [])) ?? snapshotId;
+    for (const uriChunk of restChunks) {
+      currentSnapshotId = (await spotifyClient.addPlaylistItems(playlistId, uriChunk)) ?? currentSnapshotId;
+    }
 
-  logger.info("Stage: fetching current user.");
-  const currentUser = await spotifyClient.getCurrentUser(accessToken);
-  logger.info(`Stage: current user fetched (userId=${currentUser.id}).`);
+    return currentSnapshotId;
+  }
+
+  let currentSnapshotId = snapshotId;
 
-  logger.info("Stage: resolving mirror playlist.");
-  let playlistId = state.playlistId;
+  for (const uriChunk of chunk(plan.removeUris, SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE)) {
+    logger.info(`Stage: removing ${uriChunk.length} track URI(s) from mirror.`);
+    currentSnapshotId =
+      (await spotifyClient.removePlaylistItems(playlistId, uriChunk, currentSnapshotId)) ?? currentSnapshotId;
+  }
+
+  for (const step of plan.steps) {
+    if (step.op === "insert") {
+      logger.info(`Stage: inserting ${step.uris.length} track(s) at position ${step.position}.`);
+      currentSnapshotId =
+        (await spotifyClient.addPlaylistItems(playlistId, step.uris, step.position)) ?? currentSnapshotId;
+      continue;
+    }
+
+    currentSnapshotId =
+      (await spotifyClient.reorderPlaylistItems(playlistId, {
+        rangeStart: step.rangeStart,
+        insertBefore: step.insertBefore,
+        rangeLength: step.uris.length,
+        snapshotId: currentSnapshotId
+      })) ?? currentSnapshotId;
+  }
+
+  return currentSnapshotId;
+}
+
+interface TargetSyncContext {
+  currentUser: SpotifyUser;
+  /** Entries of every source fetched in the run, used to label plan tracks. */
+  sourceTracks: SavedTrackItem[];
+  fallbackPlaylistName: string;
+  dryRun: boolean;
+  now: Date;
+  /** Mass-removal limits for target playlists, or `null` when the run is forced. */
+  safety: SafetyConfig | null;
+  /** Keep each target's selection size for the next run's safety check (whenever a limit is set). */
+  recordCandidateCounts: boolean;
+}
+
+/**
+ * One playlist of a target: a mirror part or an archive period.
+ */
+interface PlaylistSpec {
+  /** One-based part number (always 1 for archive playlists). */
+  part: number;
+  /** Archive period the playlist covers, or `null` for a mirror part. */
+  period: string | null;
+  /** Stored playlist ID, or `null` if the playlist has not been created yet. */
+  playlistId: string | null;
+  /** Name and description used if the playlist must be created; a `null` description uses the default. */
+  name: string;
+  description: string | null;
+  visibility: PlaylistVisibility;
+  /** Only remove tracks that are no longer wanted, leaving the rest of an existing playlist as it is. */
+  removeOnly: boolean;
+  /** Plan labels for tracks that are not among the liked tracks. */
+  knownTracks?: SyncPlanTrack[];
+  /** Details kept current on an existing playlist; absent to leave them as created. */
+  managed?: ManagedDetails;
+  /** How to check the playlist for edits made outside the bot; absent to not check. */
+  drift?: DriftCheck;
+  /** Mass-removal limits to hold the playlist's writes to, and the target reported when they are exceeded. */
+  guard?: { target: string; safety: SafetyConfig };
+}
+
+/**
+ * A playlist's drift policy and what the previous run left in it.
+ */
+interface DriftCheck {
+  policy: DriftPolicy;
+  /** The previous run's snapshot, or `null` if there is nothing to compare against yet. */
+  expected: PlaylistSnapshot | null;
+}
+
+/**
+ * Outcome of syncing one playlist.
+ */
+interface PlaylistSyncResult {
+  /** The playlist ID, or `null` only when a dry run would create the playlist. */
+  playlistId: string | null;
+  diff: MirrorDiffPlan;
+  plan: SyncPlanPlaylist;
+  /** Hash of the managed cover now on the playlist, or `null` when the cover is not managed. */
+  coverHash: string | null;
+  /** What the playlist now holds, for the next run's drift check; `null` when drift is not checked. */
+  snapshot: PlaylistSnapshot | null;
+  /** Edits found since the previous run, or `null` if there were none. */
+  drift: PlaylistDrift | null;
+  /** The removal refused by the mass-removal limits, or `null` if the changes were within them. */
+  violation: SafetyViolation | null;
+}
+
+/**
+ * What a target's playlists leave for the next run and the summary.
+ */
+interface CollectedPlaylistState {
+  coverHashes: Record<string, string>;
+  snapshots: Record<string, PlaylistSnapshot>;
+  drift: PlaylistDrift[];
+  violations: SafetyViolation[];
+}
+
+/**
+ * Which of a playlist's details are kept in line with the spec on every run.
+ */
+interface ManagedDetails {
+  /** Reset the playlist's name to the spec's name when it differs. */
+  name: boolean;
+  /** Reset the playlist's description to the spec's description when it differs. */
+  description: boolean;
+  /** The cover image (JPEG), or `null` to leave the cover alone. */
+  cover: Buffer | null;
+  /** SHA-256 of the cover last uploaded to the playlist, from state. */
+  coverHash: string | null;
+}
+
+/**
+ * Per-kind write counts summed over a target's playlists.
+ */
+interface WriteTotals {
+  addedCount: number;
+  removedCount: number;
+  movedCount: number;
+}
+
+/** Description of a newly created mirror playlist of a library source; other sources name themselves. */
+const SOURCE_DESCRIPTIONS: Partial<Record<SourceType, string>> = {
+  "saved-albums": "Mirror of saved albums (auto-synced)",
+  "saved-episodes": "Mirror of saved episodes (auto-synced)"
+};
+
+const DRIFT_ACTIONS: Record<DriftPolicy, PlaylistDrift["action"]> = {
+  overwrite: "overwritten",
+  "keep-additions": "kept-additions",
+  stop: "stopped"
+};
+
+/**
+ * Syncs one playlist of a target: resolves (or creates) it, checks it for
+ * edits made outside the bot when a drift policy is set, diffs it against the
+ * URIs it should hold and applies the changes, then brings any managed
+ * details that differ up to date (or, in a dry run, only plans all of it).
+ * Under the `stop` policy, a playlist found edited is left untouched, as is
+ * one the diff would remove more tracks from than the guard's limits allow.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {TargetSyncContext} context - Data shared by every target in the run.
+ * @param {PlaylistSpec} spec - The playlist's identity and creation settings.
+ * @param {string[]} desiredUris - URIs the playlist should contain, in order.
+ * @returns {Promise<PlaylistSyncResult>} The playlist ID, the applied diff and its plan, and what the
+ *   next run needs to know about the playlist.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function syncPlaylist(
+  spotifyClient: SpotifyClient,
+  context: TargetSyncContext,
+  spec: PlaylistSpec,
+  desiredUris: string[]
+): Promise<PlaylistSyncResult> {
+  const { dryRun } = context;
+  let playlistId = spec.playlistId;
+  let existing: PlaylistSummary | null = null;
+  let snapshotId: string | null = null;
   let createdPlaylist = false;
 
   if (playlistId) {
     logger.info(`Stage: checking existing playlist (playlistId=${playlistId}).`);
-    const existing = await spotifyClient.getPlaylist(playlistId, accessToken);
+    existing = await spotifyClient.getPlaylist(playlistId);
     if (!existing) {
       logger.warn(`Stored playlist ID ${playlistId} was not found or inaccessible. Creating a new mirror playlist.`);
       playlistId = null;
     } else {
+      snapshotId = existing.snapshot_id;
       logger.info(`Stage: existing playlist confirmed (playlistId=${playlistId}).`);
     }
   }
 
   if (!playlistId) {
-    const playlistName = buildInitialPlaylistName(currentUser.display_name, config.fallbackPlaylistName);
-    logger.info(`Stage: creating mirror playlist (${playlistName}).`);
-    const created = await spotifyClient.createPublicPlaylist(playlistName, accessToken);
-    playlistId = created.id;
     createdPlaylist = true;
 
-    logger.info(`Created mirror playlist: ${playlistName} (${playlistId})`);
-    if (created.externalUrl) {
-      logger.info(`Playlist URL: ${created.externalUrl}`);
+    if (dryRun) {
+      logger.info(`Stage: dry run, skipping creation of mirror playlist (${spec.name}).`);
+    } else {
+      logger.info(`Stage: creating ${spec.visibility} mirror playlist (${spec.name}).`);
+      const created = await spotifyClient.createPlaylist(
+        spec.name,
+        spec.visibility,
+        spec.description ?? undefined
+      );
+      playlistId = created.id;
+
+      logger.info(`Created mirror playlist: ${spec.name} (${playlistId})`);
+      if (created.externalUrl) {
+        logger.info(`Playlist URL: ${created.externalUrl}`);
+      }
+    }
+  }
+
+  // A freshly created (or, in a dry run, not yet created) playlist is known
+  // to be empty, so only an existing mirror needs to be read back before diffing.
+  let mirrorItems: PlaylistItem[] = [];
+  if (playlistId && !createdPlaylist) {
+    logger.info("Stage: fetching current mirror contents.");
+    mirrorItems = await spotifyClient.fetchAllPlaylistItems(playlistId);
+  }
+
+  const currentUris = mirrorItems.map((entry) => entry.item?.uri ?? null);
+  let targetUris = desiredUris;
+  if (spec.removeOnly && !createdPlaylist) {
+    // Keep the surviving entries exactly where they are; a recreated
+    // playlist is filled normally instead.
+    const wanted = new Set(desiredUris);
+    targetUris = [...new Set(currentUris.filter((uri): uri is string => uri !== null && wanted.has(uri)))];
+  }
+
+  const check = existing ? spec.drift : undefined;
+  const detected =
+    check?.expected && check.expected.snapshotId !== existing!.snapshot_id
+      ? detectDrift(check.expected.uris, currentUris)
+      : null;
+  const drift: PlaylistDrift | null = detected
+    ? {
+        playlistId: playlistId!,
+        ...detected,
+        action: DRIFT_ACTIONS[check!.policy]
+      }
+    : null;
+  if (drift) {
+    logger.warn(
+      `Playlist ${playlistId} was edited outside the bot: added=${drift.addedUris.length} ` +
+        `removed=${drift.removedUris.length} reordered=${drift.reordered} action=${drift.action}`
+    );
+  }
+
+  let pinnedUris: string[] = [];
+  if (check?.policy === "keep-additions") {
+    // Additions pinned on earlier runs stay pinned until they are removed by hand.
+    const present = new Set(currentUris);
+    pinnedUris = [
+      ...new Set([...(check.expected?.pinnedUris ?? []).filter((uri) => present.has(uri)), ...(drift?.addedUris ?? [])])
+    ];
+    targetUris = keepPinnedUris(targetUris, currentUris, new Set(pinnedUris));
+  }
+
+  const stopped = drift?.action === "stopped";
+  const planned = stopped ? planMirrorDiff([], []) : planMirrorDiff(currentUris, targetUris);
+  logger.info(
+    `Stage: planned mirror diff ${spec.period === null ? `part=${spec.part}` : `period=${spec.period}`} ` +
+      `added=${planned.addedCount} removed=${planned.removedCount} moved=${planned.movedCount}`
+  );
+
+  const limit =
+    spec.guard && !createdPlaylist
+      ? exceededRemovalLimit(currentUris.length, planned.removedCount, spec.guard.safety)
+      : null;
+  const violation: SafetyViolation | null = limit
+    ? {
+        target: spec.guard!.target,
+        playlistId: playlistId!,
+        previousCount: currentUris.length,
+        removedCount: planned.removedCount,
+        limit
+      }
+    : null;
+  if (violation) {
+    logger.warn(
+      `Refusing to remove ${violation.removedCount} of ${violation.previousCount} track(s) from playlist ` +
+        `${playlistId} (exceeds ${limit}).`
+    );
+  }
+
+  // A held playlist is planned as usual, so the rejected changes can be
+  // reviewed, but nothing is written to it.
+  const held = stopped || violation !== null;
+  const diff = held ? planMirrorDiff([], []) : planned;
+  const coverHash = spec.managed?.cover ? createHash("sha256").update(spec.managed.cover).digest("hex") : null;
+  const details = held
+    ? { name: null, description: null, visibility: null, cover: false }
+    : planManagedDetails(spec, existing, coverHash);
+  const plan = buildPlaylistPlan({
+    part: spec.part,
+    period: spec.period,
+    playlist: { id: playlistId, name: createdPlaylist ? spec.name : null, create: createdPlaylist },
+    diff: planned,
+    likedTracks: context.sourceTracks,
+    mirrorItems,
+    knownTracks: spec.knownTracks,
+    details,
+    drift,
+    refused: violation !== null
+  });
+
+  if (dryRun) {
+    logger.info("Stage: dry run, skipping mirror playlist writes.");
+    return { playlistId, diff, plan, coverHash, snapshot: null, drift, violation };
+  }
+
+  if (held) {
+    // A held playlist keeps the snapshot the bot last left, so drift is
+    // reported again until it is undone or the policy changes.
+    logger.info(`Stage: skipping writes to held playlist (playlistId=${playlistId}).`);
+    return {
+      playlistId,
+      diff,
+      plan,
+      coverHash: spec.managed?.coverHash ?? null,
+      snapshot: spec.drift?.expected ?? null,
+      drift,
+      violation
+    };
+  }
+
+  const finalSnapshotId = await applyMirrorDiff(spotifyClient, playlistId!, diff, snapshotId);
+
+  if (details.name !== null || details.description !== null || details.visibility !== null) {
+    logger.info(`Stage: updating playlist details (playlistId=${playlistId}).`);
+    await spotifyClient.updatePlaylistDetails(
+      playlistId!,
+      {
+        ...(details.name !== null ? { name: details.name } : {}),
+        ...(details.description !== null ? { description: details.description } : {}),
+        ...(details.visibility !== null
+          ? { public: details.visibility === "public", collaborative: details.visibility === "collaborative" }
+          : {})
+      }
+    );
+  }
+
+  if (details.cover) {
+    logger.info(`Stage: uploading playlist cover image (playlistId=${playlistId}).`);
+    await spotifyClient.uploadPlaylistCover(playlistId!, spec.managed!.cover!);
+  }
+
+  const snapshot: PlaylistSnapshot | null = spec.drift
+    ? { snapshotId: finalSnapshotId, uris: targetUris, ...(pinnedUris.length > 0 ? { pinnedUris } : {}) }
+    : null;
+  return { playlistId, diff, plan, coverHash, snapshot, drift, violation };
+}
+
+/**
+ * Works out which managed details of a playlist differ from the spec. A
+ * newly created playlist already has the spec's name, description and
+ * visibility, but still needs its cover; an existing playlist's cover is
+ * replaced when it differs from the one last uploaded. Visibility is always
+ * enforced, with a warning, when Spotify reports a different one.
+ *
+ * @param {PlaylistSpec} spec - The playlist's spec, including its managed details.
+ * @param {PlaylistSummary | null} existing - The playlist as it stands, or null if it is (or would be) created.
+ * @param {string | null} coverHash - SHA-256 of the spec's cover, or null when the cover is not managed.
+ * @returns {SyncPlanDetails} The details to send.
+ */
+function planManagedDetails(
+  spec: PlaylistSpec,
+  existing: PlaylistSummary | null,
+  coverHash: string | null
+): SyncPlanDetails {
+  const managed = spec.managed;
+  const currentDescription = existing?.description ? decodeDescription(existing.description) : "";
+  const currentVisibility = existing ? liveVisibility(existing) : null;
+  if (currentVisibility !== null && currentVisibility !== spec.visibility) {
+    logger.warn(
+      `Playlist ${existing!.id} is ${currentVisibility} but configured as ${spec.visibility}; ` +
+        `making it ${spec.visibility}.`
+    );
+  }
+
+  return {
+    name: existing && managed?.name && existing.name !== spec.name ? spec.name : null,
+    description:
+      existing && managed?.description && spec.description !== null && currentDescription !== spec.description
+        ? spec.description
+        : null,
+    visibility: currentVisibility !== null && currentVisibility !== spec.visibility ? spec.visibility : null,
+    cover: coverHash !== null && (existing === null || coverHash !== managed!.coverHash)
+  };
+}
+
+/**
+ * Reads a playlist's visibility from its details.
+ *
+ * @param {PlaylistSummary} playlist - The playlist as it stands.
+ * @returns {PlaylistVisibility | null} Its visibility, or `null` if Spotify did not report it.
+ */
+function liveVisibility(playlist: PlaylistSummary): PlaylistVisibility | null {
+  if (playlist.collaborative) {
+    return "collaborative";
+  }
+
+  return typeof playlist.public === "boolean" ? (playlist.public ? "public" : "private") : null;
+}
+
+/**
+ * Renders a playlist's name and description from a target's templates, with
+ * the detail variables (`{trackCount}` and so on) of the tracks it will hold,
+ * and resolves which details are managed.
+ *
+ * @param {TargetSyncContext} context - Data shared by every target in the run.
+ * @param {MirrorTargetConfig} target - The target the playlist belongs to.
+ * @param {SavedTrackItem[]} likedTracks - Liked entries of the tracks the playlist will hold.
+ * @param {{ variables?: Record<string, string>; nameSuffix?: string; description: string | null; coverHash: string | null }} options
+ *   Extra template variables, a suffix for the name (e.g. " (Part 2)"), the description template used when the
+ *   target does not manage one, and the hash of the cover last uploaded.
+ * @returns {Promise<Pick<PlaylistSpec, "name" | "description" | "managed">>} The rendered details.
+ * @throws {Error} If the cover image file cannot be read.
+ */
+async function renderPlaylistDetails(
+  context: TargetSyncContext,
+  target: MirrorTargetConfig,
+  likedTracks: SavedTrackItem[],
+  options: {
+    variables?: Record<string, string>;
+    nameSuffix?: string;
+    description: string | null;
+    coverHash: string | null;
+  }
+): Promise<Pick<PlaylistSpec, "name" | "description" | "managed">> {
+  const { currentUser, fallbackPlaylistName } = context;
+  const variables = { ...options.variables, ...playlistDetailVariables(likedTracks, context.now) };
+  const details = target.details;
+  const description = details?.description ?? options.description;
+
+  return {
+    name: `${renderPlaylistName(target.name, currentUser, fallbackPlaylistName, variables)}${options.nameSuffix ?? ""}`,
+    description: description === null ? null : renderPlaylistName(description, currentUser, "", variables),
+    managed: details
+      ? {
+          name: details.enforceName,
+          description: details.description !== null,
+          cover: details.cover ? await loadCoverImage(details.cover, likedTracks.length) : null,
+          coverHash: options.coverHash
+        }
+      : undefined
+  };
+}
+
+/**
+ * Adds one playlist's diff counts to a target's running totals.
+ *
+ * @param {WriteTotals} totals - The running totals, updated in place.
+ * @param {MirrorDiffPlan} diff - The playlist's diff.
+ * @returns {void}
+ */
+function addDiffCounts(totals: WriteTotals, diff: MirrorDiffPlan): void {
+  totals.addedCount += diff.addedCount;
+  totals.removedCount += diff.removedCount;
+  totals.movedCount += diff.movedCount;
+}
+
+/**
+ * Works out the mass-removal limits a target's playlists are held to: none
+ * when the run is forced or the target drops tracks as time passes.
+ *
+ * @param {TargetSyncContext} context - Data shared by every target in the run.
+ * @param {MirrorTargetConfig} target - The target the playlists belong to.
+ * @returns {PlaylistSpec["guard"]} The guard, or undefined when removals are not limited.
+ */
+function removalGuard(context: TargetSyncContext, target: MirrorTargetConfig): PlaylistSpec["guard"] {
+  return context.safety && !dropsTracksOverTime(target) ? { target: target.key, safety: context.safety } : undefined;
+}
+
+/**
+ * Builds a playlist's drift check from its target's policy and the snapshot
+ * the previous run stored for it.
+ *
+ * @param {MirrorTargetConfig} target - The target the playlist belongs to.
+ * @param {TargetState | undefined} targetState - The target's persisted state, if any.
+ * @param {string | null} playlistId - The playlist's stored ID, or null if it has not been created yet.
+ * @returns {DriftCheck | undefined} The drift check, or undefined when the target has no drift policy.
+ */
+function driftCheck(
+  target: MirrorTargetConfig,
+  targetState: TargetState | undefined,
+  playlistId: string | null
+): DriftCheck | undefined {
+  if (!target.drift) {
+    return undefined;
+  }
+
+  return { policy: target.drift, expected: playlistId ? (targetState?.snapshots?.[playlistId] ?? null) : null };
+}
+
+/**
+ * Records what the next run and the summary need to know about a synced
+ * playlist: its cover hash, its snapshot, any drift found in it, and any
+ * removal refused by the mass-removal limits.
+ *
+ * @param {PlaylistSyncResult} result - The playlist's sync result.
+ * @param {CollectedPlaylistState} collected - The target's collected state, updated in place.
+ * @returns {void}
+ */
+function collectPlaylistState(result: PlaylistSyncResult, collected: CollectedPlaylistState): void {
+  if (result.playlistId && result.coverHash) {
+    collected.coverHashes[result.playlistId] = result.coverHash;
+  }
+
+  if (result.playlistId && result.snapshot) {
+    collected.snapshots[result.playlistId] = result.snapshot;
+  }
+
+  if (result.drift) {
+    collected.drift.push(result.drift);
+  }
+
+  if (result.violation) {
+    collected.violations.push(result.violation);
+  }
+}
+
+/**
+ * Stores a target's collected cover hashes and snapshots in its next state,
+ * leaving out whichever are empty.
+ *
+ * @param {TargetState} targetState - The target's next state, updated in place.
+ * @param {CollectedPlaylistState} collected - The target's collected state.
+ * @returns {void}
+ */
+function storeCollectedState(targetState: TargetState, collected: CollectedPlaylistState): void {
+  if (Object.keys(collected.coverHashes).length > 0) {
+    targetState.coverHashes = collected.coverHashes;
+  }
+
+  if (Object.keys(collected.snapshots).length > 0) {
+    targetState.snapshots = collected.snapshots;
+  }
+}
+
+/**
+ * Spreads a regular mirror target over as many part playlists as the
+ * per-playlist limit requires (keeping the global order across parts, with
+ * part 2 onward named "<name> (Part N)"), syncs each part, and retires parts
+ * that are no longer needed by emptying and unfollowing them.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {TargetSyncContext} context - Data shared by every target in the run.
+ * @param {MirrorTargetConfig} target - The target to sync.
+ * @param {TargetState | undefined} targetState - The target's persisted state, if any.
+ * @param {string[]} desiredUris - The target's tracks, in mirror order.
+ * @param {Map<string, SavedTrackItem>} likedByUri - The liked entry for each track URI.
+ * @returns {Promise<{ targetState: TargetState; playlists: SyncPlanPlaylist[]; retiredPlaylistIds: string[];
+ *   totals: WriteTotals; collected: CollectedPlaylistState }>} The next state, each part's plan, the retired
+ *   part IDs, the summed write counts, and what the parts left for the summary.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function syncMirrorParts(
+  spotifyClient: SpotifyClient,
+  context: TargetSyncContext,
+  target: MirrorTargetConfig,
+  targetState: TargetState | undefined,
+  desiredUris: string[],
+  likedByUri: Map<string, SavedTrackItem>
+): Promise<{
+  targetState: TargetState;
+  playlists: SyncPlanPlaylist[];
+  retiredPlaylistIds: string[];
+  totals: WriteTotals;
+  collected: CollectedPlaylistState;
+}> {
+  const { dryRun } = context;
+  const partUris = chunk(desiredUris, target.maxTracksPerPlaylist);
+  if (partUris.length === 0) {
+    partUris.push([]);
+  }
+
+  const storedIds = [targetState?.playlistId ?? null, ...(targetState?.partPlaylistIds ?? [])];
+  const playlistIds: Array<string | null> = [];
+  const collected: CollectedPlaylistState = { coverHashes: {}, snapshots: {}, drift: [], violations: [] };
+  const playlists: SyncPlanPlaylist[] = [];
+  const totals: WriteTotals = { addedCount: 0, removedCount: 0, movedCount: 0 };
+
+  logger.info(`Stage: resolving mirror playlists (target=${target.key} parts=${partUris.length}).`);
+  for (const [index, uris] of partUris.entries()) {
+    const playlistId = storedIds[index] ?? null;
+    const details = await renderPlaylistDetails(
+      context,
+      target,
+      uris.map((uri) => likedByUri.get(uri)!),
+      {
+        nameSuffix: index === 0 ? "" : ` (Part ${index + 1})`,
+        description:
+          target.source.type === "liked-songs"
+            ? null
+            : (SOURCE_DESCRIPTIONS[target.source.type] ?? `Mirror of ${describeSource(target.source)} (auto-synced)`),
+        coverHash: playlistId ? (targetState?.coverHashes?.[playlistId] ?? null) : null
+      }
+    );
+    const result = await syncPlaylist(
+      spotifyClient,
+      context,
+      {
+        part: index + 1,
+        period: null,
+        playlistId,
+        ...details,
+        visibility: target.visibility,
+        removeOnly: false,
+        drift: driftCheck(target, targetState, playlistId),
+        guard: removalGuard(context, target)
+      },
+      uris
+    );
+
+    playlistIds.push(result.playlistId);
+    collectPlaylistState(result, collected);
+    playlists.push(result.plan);
+    addDiffCounts(totals, result.diff);
+  }
+
+  const retiredPlaylistIds = storedIds.slice(partUris.length).filter((id): id is string => id !== null);
+  for (const retiredId of retiredPlaylistIds) {
+    if (dryRun) {
+      logger.info(`Stage: dry run, skipping retirement of surplus part playlist (playlistId=${retiredId}).`);
+      continue;
+    }
+
+    if (!(await spotifyClient.getPlaylist(retiredId))) {
+      logger.warn(`Surplus part playlist ${retiredId} was not found or inaccessible. Dropping it from state.`);
+      continue;
+    }
+
+    logger.info(`Stage: retiring surplus part playlist (playlistId=${retiredId}).`);
+    await spotifyClient.replacePlaylistItems(retiredId, []);
+    await spotifyClient.unfollowPlaylist(retiredId);
+  }
+
+  const [playlistId, ...partPlaylistIds] = playlistIds;
+  const nextTargetState: TargetState = { playlistId };
+  if (partPlaylistIds.length > 0) {
+    // Only a dry run can leave a part without an ID, and dry runs never
+    // persist state.
+    nextTargetState.partPlaylistIds = partPlaylistIds.filter((id): id is string => id !== null);
+  }
+
+  storeCollectedState(nextTargetState, collected);
+  return { targetState: nextTargetState, playlists, retiredPlaylistIds, totals, collected };
+}
+
+/**
+ * Syncs an archive target: groups its tracks by the period they were liked
+ * in and keeps one playlist per period, creating a period's playlist when
+ * its first like arrives. The current period is fully synced; a closed
+ * period is frozen once its playlist exists, except that with `pruneClosed`
+ * unliked tracks are still removed from it.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {TargetSyncContext} context - Data shared by every target in the run.
+ * @param {MirrorTargetConfig} target - The target to sync.
+ * @param {ArchiveConfig} archive - The target's archive settings.
+ * @param {TargetState | undefined} targetState - The target's persisted state, if any.
+ * @param {string[]} desiredUris - The target's tracks, in mirror order.
+ * @param {Map<string, SavedTrackItem>} likedByUri - The liked entry for each track URI.
+ * @returns {Promise<{ targetState: TargetState; playlists: SyncPlanPlaylist[]; frozenPeriodCount: number;
+ *   totals: WriteTotals; collected: CollectedPlaylistState }>} The next state, each synced period's plan, the
+ *   number of frozen periods, the summed write counts, and what the periods left for the summary.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function syncArchivePeriods(
+  spotifyClient: SpotifyClient,
+  context: TargetSyncContext,
+  target: MirrorTargetConfig,
+  archive: ArchiveConfig,
+  targetState: TargetState | undefined,
+  desiredUris: string[],
+  likedByUri: Map<string, SavedTrackItem>
+): Promise<{
+  targetState: TargetState;
+  playlists: SyncPlanPlaylist[];
+  frozenPeriodCount: number;
+  totals: WriteTotals;
+  collected: CollectedPlaylistState;
+}> {
+  const urisByPeriod = new Map<string, string[]>();
+  for (const uri of desiredUris) {
+    const period = periodKeyOf(new Date(likedByUri.get(uri)!.added_at), archive.period, archive.timeZone);
+    if (period !== null) {
+      urisByPeriod.set(period, [...(urisByPeriod.get(period) ?? []), uri]);
     }
   }
 
-  logger.info("Stage: fetching liked tracks.");
-  const likedTracks = await spotifyClient.fetchAllLikedTracks(accessToken);
+  const storedIds = targetState?.archivePlaylistIds ?? {};
+  const storedCoverHashes = targetState?.coverHashes ?? {};
+  const storedSnapshots = targetState?.snapshots ?? {};
+  const collected: CollectedPlaylistState = { coverHashes: {}, snapshots: {}, drift: [], violations: [] };
+  const currentPeriod = periodKeyOf(context.now, archive.period, archive.timeZone)!;
+  const periods = [...new Set([...Object.keys(storedIds), ...urisByPeriod.keys()])].sort().reverse();
+  const archivePlaylistIds: Record<string, string> = {};
+  const playlists: SyncPlanPlaylist[] = [];
+  const totals: WriteTotals = { addedCount: 0, removedCount: 0, movedCount: 0 };
+  let frozenPeriodCount = 0;
 
-  logger.info("Stage: selecting candidate URIs.");
-  const candidate = selectCandidateUris(likedTracks);
+  logger.info(`Stage: resolving archive playlists (target=${target.key} periods=${periods.length}).`);
+  for (const period of periods) {
+    const storedId = storedIds[period] ?? null;
+    const closed = period < currentPeriod;
+    if (closed && storedId && !archive.pruneClosed) {
+      archivePlaylistIds[period] = storedId;
+      if (storedCoverHashes[storedId]) {
+        collected.coverHashes[storedId] = storedCoverHashes[storedId];
+      }
+
+      if (storedSnapshots[storedId] && target.drift) {
+        collected.snapshots[storedId] = storedSnapshots[storedId];
+      }
+
+      frozenPeriodCount += 1;
+      continue;
+    }
+
+    const uris = urisByPeriod.get(period) ?? [];
+    const details = await renderPlaylistDetails(
+      context,
+      target,
+      uris.map((uri) => likedByUri.get(uri)!),
+      {
+        variables: periodTemplateVariables(period),
+        description: archive.description,
+        coverHash: storedId ? (storedCoverHashes[storedId] ?? null) : null
+      }
+    );
+    const result = await syncPlaylist(
+      spotifyClient,
+      context,
+      {
+        part: 1,
+        period,
+        playlistId: storedId,
+        ...details,
+        visibility: target.visibility,
+        removeOnly: closed,
+        drift: driftCheck(target, targetState, storedId),
+        guard: removalGuard(context, target)
+      },
+      uris
+    );
+
+    if (result.playlistId) {
+      archivePlaylistIds[period] = result.playlistId;
+    }
+
+    collectPlaylistState(result, collected);
+    playlists.push(result.plan);
+    addDiffCounts(totals, result.diff);
+  }
+
+  const nextTargetState: TargetState = { playlistId: null };
+  if (Object.keys(archivePlaylistIds).length > 0) {
+    nextTargetState.archivePlaylistIds = archivePlaylistIds;
+  }
+
+  storeCollectedState(nextTargetState, collected);
+  return { targetState: nextTargetState, playlists, frozenPeriodCount, totals, collected };
+}
+
+/**
+ * A target's selected tracks, in mirror order.
+ */
+interface TargetSelection {
+  candidate: ReturnType<typeof selectCandidateUris>;
+  desiredUris: string[];
+  likedByUri: Map<string, SavedTrackItem>;
+}
+
+/**
+ * Selects and orders a target's tracks from its source's entries.
+ *
+ * @param {SavedTrackItem[]} likedTracks - The entries of the target's source, newest first.
+ * @param {MirrorTargetConfig} target - The target to select for.
+ * @param {Date} now - Time of the sync run.
+ * @returns {TargetSelection} The selected candidates and the URIs to mirror, in order.
+ */
+function selectTargetTracks(likedTracks: SavedTrackItem[], target: MirrorTargetConfig, now: Date): TargetSelection {
+  logger.info(`Stage: selecting candidate URIs (target=${target.key}).`);
+  const windowTracks = selectLikedWindow(likedTracks, target.window, now);
+  const likedByUri = indexLikedTracks(windowTracks);
+  const candidate = selectCandidateUris(windowTracks, target.filter, now, target.dedupe);
+  const desiredUris = orderCandidateUris(candidate.uris, likedByUri, target);
   logger.info(
-    `Stage: selected candidates likedCount=${candidate.likedCount} candidateCount=${candidate.uris.length} skippedCount=${candidate.skippedCount}`
+    `Stage: selected candidates likedCount=${candidate.likedCount} candidateCount=${desiredUris.length} ` +
+      `skippedCount=${candidate.skippedCount} filteredCount=${candidate.filteredCount} ` +
+      `duplicateCount=${candidate.duplicates.length}`
   );
 
-  // Replace the playlist contents atomically: a single PUT swaps the whole
-  // playlist to the first batch in one operation (so the playlist is never
-  // observed empty while there are tracks to mirror), then any remaining
-  // batches are appended. Clearing first would leave the public playlist
-  // empty or partially populated if a later write failed.
-  const uriChunks = chunk(candidate.uris, SPOTIFY_PLAYLIST_WRITE_BATCH_SIZE);
+  return { candidate, desiredUris, likedByUri };
+}
 
-  logger.info("Stage: replacing mirror playlist contents.");
-  // PUT with the first batch atomically replaces all existing items. For an
-  // empty library, uriChunks is empty and we PUT [] to clear the playlist.
-  const [firstChunk, ...restChunks] = uriChunks;
-  await spotifyClient.replacePlaylistItems(playlistId, firstChunk ?? [], accessToken);
+/**
+ * Checks each target's selection against the number of tracks it selected on
+ * the previous run, so a library that suddenly shrank (such as an empty or
+ * truncated liked songs response) is caught before anything is written. A
+ * selection that became empty is always refused. Targets that drop tracks as
+ * time passes are otherwise held to the liked songs total instead, as their
+ * selection may shrink by any amount.
+ *
+ * @param {MirrorTargetConfig[]} targets - The configured targets.
+ * @param {TargetSelection[]} selections - Each target's selection, in target order.
+ * @param {number | null} likedCount - The liked songs total this run, or null if they were not read.
+ * @param {AppState} state - The persisted state, holding the previous counts.
+ * @param {SafetyConfig} safety - The mass-removal limits.
+ * @returns {SafetyViolation[]} The targets whose selection, and the library if its total, shrank past the limits.
+ */
+function checkSelectionCounts(
+  targets: MirrorTargetConfig[],
+  selections: TargetSelection[],
+  likedCount: number | null,
+  state: AppState,
+  safety: SafetyConfig
+): SafetyViolation[] {
+  const violations = targets.flatMap((target, index): SafetyViolation[] => {
+    const previousCount = state.targets[target.key]?.candidateCount;
+    if (previousCount === undefined) {
+      return [];
+    }
+
+    const selectedCount = selections[index].desiredUris.length;
+    const removedCount = previousCount - selectedCount;
+    const limit =
+      (dropsTracksOverTime(target) ? null : exceededRemovalLimit(previousCount, removedCount, safety)) ??
+      (previousCount > 0 && selectedCount === 0 ? EMPTY_SELECTION_LIMIT : null);
+    return limit ? [{ target: target.key, playlistId: null, previousCount, removedCount, limit }] : [];
+  });
+
+  const timed = targets.some((target) => sourceUses(target.source, "liked-songs") && dropsTracksOverTime(target));
+  if (timed && likedCount !== null && state.likedCount !== undefined) {
+    const limit = exceededRemovalLimit(state.likedCount, state.likedCount - likedCount, safety);
+    if (limit) {
+      violations.push({
+        target: "liked-songs",
+        playlistId: null,
+        previousCount: state.likedCount,
+        removedCount: state.likedCount - likedCount,
+        limit,
+        library: "total"
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Syncs one mirror target's selected tracks into its part playlists or, for
+ * an archive target, its per-period playlists. When safety limits are set,
+ * the selection's size is kept for the next run's check unless a playlist's
+ * removals were refused.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {TargetSyncContext} context - Data shared by every target in the run.
+ * @param {MirrorTargetConfig} target - The target to sync.
+ * @param {TargetState | undefined} targetState - The target's persisted state, if any.
+ * @param {TargetSelection} selection - The target's selected tracks.
+ * @returns {Promise<{ summary: TargetSyncSummary; targetState: TargetState; plan: SyncPlan; violations: SafetyViolation[] }>}
+ *   The target's summary, its next state, its applied (or previewed) plan, and the refused removals.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function syncTarget(
+  spotifyClient: SpotifyClient,
+  context: TargetSyncContext,
+  target: MirrorTargetConfig,
+  targetState: TargetState | undefined,
+  selection: TargetSelection
+): Promise<{ summary: TargetSyncSummary; targetState: TargetState; plan: SyncPlan; violations: SafetyViolation[] }> {
+  const { candidate, desiredUris, likedByUri } = selection;
+  const synced = target.archive
+    ? {
+        ...(await syncArchivePeriods(
+          spotifyClient,
+          context,
+          target,
+          target.archive,
+          targetState,
+          desiredUris,
+          likedByUri
+        )),
+        retiredPlaylistIds: []
+      }
+    : {
+        ...(await syncMirrorParts(spotifyClient, context, target, targetState, desiredUris, likedByUri)),
+        frozenPeriodCount: 0
+      };
 
-  logger.info(`Stage: appending ${restChunks.length} additional chunk(s).`);
-  for (const [chunkIndex, uriChunk] of restChunks.entries()) {
-    logger.info(`Stage: writing chunk ${chunkIndex + 2}/${uriChunks.length} size=${uriChunk.length}.`);
-    await spotifyClient.addPlaylistItems(playlistId, uriChunk, accessToken);
+  const source = describeSource(target.source);
+  if (targetState?.source !== undefined && targetState.source !== source) {
+    logger.warn(`Target ${target.key} now mirrors ${source} instead of ${targetState.source}.`);
   }
+  synced.targetState.source = source;
 
-  const skippedCount = candidate.skippedCount;
+  const { drift, violations } = synced.collected;
+  const candidateCount = violations.length > 0 ? targetState?.candidateCount : desiredUris.length;
+  if (context.recordCandidateCounts && candidateCount !== undefined) {
+    synced.targetState.candidateCount = candidateCount;
+  }
 
   return {
     summary: {
-      playlistId,
-      createdPlaylist,
-      likedCount: candidate.likedCount,
-      candidateCount: candidate.uris.length,
-      mirroredCount: candidate.uris.length,
-      skippedCount
+      key: target.key,
+      source,
+      playlistId: synced.targetState.playlistId,
+      order: target.order,
+      shuffleSeed: target.order === "shuffle" ? target.shuffleSeed : null,
+      createdPlaylist: synced.playlists.some((playlist) => playlist.create),
+      partCount: target.archive ? 0 : synced.playlists.length,
+      retiredPartCount: synced.retiredPlaylistIds.length,
+      periodCount: Object.keys(synced.targetState.archivePlaylistIds ?? {}).length,
+      frozenPeriodCount: synced.frozenPeriodCount,
+      candidateCount: desiredUris.length,
+      mirroredCount: desiredUris.length,
+      skippedCount: candidate.skippedCount,
+      filteredCount: candidate.filteredCount,
+      ruleExclusions: candidate.ruleExclusions,
+      duplicates: candidate.duplicates,
+      drift,
+      ...synced.totals
+    },
+    targetState: synced.targetState,
+    plan: {
+      target: target.key,
+      dryRun: context.dryRun,
+      playlists: synced.playlists,
+      retiredPlaylistIds: synced.retiredPlaylistIds,
+      skipped: candidate.skipped,
+      duplicates: candidate.duplicates
     },
-    nextState: {
-      playlistId
+    violations
+  };
+}
+
+/**
+ * Moves tracks unliked since the previous run into the graveyard playlist,
+ * drops tracks liked again or past the retention limits, and syncs the
+ * playlist to match (or, in a dry run, only plans it). When safety limits are
+ * set and more tracks went missing from the library than they allow (such as
+ * from an empty or truncated liked songs response), the graveyard is planned
+ * but not written, and the caller keeps the previous state.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {TargetSyncContext} context - Data shared by every playlist in the run.
+ * @param {GraveyardConfig} graveyard - The graveyard settings.
+ * @param {Record<string, LikedTrackState> | undefined} previousLiked - Liked tracks recorded by the previous run.
+ * @param {Record<string, LikedTrackState>} liked - Liked tracks of this run.
+ * @param {GraveyardState | undefined} graveyardState - The graveyard's persisted state, if any.
+ * @returns {Promise<{ summary: GraveyardSyncSummary; graveyardState: GraveyardState; plan: SyncPlan; violation: SafetyViolation | null }>}
+ *   The graveyard's summary, its next state, its applied (or previewed) plan, and the refused unlikes.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function syncGraveyard(
+  spotifyClient: SpotifyClient,
+  context: TargetSyncContext,
+  graveyard: GraveyardConfig,
+  previousLiked: Record<string, LikedTrackState> | undefined,
+  liked: Record<string, LikedTrackState>,
+  graveyardState: GraveyardState | undefined
+): Promise<{
+  summary: GraveyardSyncSummary;
+  graveyardState: GraveyardState;
+  plan: SyncPlan;
+  violation: SafetyViolation | null;
+}> {
+  if (!previousLiked) {
+    logger.info("Stage: recording liked tracks; unlikes are detected from the next run on.");
+  }
+
+  const update = updateGraveyard(previousLiked, liked, graveyardState?.tracks ?? [], graveyard.retention, context.now);
+  logger.info(
+    `Stage: updated graveyard unliked=${update.unliked.length} reliked=${update.relikedCount} ` +
+      `expired=${update.expiredCount} trackCount=${update.tracks.length}`
+  );
+
+  const previousCount = Object.keys(previousLiked ?? {}).length;
+  const missingCount = Object.keys(previousLiked ?? {}).filter((uri) => !liked[uri]).length;
+  const limit = context.safety ? exceededRemovalLimit(previousCount, missingCount, context.safety) : null;
+  const violation: SafetyViolation | null = limit
+    ? {
+        target: "graveyard",
+        playlistId: graveyardState?.playlistId ?? null,
+        previousCount,
+        removedCount: missingCount,
+        limit,
+        library: "unliked"
+      }
+    : null;
+  if (violation) {
+    logger.warn(
+      `Refusing to move ${missingCount} of ${previousCount} previously liked track(s) to the graveyard ` +
+        `(exceeds ${limit}).`
+    );
+  }
+
+  // Held like a refused playlist: planned for review, but not written.
+  const result = await syncPlaylist(
+    spotifyClient,
+    violation ? { ...context, dryRun: true } : context,
+    {
+      part: 1,
+      period: null,
+      playlistId: graveyardState?.playlistId ?? null,
+      name: renderPlaylistName(graveyard.name, context.currentUser, context.fallbackPlaylistName),
+      description: renderPlaylistName(graveyard.description, context.currentUser, ""),
+      visibility: graveyard.visibility,
+      removeOnly: false,
+      knownTracks: update.tracks.map(({ uri, name, artists }) => ({ uri, name, artists }))
+    },
+    update.tracks.map((track) => track.uri)
+  );
+
+  const diff = violation ? planMirrorDiff([], []) : result.diff;
+  return {
+    summary: {
+      playlistId: result.playlistId,
+      unlikedCount: update.unliked.length,
+      relikedCount: update.relikedCount,
+      expiredCount: update.expiredCount,
+      trackCount: violation ? (graveyardState?.tracks.length ?? 0) : update.tracks.length,
+      addedCount: diff.addedCount,
+      removedCount: diff.removedCount,
+      movedCount: diff.movedCount
+    },
+    graveyardState: { playlistId: result.playlistId, tracks: update.tracks },
+    plan: {
+      target: "graveyard",
+      dryRun: context.dryRun,
+      playlists: [violation ? { ...result.plan, refused: true } : result.plan],
+      retiredPlaylistIds: [],
+      skipped: [],
+      duplicates: []
+    },
+    violation
+  };
+}
+
+/**
+ * Looks for a managed playlist whose snapshot moved on since the last full
+ * sync, stopping at the first one.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {Record<string, string>} snapshots - Each playlist's snapshot ID at the last full sync.
+ * @returns {Promise<string | null>} Why a full sync is needed, or null if every playlist is unchanged.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function changedPlaylistReason(
+  spotifyClient: SpotifyClient,
+  snapshots: Record<string, string>
+): Promise<string | null> {
+  for (const [playlistId, snapshotId] of Object.entries(snapshots)) {
+    const playlist = await spotifyClient.getPlaylist(playlistId);
+    if (playlist?.snapshot_id !== snapshotId) {
+      return `playlist ${playlistId} changed`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads the snapshot ID of each playlist, for the fingerprint of a full sync.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {string[]} playlistIds - The managed playlists.
+ * @returns {Promise<Record<string, string> | null>} Snapshot IDs by playlist ID, or null if a playlist is gone.
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+async function readPlaylistSnapshots(
+  spotifyClient: SpotifyClient,
+  playlistIds: string[]
+): Promise<Record<string, string> | null> {
+  const snapshots: Record<string, string> = {};
+  for (const playlistId of playlistIds) {
+    const playlist = await spotifyClient.getPlaylist(playlistId);
+    if (!playlist) {
+      return null;
+    }
+
+    snapshots[playlistId] = playlist.snapshot_id;
+  }
+
+  return snapshots;
+}
+
+/**
+ * Runs the full mirror sync: refreshes the access token, fetches the current
+ * user and their liked tracks once (substituting playable equivalents for
+ * unplayable ones when enabled), along with their saved albums and episodes
+ * when a target draws from them, then syncs every configured target in
+ * order. Each target's playlist is resolved (or created), diffed against its
+ * selected tracks, and updated with only the inserts, removals and moves
+ * needed; an unchanged library performs no writes. With a graveyard
+ * configured, tracks unliked since the previous run are then moved into the
+ * graveyard playlist. In a dry run every read
+ * still happens, but no playlist is created or written; the returned plans
+ * describe what would have changed. Unless forced, a target whose selection
+ * shrank past `config.safety`'s limits since the previous run turns the whole
+ * run into a dry run (returning the state unchanged), a playlist the diff
+ * would remove too many tracks from is left as it is, and so is the graveyard
+ * when too many liked tracks went missing at once.
+ *
+ * Unless a full sync is requested or due (`config.fullSyncIntervalHours`),
+ * a run first compares the first page of liked tracks and the managed
+ * playlists' snapshots against the fingerprint the last full sync stored,
+ * and ends there when nothing changed. Only a completed full sync stores a
+ * new fingerprint.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {AppConfig} config - The application configuration, including the mirror targets.
+ * @param {AppState} state - The persisted state, including any known playlist IDs.
+ * @param {SyncOptions} [options] - Run options such as dry-run mode and the substitution cache.
+ * @returns {Promise<{ summary: SyncSummary; nextState: AppState; plans: SyncPlan[]; substitutionCache: SubstitutionCache | null }>}
+ *   A summary of the sync, the next state to persist, one applied (or previewed) plan per target
+ *   (and one for the graveyard), and the next substitution cache (null when substitution is disabled).
+ * @throws {SpotifyApiError} If a non-recoverable Spotify API error occurs.
+ */
+export async function syncLikedSongsMirror(
+  spotifyClient: SpotifyClient,
+  config: AppConfig,
+  state: AppState,
+  options: SyncOptions = {}
+): Promise<{
+  summary: SyncSummary;
+  nextState: AppState;
+  plans: SyncPlan[];
+  substitutionCache: SubstitutionCache | null;
+}> {
+  logger.info("Stage: refreshing access token.");
+  await spotifyClient.getAccessToken();
+  logger.info("Stage: access token acquired.");
+
+  const now = new Date();
+  const blocker = config.fullSyncIntervalHours > 0 ? fingerprintBlocker(config) : "FULL_SYNC_INTERVAL_HOURS is 0";
+  let library: ReturnType<typeof fingerprintLibrary> | null = null;
+  if (blocker === null) {
+    logger.info("Stage: checking Liked Songs against the last full sync.");
+    library = fingerprintLibrary(await spotifyClient.getLikedTracksPage(), hashSyncSettings(config));
+    const reason = options.fullSync
+      ? "a full sync was requested"
+      : (fullSyncReason(state.fingerprint, library, config.fullSyncIntervalHours, now) ??
+        (await changedPlaylistReason(spotifyClient, state.fingerprint!.playlistSnapshots)));
+    if (reason === null) {
+      logger.info("Stage: Liked Songs and the playlists are unchanged since the last full sync; skipping the sync.");
+      return {
+        summary: {
+          likedCount: library.total,
+          substitutions: [],
+          unresolvedTracks: [],
+          targets: [],
+          graveyard: null,
+          safetyViolations: [],
+          refused: false,
+          unchanged: true
+        },
+        nextState: state,
+        plans: [],
+        substitutionCache: null
+      };
     }
+
+    logger.info(`Stage: running a full sync (${reason}).`);
+  } else {
+    logger.info(`Stage: running a full sync (${blocker}).`);
+  }
+
+  logger.info("Stage: fetching current user.");
+  const currentUser = await spotifyClient.getCurrentUser();
+  logger.info(`Stage: current user fetched (userId=${currentUser.id}).`);
+
+  // When every target that reads liked songs mirrors them directly through a
+  // rolling window, pages older than all of the windows are never needed, so
+  // pagination can stop once they are covered. The graveyard compares whole
+  // libraries, and combined sources need every like, so both need every page.
+  const likedTargets = config.targets.filter((target) => sourceUses(target.source, "liked-songs"));
+  const windows = likedTargets.map((target) => (target.source.type === "liked-songs" ? target.window : null));
+  const stopWhen = !config.graveyard && windows.every((window) => window !== null)
+    ? (collected: SavedTrackItem[]) => windows.every((window) => coversLikedWindow(collected, window!, now))
+    : undefined;
+
+  let fetchedTracks: SavedTrackItem[] = [];
+  let likedCount: number | null = null;
+  if (likedTargets.length > 0 || config.graveyard) {
+    logger.info("Stage: fetching liked tracks.");
+    fetchedTracks = await spotifyClient.fetchAllLikedTracks({
+      stopWhen,
+      onTotal: (total) => {
+        likedCount = total;
+      }
+    });
+  }
+
+  let substitution: Awaited<ReturnType<typeof substituteUnplayableTracks>> | null = null;
+  if (config.substituteUnplayable) {
+    logger.info("Stage: substituting unplayable liked tracks.");
+    substitution = await substituteUnplayableTracks(
+      spotifyClient,
+      fetchedTracks,
+      options.substitutionCache ?? { entries: {} },
+      now
+    );
+    logger.info(
+      `Stage: substitution complete substituted=${substitution.substitutions.length} ` +
+        `unresolved=${substitution.unresolvedTracks.length}`
+    );
+  }
+
+  const likedTracks = substitution?.likedTracks ?? fetchedTracks;
+  const reader = createSourceReader(spotifyClient, likedTracks);
+  const sourceTracks = new Set<SavedTrackItem>();
+  const selections: TargetSelection[] = [];
+  for (const target of config.targets) {
+    const entries = await readSource(target.source, reader);
+    entries.forEach((item) => sourceTracks.add(item));
+    selections.push(selectTargetTracks(entries, target, now));
+  }
+
+  const safety = options.force ? null : config.safety;
+  const safetyViolations = safety ? checkSelectionCounts(config.targets, selections, likedCount, state, safety) : [];
+  const refused = safetyViolations.length > 0;
+  if (refused) {
+    logger.warn("Stage: selection shrank past the mass-removal limits; planning the run without writing.");
+  }
+
+  const context: TargetSyncContext = {
+    currentUser,
+    sourceTracks: [...sourceTracks],
+    fallbackPlaylistName: config.fallbackPlaylistName,
+    dryRun: options.dryRun === true || refused,
+    now,
+    safety,
+    recordCandidateCounts: config.safety.maxRemovedPercent !== null || config.safety.maxRemovedCount !== null
+  };
+  const nextState: AppState = { targets: { ...state.targets } };
+  const targetSummaries: TargetSyncSummary[] = [];
+  const plans: SyncPlan[] = [];
+
+  for (const [index, target] of config.targets.entries()) {
+    const result = await syncTarget(spotifyClient, context, target, state.targets[target.key], selections[index]);
+    nextState.targets[target.key] = result.targetState;
+    targetSummaries.push(result.summary);
+    plans.push(result.plan);
+    safetyViolations.push(...result.violations);
+  }
+
+  if (context.recordCandidateCounts && likedCount !== null) {
+    nextState.likedCount = likedCount;
+  }
+
+  let graveyardSummary: GraveyardSyncSummary | null = null;
+  if (config.graveyard) {
+    // Unlikes are detected from the library as fetched, before substitution,
+    // so a changed substitute is not mistaken for an unlike.
+    const liked = recordLikedTracks(fetchedTracks);
+    const result = await syncGraveyard(
+      spotifyClient,
+      context,
+      config.graveyard,
+      state.likedTracks,
+      liked,
+      state.graveyard
+    );
+    if (result.violation) {
+      // Keep the previous liked set and total, so the tracks are compared again next run.
+      safetyViolations.push(result.violation);
+      nextState.likedTracks = state.likedTracks;
+      nextState.graveyard = state.graveyard;
+      if (state.likedCount !== undefined) {
+        nextState.likedCount = state.likedCount;
+      }
+    } else {
+      nextState.likedTracks = liked;
+      nextState.graveyard = result.graveyardState;
+    }
+
+    graveyardSummary = result.summary;
+    plans.push(result.plan);
+  } else if (state.graveyard) {
+    // Keep the playlist ID so the graveyard is reused if it is configured again.
+    nextState.graveyard = state.graveyard;
+  }
+
+  // A run that left a playlist untouched must not be skipped next time.
+  const completed =
+    safetyViolations.length === 0 &&
+    targetSummaries.every((summary) => summary.drift.every((drift) => drift.action !== "stopped"));
+  if (library && !context.dryRun && completed) {
+    logger.info("Stage: fingerprinting Liked Songs and the playlists.");
+    const playlistSnapshots = await readPlaylistSnapshots(spotifyClient, managedPlaylistIds(nextState, config));
+    if (playlistSnapshots) {
+      nextState.fingerprint = { ...library, playlistSnapshots, reconciledAt: now.toISOString() };
+    }
+  }
+
+  return {
+    summary: {
+      likedCount: likedTracks.length,
+      substitutions: substitution?.substitutions ?? [],
+      unresolvedTracks: substitution?.unresolvedTracks ?? [],
+      targets: targetSummaries,
+      graveyard: graveyardSummary,
+      safetyViolations,
+      refused,
+      unchanged: false
+    },
+    nextState: refused ? state : nextState,
+    plans,
+    substitutionCache: substitution?.cache ?? null
   };
 }
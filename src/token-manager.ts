@@ -0,0 +1,119 @@
+import { logger } from "./logger";
+
+/**
+ * What the accounts service hands back for a refresh token.
+ */
+export interface TokenGrant {
+  accessToken: string;
+  /** Lifetime of the access token in seconds, or null if Spotify omitted it. */
+  expiresInSeconds: number | null;
+  /** A replacement refresh token, or null if the current one stays valid. */
+  refreshToken: string | null;
+}
+
+/**
+ * Settings for a `TokenManager`.
+ */
+export interface TokenManagerOptions {
+  /** Current time in milliseconds. */
+  now: () => number;
+  /** How long before expiry a cached access token is refreshed. */
+  refreshMarginMs: number;
+  /** Called when Spotify rotates the refresh token, so the new one can be persisted. */
+  onRefreshTokenRotated?: (refreshToken: string) => void | Promise<void>;
+}
+
+/** Lifetime assumed when the token response has no `expires_in`, as Spotify documents one hour. */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+/**
+ * Holds the access token of one account: caches it until shortly before it
+ * expires, shares a single refresh between concurrent callers, and keeps the
+ * refresh token current when Spotify rotates it.
+ */
+export class TokenManager {
+  private accessToken: string | null = null;
+  private expiresAt = 0;
+  private pending: Promise<string> | null = null;
+
+  /**
+   * @param {string} refreshToken - The refresh token to start from.
+   * @param {(refreshToken: string) => Promise<TokenGrant>} requestGrant - Exchanges a refresh token for a grant.
+   * @param {TokenManagerOptions} options - Clock, refresh margin and rotation callback.
+   */
+  constructor(
+    private refreshToken: string,
+    private readonly requestGrant: (refreshToken: string) => Promise<TokenGrant>,
+    private readonly options: TokenManagerOptions
+  ) {}
+
+  /**
+   * Returns the cached access token, refreshing it first if there is none yet
+   * or it is about to expire.
+   *
+   * @returns {Promise<string>} A valid access token.
+   * @throws {Error} If the refresh fails.
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.accessToken !== null && this.options.now() < this.expiresAt - this.options.refreshMarginMs) {
+      return this.accessToken;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Replaces an access token the API rejected. If another caller has already
+   * replaced it, the newer token is returned without another refresh.
+   *
+   * @param {string} rejectedToken - The access token that drew a 401.
+   * @returns {Promise<string>} A fresh access token.
+   * @throws {Error} If the refresh fails.
+   */
+  async renew(rejectedToken: string): Promise<string> {
+    if (this.pending === null && this.accessToken !== null && this.accessToken !== rejectedToken) {
+      return this.accessToken;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Starts a refresh, or joins the one already in flight.
+   *
+   * @returns {Promise<string>} The new access token.
+   */
+  private refresh(): Promise<string> {
+    this.pending ??= this.exchange().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  /**
+   * Exchanges the refresh token for a grant and caches the result, handing a
+   * rotated refresh token to the rotation callback. A failing callback is
+   * logged rather than failing the refresh, since the new token is already in
+   * use.
+   *
+   * @returns {Promise<string>} The new access token.
+   */
+  private async exchange(): Promise<string> {
+    const grant = await this.requestGrant(this.refreshToken);
+    this.accessToken = grant.accessToken;
+    this.expiresAt = this.options.now() + (grant.expiresInSeconds ?? DEFAULT_TOKEN_LIFETIME_SECONDS) * 1000;
+
+    if (grant.refreshToken && grant.refreshToken !== this.refreshToken) {
+      this.refreshToken = grant.refreshToken;
+      try {
+        await this.options.onRefreshTokenRotated?.(grant.refreshToken);
+      } catch (error) {
+        logger.error(
+          `Failed to persist the rotated Spotify refresh token: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    return grant.accessToken;
+  }
+}
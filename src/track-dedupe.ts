@@ -0,0 +1,117 @@
+import type { CollapsedDuplicate, SavedTrackItem } from "./types";
+
+/**
+ * Settings for collapsing different releases of the same recording.
+ */
+export interface DedupeConfig {
+  /** Which like of a recording survives: the `latest` (most recent) or the `earliest`. */
+  keep: "latest" | "earliest";
+  /** Largest length difference, in seconds, for tracks without a shared ISRC to count as one recording. */
+  durationToleranceSeconds: number;
+}
+
+/**
+ * Normalizes a title or artist name for comparison: strips accents,
+ * bracketed qualifiers and " - ..." suffixes (e.g. "(Remastered 2011)",
+ * " - Single Version"), lowercases, and drops punctuation.
+ *
+ * @param {string} value - The raw title or name.
+ * @returns {string} The normalized text.
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/\s*[([].*?[)\]]/g, "")
+    .replace(/\s+-\s+.*$/, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+interface RecordingGroup {
+  members: Array<{ item: SavedTrackItem; matchedBy: CollapsedDuplicate["matchedBy"] | null }>;
+  isrc: string | null;
+  durationMs: number | undefined;
+}
+
+/**
+ * Collapses likes of the same recording released under different URIs
+ * (single, album, deluxe edition...) to one like each, chosen by
+ * `config.keep`. Tracks that both carry an ISRC are the same recording only
+ * if the ISRCs match; otherwise the normalized title and primary artist must
+ * match and the lengths must be within the tolerance. Each like is compared
+ * with the first like of the existing groups, and surviving tracks keep their
+ * place in liked order.
+ *
+ * @param {SavedTrackItem[]} items - Candidate likes with distinct track URIs, newest first.
+ * @param {DedupeConfig} config - The target's dedupe settings.
+ * @returns {{ items: SavedTrackItem[]; duplicates: CollapsedDuplicate[] }}
+ *   The surviving likes, newest first, and one entry per dropped like naming the URI that won.
+ */
+export function dedupeRecordings(
+  items: SavedTrackItem[],
+  config: DedupeConfig
+): { items: SavedTrackItem[]; duplicates: CollapsedDuplicate[] } {
+  const toleranceMs = config.durationToleranceSeconds * 1000;
+  const groups: RecordingGroup[] = [];
+  const groupsByIsrc = new Map<string, RecordingGroup>();
+  const groupsByTitle = new Map<string, RecordingGroup[]>();
+
+  for (const item of items) {
+    const track = item.track!;
+    const isrc = track.external_ids?.isrc?.toUpperCase() || null;
+    const artist = track.artists?.[0]?.name;
+    const titleKey = track.name && artist ? `${normalizeText(track.name)}\n${normalizeText(artist)}` : null;
+
+    let group = isrc ? groupsByIsrc.get(isrc) : undefined;
+    let matchedBy: CollapsedDuplicate["matchedBy"] = "isrc";
+    if (!group && titleKey && track.duration_ms !== undefined) {
+      group = groupsByTitle
+        .get(titleKey)
+        ?.find(
+          (candidate) =>
+            (candidate.isrc === null || isrc === null) &&
+            candidate.durationMs !== undefined &&
+            Math.abs(candidate.durationMs - track.duration_ms!) <= toleranceMs
+        );
+      matchedBy = "title-artist-duration";
+    }
+
+    if (group) {
+      group.members.push({ item, matchedBy });
+      continue;
+    }
+
+    group = { members: [{ item, matchedBy: null }], isrc, durationMs: track.duration_ms };
+    groups.push(group);
+    if (isrc) {
+      groupsByIsrc.set(isrc, group);
+    }
+
+    if (titleKey) {
+      groupsByTitle.set(titleKey, [...(groupsByTitle.get(titleKey) ?? []), group]);
+    }
+  }
+
+  const winners = new Set<SavedTrackItem>();
+  const duplicates: CollapsedDuplicate[] = [];
+  for (const { members } of groups) {
+    const winner = config.keep === "latest" ? members[0] : members[members.length - 1];
+    winners.add(winner.item);
+
+    for (const member of members) {
+      if (member !== winner) {
+        duplicates.push({
+          keptUri: winner.item.track!.uri,
+          droppedUri: member.item.track!.uri,
+          name: member.item.track!.name ?? null,
+          // The first like of a group has no match of its own; report how the winner matched it.
+          matchedBy: member.matchedBy ?? winner.matchedBy!
+        });
+      }
+    }
+  }
+
+  return { items: items.filter((item) => winners.has(item)), duplicates };
+}
@@ -0,0 +1,389 @@
+import type { SavedTrackItem } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Inclusive numeric bounds; an omitted bound is open. */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A condition evaluated against a liked track. Leaf conditions test one
+ * property; `all`, `any` and `not` combine other conditions.
+ */
+export type TrackCondition =
+  | { all: TrackCondition[] }
+  | { any: TrackCondition[] }
+  | { not: TrackCondition }
+  | { explicit: boolean }
+  | { artist: string[] }
+  | { album: string[] }
+  | { releaseYear: NumberRange }
+  | { durationSeconds: NumberRange }
+  | { likedAt: { after?: string; before?: string; withinDays?: number } }
+  | { uris: string[] };
+
+/**
+ * A named filter rule. An `include` rule drops tracks that do not match its
+ * condition; an `exclude` rule drops tracks that do.
+ */
+export interface FilterRule {
+  name: string;
+  action: "include" | "exclude";
+  condition: TrackCondition;
+}
+
+const CONDITION_KEYS = [
+  "all",
+  "any",
+  "not",
+  "explicit",
+  "artist",
+  "album",
+  "releaseYear",
+  "durationSeconds",
+  "likedAt",
+  "uris"
+] as const;
+
+/**
+ * Checks that a value is a plain (non-array) object.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a non-null, non-array object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a non-empty list of non-empty strings.
+ *
+ * @param {unknown} value - The raw value.
+ * @param {string} where - Location for error messages.
+ * @returns {string[]} The trimmed strings.
+ * @throws {Error} If the value is not a non-empty string array.
+ */
+function parseStringList(value: unknown, where: string): string[] {
+  const valid =
+    Array.isArray(value) && value.length > 0 && value.every((entry) => typeof entry === "string" && entry.trim());
+  if (!valid) {
+    throw new Error(`${where} must be a non-empty array of strings`);
+  }
+
+  return (value as string[]).map((entry) => entry.trim());
+}
+
+/**
+ * Validates a `{ min, max }` range of finite numbers.
+ *
+ * @param {unknown} value - The raw value.
+ * @param {string} where - Location for error messages.
+ * @returns {NumberRange} The validated range.
+ * @throws {Error} If the range is malformed, empty, or inverted.
+ */
+function parseRange(value: unknown, where: string): NumberRange {
+  if (!isObject(value)) {
+    throw new Error(`${where} must be an object with "min" and/or "max"`);
+  }
+
+  const range: NumberRange = {};
+  for (const [field, bound] of Object.entries(value)) {
+    if (field !== "min" && field !== "max") {
+      throw new Error(`${where} has unknown field "${field}" (expected "min" or "max")`);
+    }
+
+    if (typeof bound !== "number" || !Number.isFinite(bound)) {
+      throw new Error(`${where}.${field} must be a number`);
+    }
+
+    range[field] = bound;
+  }
+
+  if (range.min === undefined && range.max === undefined) {
+    throw new Error(`${where} must set "min" and/or "max"`);
+  }
+
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    throw new Error(`${where}.min must not be greater than max`);
+  }
+
+  return range;
+}
+
+/**
+ * Validates a `likedAt` window.
+ *
+ * @param {unknown} value - The raw value.
+ * @param {string} where - Location for error messages.
+ * @returns {{ after?: string; before?: string; withinDays?: number }} The validated window.
+ * @throws {Error} If the window is malformed or empty.
+ */
+function parseLikedAt(value: unknown, where: string): { after?: string; before?: string; withinDays?: number } {
+  if (!isObject(value) || Object.keys(value).length === 0) {
+    throw new Error(`${where} must set "after", "before" and/or "withinDays"`);
+  }
+
+  const window: { after?: string; before?: string; withinDays?: number } = {};
+  for (const [field, bound] of Object.entries(value)) {
+    if (field === "after" || field === "before") {
+      if (typeof bound !== "string" || !Number.isFinite(Date.parse(bound))) {
+        throw new Error(`${where}.${field} must be an ISO date such as "2025-01-01"`);
+      }
+
+      window[field] = bound;
+    } else if (field === "withinDays") {
+      if (typeof bound !== "number" || !Number.isInteger(bound) || bound <= 0) {
+        throw new Error(`${where}.withinDays must be a positive integer`);
+      }
+
+      window.withinDays = bound;
+    } else {
+      throw new Error(`${where} has unknown field "${field}"`);
+    }
+  }
+
+  return window;
+}
+
+/**
+ * Validates a condition tree. Every condition object must have exactly one key.
+ *
+ * @param {unknown} raw - The raw condition.
+ * @param {string} where - Location for error messages.
+ * @returns {TrackCondition} The validated condition.
+ * @throws {Error} If the condition, or any nested condition, is malformed.
+ */
+function parseCondition(raw: unknown, where: string): TrackCondition {
+  if (!isObject(raw) || Object.keys(raw).length !== 1) {
+    throw new Error(`${where} must be an object with exactly one of: ${CONDITION_KEYS.join(", ")}`);
+  }
+
+  const [[key, value]] = Object.entries(raw);
+  const at = `${where}.${key}`;
+
+  switch (key) {
+    case "all":
+    case "any":
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`${at} must be a non-empty array of conditions`);
+      }
+
+      return key === "all"
+        ? { all: value.map((entry, index) => parseCondition(entry, `${at}[${index}]`)) }
+        : { any: value.map((entry, index) => parseCondition(entry, `${at}[${index}]`)) };
+    case "not":
+      return { not: parseCondition(value, at) };
+    case "explicit":
+      if (typeof value !== "boolean") {
+        throw new Error(`${at} must be true or false`);
+      }
+
+      return { explicit: value };
+    case "artist":
+      return { artist: parseStringList(value, at) };
+    case "album":
+      return { album: parseStringList(value, at) };
+    case "uris":
+      return { uris: parseStringList(value, at) };
+    case "releaseYear":
+      return { releaseYear: parseRange(value, at) };
+    case "durationSeconds":
+      return { durationSeconds: parseRange(value, at) };
+    case "likedAt":
+      return { likedAt: parseLikedAt(value, at) };
+    default:
+      throw new Error(`${where} has unknown condition "${key}" (expected one of: ${CONDITION_KEYS.join(", ")})`);
+  }
+}
+
+/**
+ * Validates a target's `filter` rule list. Each rule is an object with an
+ * optional `name` and exactly one of `include` or `exclude` holding a condition.
+ *
+ * @param {unknown} raw - The raw `filter` value, or undefined when absent.
+ * @param {string} where - Location prefix for error messages (e.g. `targets[0].filter`).
+ * @returns {FilterRule[]} The validated rules, in evaluation order.
+ * @throws {Error} If any rule is malformed.
+ */
+export function parseFilterRules(raw: unknown, where: string): FilterRule[] {
+  if (raw === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error(`${where} must be an array of rules`);
+  }
+
+  return raw.map((entry, index) => {
+    const at = `${where}[${index}]`;
+    if (!isObject(entry)) {
+      throw new Error(`${at} must be an object`);
+    }
+
+    const hasInclude = entry.include !== undefined;
+    const hasExclude = entry.exclude !== undefined;
+    if (hasInclude === hasExclude) {
+      throw new Error(`${at} must have exactly one of "include" or "exclude"`);
+    }
+
+    if (entry.name !== undefined && (typeof entry.name !== "string" || !entry.name.trim())) {
+      throw new Error(`${at}.name must be a non-empty string`);
+    }
+
+    const unknownField = Object.keys(entry).find((field) => !["name", "include", "exclude"].includes(field));
+    if (unknownField) {
+      throw new Error(`${at} has unknown field "${unknownField}"`);
+    }
+
+    const action = hasInclude ? "include" : "exclude";
+    return {
+      name: typeof entry.name === "string" ? entry.name.trim() : `rule ${index + 1}`,
+      action,
+      condition: parseCondition(entry[action], `${at}.${action}`)
+    };
+  });
+}
+
+/**
+ * Checks whether a value lies within an inclusive range.
+ *
+ * @param {number | undefined} value - The value, or undefined when unknown.
+ * @param {NumberRange} range - The range.
+ * @returns {boolean} True if the value is known and in range.
+ */
+function inRange(value: number | undefined, range: NumberRange): boolean {
+  if (value === undefined || !Number.isFinite(value)) {
+    return false;
+  }
+
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+/**
+ * Checks whether an entity matches any of the given IDs, URIs or
+ * (case-insensitive) names.
+ *
+ * @param {{ id: string | null; uri: string; name: string }} entity - Artist or album reference.
+ * @param {string[]} values - IDs, URIs or names to match.
+ * @returns {boolean} True on any match.
+ */
+function matchesReference(entity: { id: string | null; uri: string; name: string }, values: string[]): boolean {
+  const name = entity.name.toLowerCase();
+  return values.some((value) => value === entity.id || value === entity.uri || value.toLowerCase() === name);
+}
+
+/**
+ * Evaluates a condition against a liked track. Conditions on metadata the
+ * track lacks (e.g. no album information) do not match.
+ *
+ * @param {TrackCondition} condition - The condition to evaluate.
+ * @param {SavedTrackItem} item - The liked track; its `track` must be non-null.
+ * @param {Date} now - Reference time for `likedAt.withinDays`.
+ * @returns {boolean} True if the track matches.
+ */
+export function matchesCondition(condition: TrackCondition, item: SavedTrackItem, now: Date): boolean {
+  const track = item.track!;
+
+  if ("all" in condition) {
+    return condition.all.every((child) => matchesCondition(child, item, now));
+  }
+
+  if ("any" in condition) {
+    return condition.any.some((child) => matchesCondition(child, item, now));
+  }
+
+  if ("not" in condition) {
+    return !matchesCondition(condition.not, item, now);
+  }
+
+  if ("explicit" in condition) {
+    return (track.explicit === true) === condition.explicit;
+  }
+
+  if ("artist" in condition) {
+    return (track.artists ?? []).some((artist) => matchesReference(artist, condition.artist));
+  }
+
+  if ("album" in condition) {
+    return track.album !== undefined && matchesReference(track.album, condition.album);
+  }
+
+  if ("releaseYear" in condition) {
+    const year = track.album?.release_date ? Number(track.album.release_date.slice(0, 4)) : undefined;
+    return inRange(year, condition.releaseYear);
+  }
+
+  if ("durationSeconds" in condition) {
+    return inRange(track.duration_ms === undefined ? undefined : track.duration_ms / 1000, condition.durationSeconds);
+  }
+
+  if ("likedAt" in condition) {
+    const likedAt = Date.parse(item.added_at);
+    const { after, before, withinDays } = condition.likedAt;
+    return (
+      Number.isFinite(likedAt) &&
+      (after === undefined || likedAt >= Date.parse(after)) &&
+      (before === undefined || likedAt < Date.parse(before)) &&
+      (withinDays === undefined || likedAt >= now.getTime() - withinDays * DAY_MS)
+    );
+  }
+
+  return condition.uris.includes(track.uri);
+}
+
+/**
+ * Checks whether a condition, or any condition nested in it, keeps or drops
+ * tracks by how long ago they were liked (`likedAt.withinDays`).
+ *
+ * @param {TrackCondition} condition - The condition to check.
+ * @returns {boolean} True if the condition depends on the current time.
+ */
+function usesRelativeLikedAt(condition: TrackCondition): boolean {
+  if ("all" in condition) {
+    return condition.all.some(usesRelativeLikedAt);
+  }
+
+  if ("any" in condition) {
+    return condition.any.some(usesRelativeLikedAt);
+  }
+
+  if ("not" in condition) {
+    return usesRelativeLikedAt(condition.not);
+  }
+
+  return "likedAt" in condition && condition.likedAt.withinDays !== undefined;
+}
+
+/**
+ * Finds the first rule that selects by how long ago a track was liked, and
+ * so selects differently as time passes even when nothing is liked or
+ * unliked.
+ *
+ * @param {FilterRule[]} rules - The target's rules.
+ * @returns {FilterRule | null} The first rule using `likedAt.withinDays`, or null if none does.
+ */
+export function findRelativeLikedAtRule(rules: FilterRule[]): FilterRule | null {
+  return rules.find((rule) => usesRelativeLikedAt(rule.condition)) ?? null;
+}
+
+/**
+ * Runs a track through a target's rules in order and returns the first rule
+ * that drops it.
+ *
+ * @param {FilterRule[]} rules - The target's rules.
+ * @param {SavedTrackItem} item - The liked track; its `track` must be non-null.
+ * @param {Date} now - Reference time for liked-date windows.
+ * @returns {FilterRule | null} The rule that excluded the track, or null if every rule keeps it.
+ */
+export function findExcludingRule(rules: FilterRule[], item: SavedTrackItem, now: Date): FilterRule | null {
+  for (const rule of rules) {
+    const matches = matchesCondition(rule.condition, item, now);
+    if (matches === (rule.action === "exclude")) {
+      return rule;
+    }
+  }
+
+  return null;
+}
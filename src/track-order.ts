@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import type { SpotifyTrack } from "./types";
+
+/**
+ * Order in which a target lists its tracks:
+ * - `newest-first` / `oldest-first`: by liked date.
+ * - `artist-album-track`: by primary artist, then album, then disc and track number.
+ * - `release-date`: by album release date, oldest release first.
+ * - `duration`: by track length, shortest first.
+ * - `shuffle`: a pseudo-random order fixed by the target's shuffle seed.
+ */
+export type MirrorOrder =
+  | "newest-first"
+  | "oldest-first"
+  | "artist-album-track"
+  | "release-date"
+  | "duration"
+  | "shuffle";
+
+export const MIRROR_ORDERS: MirrorOrder[] = [
+  "newest-first",
+  "oldest-first",
+  "artist-album-track",
+  "release-date",
+  "duration",
+  "shuffle"
+];
+
+/**
+ * Compares two optional sort keys, placing missing keys last.
+ *
+ * @param {T | undefined} a - First key.
+ * @param {T | undefined} b - Second key.
+ * @param {(a: T, b: T) => number} compare - Comparison for present keys.
+ * @returns {number} Negative, zero, or positive as for `Array.prototype.sort`.
+ */
+function compareOptional<T>(a: T | undefined, b: T | undefined, compare: (a: T, b: T) => number): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+
+  return compare(a, b);
+}
+
+const compareText = (a: string, b: string): number => a.localeCompare(b, "en", { sensitivity: "base" });
+const compareNumber = (a: number, b: number): number => a - b;
+const compareOrdinal = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Derives a track's shuffle key from the seed and its URI alone, so a track
+ * keeps its place relative to the others when tracks are added or removed.
+ *
+ * @param {string} seed - The target's shuffle seed.
+ * @param {string} uri - The track URI.
+ * @returns {string} Hex digest used as the sort key.
+ */
+function shuffleKey(seed: string, uri: string): string {
+  return createHash("sha256").update(`${seed}\n${uri}`).digest("hex");
+}
+
+/**
+ * Arranges candidate tracks (which arrive newest-liked first) in a target's
+ * order. Sorting is stable, so ties, and tracks missing the metadata an
+ * ordering needs (which sort last), keep their newest-liked-first order.
+ *
+ * @param {SpotifyTrack[]} tracks - Candidate tracks in liked order, newest first.
+ * @param {MirrorOrder} order - The target's ordering mode.
+ * @param {string} shuffleSeed - Seed for the `shuffle` order; ignored by other orders.
+ * @returns {SpotifyTrack[]} A new array in the order the mirror should list the tracks.
+ */
+export function orderTracks(tracks: SpotifyTrack[], order: MirrorOrder, shuffleSeed: string): SpotifyTrack[] {
+  switch (order) {
+    case "newest-first":
+      return [...tracks];
+    case "oldest-first":
+      return [...tracks].reverse();
+    case "artist-album-track":
+      return [...tracks].sort(
+        (a, b) =>
+          compareOptional(a.artists?.[0]?.name, b.artists?.[0]?.name, compareText) ||
+          compareOptional(a.album?.name, b.album?.name, compareText) ||
+          compareOptional(a.disc_number, b.disc_number, compareNumber) ||
+          compareOptional(a.track_number, b.track_number, compareNumber)
+      );
+    case "release-date":
+      // Spotify dates are "YYYY", "YYYY-MM" or "YYYY-MM-DD", which sort correctly as strings.
+      return [...tracks].sort((a, b) =>
+        compareOptional(a.album?.release_date ?? undefined, b.album?.release_date ?? undefined, compareOrdinal)
+      );
+    case "duration":
+      return [...tracks].sort((a, b) => compareOptional(a.duration_ms, b.duration_ms, compareNumber));
+    case "shuffle": {
+      const keys = new Map(tracks.map((track) => [track.uri, shuffleKey(shuffleSeed, track.uri)]));
+      return [...tracks].sort((a, b) => compareOrdinal(keys.get(a.uri)!, keys.get(b.uri)!));
+    }
+  }
+}
+
+/**
+ * Arranges candidate tracks album by album: each album's tracks stay
+ * together in the order they arrive (the album's own order), and the albums
+ * follow the order in which `order` would first list one of their tracks.
+ * Tracks without an album form a section of their own.
+ *
+ * @param {SpotifyTrack[]} tracks - Candidate tracks, newest saved album first and each album in track order.
+ * @param {MirrorOrder} order - The target's ordering mode, applied to the albums.
+ * @param {string} shuffleSeed - Seed for the `shuffle` order; ignored by other orders.
+ * @returns {SpotifyTrack[]} A new array in the order the mirror should list the tracks.
+ */
+export function orderAlbumSections(tracks: SpotifyTrack[], order: MirrorOrder, shuffleSeed: string): SpotifyTrack[] {
+  const sectionOf = (track: SpotifyTrack) => track.album?.uri ?? track.uri;
+  const rank = new Map<string, number>();
+  for (const track of orderTracks(tracks, order, shuffleSeed)) {
+    if (!rank.has(sectionOf(track))) {
+      rank.set(sectionOf(track), rank.size);
+    }
+  }
+
+  return [...tracks].sort((a, b) => rank.get(sectionOf(a))! - rank.get(sectionOf(b))!);
+}
@@ -0,0 +1,320 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger";
+import type { SpotifyClient } from "./spotify-client";
+import type { PlaylistItem, SavedAlbumItem, SavedEpisodeItem, SavedTrackItem } from "./types";
+
+/**
+ * How a saved-albums target lists its tracks:
+ * - `tracks`: every album track is a candidate of its own, arranged by the target's order.
+ * - `albums`: each album stays together as a section in its own track order; the target's
+ *   order arranges the sections.
+ */
+export type AlbumLayout = "tracks" | "albums";
+
+export const ALBUM_LAYOUTS: AlbumLayout[] = ["tracks", "albums"];
+
+/**
+ * Where a target's tracks come from:
+ * - `liked-songs`, `saved-albums`, `saved-episodes`: the user's library.
+ * - `playlist`: any playlist the user can read (owned, collaborative or public).
+ * - `uri-file`: a static list of track and episode URIs, one per line.
+ * - `union`, `intersection`, `difference`: combinations of other sources.
+ */
+export type TargetSource =
+  | { type: "liked-songs" }
+  | { type: "saved-albums"; layout: AlbumLayout }
+  | { type: "saved-episodes" }
+  | { type: "playlist"; playlistId: string }
+  | { type: "uri-file"; path: string }
+  | { type: "union"; sources: TargetSource[] }
+  | { type: "intersection"; sources: TargetSource[] }
+  | { type: "difference"; from: TargetSource; minus: TargetSource[] };
+
+export type SourceType = TargetSource["type"];
+
+export const SOURCE_TYPES: SourceType[] = [
+  "liked-songs",
+  "saved-albums",
+  "saved-episodes",
+  "playlist",
+  "uri-file",
+  "union",
+  "intersection",
+  "difference"
+];
+
+/** A source read directly rather than combined from others. */
+export type SingleSource = Exclude<TargetSource, { type: "union" | "intersection" | "difference" }>;
+
+/**
+ * Reads a single source's entries. Those from `createSourceReader` read each
+ * source at most once per run.
+ */
+export type SourceReader = (source: SingleSource) => Promise<SavedTrackItem[]>;
+
+/** Date given to entries whose source does not record one (URI lists and some old playlist entries). */
+const UNDATED = new Date(0).toISOString();
+
+const URI_LIST_PATTERN = /^spotify:(track|episode):[A-Za-z0-9]+$/;
+
+/**
+ * Describes a source in a compact form, e.g. `difference(liked-songs,
+ * playlist:37i9dQZF1DX0XUsuxWHRQd)`, used in the state file, the run summary
+ * and logs.
+ *
+ * @param {TargetSource} source - The source to describe.
+ * @returns {string} The description.
+ */
+export function describeSource(source: TargetSource): string {
+  switch (source.type) {
+    case "playlist":
+      return `playlist:${source.playlistId}`;
+    case "uri-file":
+      return `uri-file:${source.path}`;
+    case "union":
+    case "intersection":
+      return `${source.type}(${source.sources.map(describeSource).join(", ")})`;
+    case "difference":
+      return `difference(${[source.from, ...source.minus].map(describeSource).join(", ")})`;
+    default:
+      return source.type;
+  }
+}
+
+/**
+ * Checks whether a source is, or is combined from, a source of the given type.
+ *
+ * @param {TargetSource} source - The source to check.
+ * @param {SourceType} type - The source type to look for.
+ * @returns {boolean} True if the source reads from a source of that type.
+ */
+export function sourceUses(source: TargetSource, type: SourceType): boolean {
+  switch (source.type) {
+    case "union":
+    case "intersection":
+      return source.type === type || source.sources.some((part) => sourceUses(part, type));
+    case "difference":
+      return type === "difference" || [source.from, ...source.minus].some((part) => sourceUses(part, type));
+    default:
+      return source.type === type;
+  }
+}
+
+/**
+ * Collects the URIs of a source's resolved entries.
+ *
+ * @param {SavedTrackItem[]} items - The entries.
+ * @returns {Set<string>} Their URIs.
+ */
+function uriSet(items: SavedTrackItem[]): Set<string> {
+  return new Set(items.flatMap((item) => (item.track ? [item.track.uri] : [])));
+}
+
+/**
+ * Reads a source's entries, combining other sources as the source requires:
+ * a union lists every source's entries, most recently added first (entries
+ * added at the same time keep the declared order); an intersection keeps the
+ * first source's entries found in all the others; a difference keeps the
+ * `from` source's entries found in none of the `minus` sources. Both keep the
+ * order of the source they filter.
+ *
+ * @param {TargetSource} source - The source to read.
+ * @param {SourceReader} reader - Reads the single sources.
+ * @returns {Promise<SavedTrackItem[]>} The source's entries.
+ * @throws {Error} If a single source cannot be read.
+ */
+export async function readSource(source: TargetSource, reader: SourceReader): Promise<SavedTrackItem[]> {
+  const readAll = async (sources: TargetSource[]) => {
+    const lists: SavedTrackItem[][] = [];
+    for (const part of sources) {
+      lists.push(await readSource(part, reader));
+    }
+
+    return lists;
+  };
+
+  switch (source.type) {
+    case "union":
+      return (await readAll(source.sources)).flat().sort((a, b) => Date.parse(b.added_at) - Date.parse(a.added_at));
+    case "intersection": {
+      const [first, ...others] = await readAll(source.sources);
+      const otherUris = others.map(uriSet);
+      return first.filter((item) => item.track && otherUris.every((uris) => uris.has(item.track!.uri)));
+    }
+    case "difference": {
+      const from = await readSource(source.from, reader);
+      const excluded = uriSet((await readAll(source.minus)).flat());
+      return from.filter((item) => !item.track || !excluded.has(item.track.uri));
+    }
+    default:
+      return reader(source);
+  }
+}
+
+/**
+ * Creates the reader for one sync run. Liked songs are fetched by the caller
+ * (so substitutions apply to them); every other source is fetched the first
+ * time it is read and reused after that.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to call the Spotify API.
+ * @param {SavedTrackItem[]} likedTracks - The liked tracks of the run, newest first.
+ * @returns {SourceReader} The run's reader.
+ */
+export function createSourceReader(spotifyClient: SpotifyClient, likedTracks: SavedTrackItem[]): SourceReader {
+  const cache = new Map<string, Promise<SavedTrackItem[]>>();
+
+  const fetchSource = async (source: SingleSource): Promise<SavedTrackItem[]> => {
+    switch (source.type) {
+      case "liked-songs":
+        return likedTracks;
+      case "saved-albums":
+        logger.info("Stage: fetching saved albums.");
+        return savedAlbumTracks(await spotifyClient.fetchAllSavedAlbums());
+      case "saved-episodes":
+        logger.info("Stage: fetching saved episodes.");
+        return savedEpisodeTracks(await spotifyClient.fetchAllSavedEpisodes());
+      case "playlist":
+        logger.info(`Stage: fetching source playlist (playlistId=${source.playlistId}).`);
+        return playlistTracks(await spotifyClient.fetchAllPlaylistItems(source.playlistId));
+      case "uri-file":
+        logger.info(`Stage: reading URI list (${source.path}).`);
+        return readUriFile(source.path);
+    }
+  };
+
+  return (source) => {
+    const key = describeSource(source);
+    if (!cache.has(key)) {
+      cache.set(key, fetchSource(source));
+    }
+
+    return cache.get(key)!;
+  };
+}
+
+/**
+ * Converts playlist items into entries, in playlist order, dated by when
+ * each was added to the playlist. Episodes keep only the fields a playlist
+ * returns for them.
+ *
+ * @param {PlaylistItem[]} items - The playlist's items, from `fetchAllPlaylistItems`.
+ * @returns {SavedTrackItem[]} One entry per item; unavailable items have a `null` track.
+ */
+export function playlistTracks(items: PlaylistItem[]): SavedTrackItem[] {
+  return items.map(({ added_at, item }) => {
+    const addedAt = added_at ?? UNDATED;
+    if (!item) {
+      return { added_at: addedAt, track: null };
+    }
+
+    if (item.type === "episode") {
+      return { added_at: addedAt, track: { id: item.id ?? item.uri, uri: item.uri, name: item.name } };
+    }
+
+    return { added_at: addedAt, track: { ...item, id: item.id ?? item.uri } };
+  });
+}
+
+/**
+ * Parses a URI list: one `spotify:track:` or `spotify:episode:` URI per
+ * line, with blank lines and lines starting with `#` ignored. The entries
+ * carry no metadata or dates.
+ *
+ * @param {string} text - The list's contents.
+ * @returns {SavedTrackItem[]} One entry per URI, in list order.
+ * @throws {Error} If a line is not a track or episode URI.
+ */
+export function parseUriList(text: string): SavedTrackItem[] {
+  return text.split(/\r?\n/).flatMap((line, index) => {
+    const uri = line.trim();
+    if (!uri || uri.startsWith("#")) {
+      return [];
+    }
+
+    if (!URI_LIST_PATTERN.test(uri)) {
+      throw new Error(`Line ${index + 1} is not a Spotify track or episode URI: ${uri}`);
+    }
+
+    return [{ added_at: UNDATED, track: { id: uri.slice(uri.lastIndexOf(":") + 1), uri } }];
+  });
+}
+
+/**
+ * Reads a URI list file, resolving a relative path against the working
+ * directory.
+ *
+ * @param {string} filePath - Path of the list file.
+ * @returns {Promise<SavedTrackItem[]>} The listed entries.
+ * @throws {Error} If the file cannot be read or a line is invalid.
+ */
+async function readUriFile(filePath: string): Promise<SavedTrackItem[]> {
+  const resolved = path.resolve(process.cwd(), filePath);
+  let text: string;
+  try {
+    text = await fs.readFile(resolved, "utf8");
+  } catch (error) {
+    throw new Error(`Failed to read URI list (${resolved}): ${(error as Error).message}`);
+  }
+
+  try {
+    return parseUriList(text);
+  } catch (error) {
+    throw new Error(`Invalid URI list (${resolved}): ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Expands saved albums (newest save first) into one entry per album track,
+ * in album order, each dated by when its album was saved and carrying a
+ * reference to its album, so the tracks go through the same skip, filter and
+ * order logic as liked tracks.
+ *
+ * @param {SavedAlbumItem[]} albums - The saved albums, from `fetchAllSavedAlbums`.
+ * @returns {SavedTrackItem[]} The albums' tracks, newest saved album first.
+ */
+export function savedAlbumTracks(albums: SavedAlbumItem[]): SavedTrackItem[] {
+  return albums.flatMap(({ added_at, album }) => {
+    const reference = {
+      id: album.id,
+      uri: album.uri,
+      name: album.name,
+      release_date: album.release_date,
+      external_urls: album.external_urls
+    };
+
+    return album.tracks.items.map((track) => ({ added_at, track: { ...track, album: reference } }));
+  });
+}
+
+/**
+ * Converts saved episodes (newest save first) into entries the track logic
+ * can consume. The episode's show stands in for both the artist and the
+ * album, and its publication date for the release date, so artist, album
+ * and release-year filter rules apply to the show and its episodes.
+ *
+ * @param {SavedEpisodeItem[]} episodes - The saved episodes, from `fetchAllSavedEpisodes`.
+ * @returns {SavedTrackItem[]} One entry per saved episode, in the same order; unresolved episodes have a `null` track.
+ */
+export function savedEpisodeTracks(episodes: SavedEpisodeItem[]): SavedTrackItem[] {
+  return episodes.map(({ added_at, episode }) => {
+    if (!episode) {
+      return { added_at, track: null };
+    }
+
+    const show = { id: episode.show.id, uri: episode.show.uri, name: episode.show.name };
+    return {
+      added_at,
+      track: {
+        id: episode.id,
+        uri: episode.uri,
+        name: episode.name,
+        artists: [show],
+        explicit: episode.explicit,
+        duration_ms: episode.duration_ms,
+        album: { ...show, release_date: episode.release_date ?? null },
+        is_playable: episode.is_playable
+      }
+    };
+  });
+}
@@ -0,0 +1,138 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger";
+import { SpotifyClient } from "./spotify-client";
+import type { SavedTrackItem, SpotifyTrack, SubstitutionMatch, TrackSubstitution } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days a cached lookup is reused before the catalog is searched again. */
+export const SUBSTITUTION_CACHE_TTL_DAYS = 7;
+
+/**
+ * Cached result of looking up a playable equivalent for one unplayable track.
+ */
+export interface SubstitutionCacheEntry {
+  /** The playable substitute, or `null` if none was found. */
+  substitute: SpotifyTrack | null;
+  matchedBy: SubstitutionMatch | null;
+  /** ISO-8601 timestamp of the lookup. */
+  resolvedAt: string;
+}
+
+/**
+ * On-disk cache of substitute lookups, keyed by the unplayable track's URI.
+ */
+export interface SubstitutionCache {
+  entries: Record<string, SubstitutionCacheEntry>;
+}
+
+/**
+ * Reads the substitution cache from disk. A missing or malformed file yields
+ * an empty cache, since every entry can be looked up again.
+ *
+ * @param {string} cacheFilePath - Absolute path to the cache JSON file.
+ * @returns {Promise<SubstitutionCache>} The cached lookups.
+ * @throws {Error} If the file exists but cannot be read for a reason other than absence.
+ */
+export async function readSubstitutionCache(cacheFilePath: string): Promise<SubstitutionCache> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(cacheFilePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { entries: {} };
+    }
+
+    throw new Error(`Failed to read substitution cache (${cacheFilePath}): ${(error as Error).message}`);
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<SubstitutionCache>;
+    return { entries: typeof parsed.entries === "object" && parsed.entries !== null ? parsed.entries : {} };
+  } catch {
+    logger.warn(`Substitution cache ${cacheFilePath} is not valid JSON. Starting with an empty cache.`);
+    return { entries: {} };
+  }
+}
+
+/**
+ * Persists the substitution cache to disk as pretty-printed JSON, creating
+ * any missing parent directories.
+ *
+ * @param {string} cacheFilePath - Absolute path to the cache JSON file.
+ * @param {SubstitutionCache} cache - The cache to persist.
+ * @returns {Promise<void>} Resolves once the cache has been written.
+ */
+export async function writeSubstitutionCache(cacheFilePath: string, cache: SubstitutionCache): Promise<void> {
+  await fs.mkdir(path.dirname(cacheFilePath), { recursive: true });
+  await fs.writeFile(cacheFilePath, `${JSON.stringify(cache, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Replaces unplayable liked tracks with a playable release of the same
+ * recording, keeping each like's date so filters, windows and ordering treat
+ * the substitute as the original. Lookups are served from the cache while
+ * fresh; the returned cache holds only entries for tracks that are still
+ * liked and unplayable, so it does not grow without bound.
+ *
+ * @param {SpotifyClient} spotifyClient - The client used to search the catalog.
+ * @param {SavedTrackItem[]} likedTracks - Liked tracks, newest first.
+ * @param {SubstitutionCache} cache - Previously cached lookups.
+ * @param {Date} now - Reference time for cache freshness and new entries.
+ * @returns {Promise<{ likedTracks: SavedTrackItem[]; cache: SubstitutionCache; substitutions: TrackSubstitution[]; unresolvedTracks: Array<{ uri: string; name: string | null }> }>}
+ *   The liked tracks with substitutes applied, the next cache, and what was (and was not) substituted.
+ * @throws {SpotifyApiError} If a search request fails.
+ */
+export async function substituteUnplayableTracks(
+  spotifyClient: SpotifyClient,
+  likedTracks: SavedTrackItem[],
+  cache: SubstitutionCache,
+  now: Date
+): Promise<{
+  likedTracks: SavedTrackItem[];
+  cache: SubstitutionCache;
+  substitutions: TrackSubstitution[];
+  unresolvedTracks: Array<{ uri: string; name: string | null }>;
+}> {
+  const nextCache: SubstitutionCache = { entries: {} };
+  const substitutions: TrackSubstitution[] = [];
+  const unresolvedTracks: Array<{ uri: string; name: string | null }> = [];
+  const result: SavedTrackItem[] = [];
+
+  for (const item of likedTracks) {
+    const track = item.track;
+    if (!track?.uri || track.is_local === true || track.is_playable !== false) {
+      result.push(item);
+      continue;
+    }
+
+    let entry = nextCache.entries[track.uri] ?? cache.entries[track.uri];
+    if (!entry || now.getTime() - Date.parse(entry.resolvedAt) >= SUBSTITUTION_CACHE_TTL_DAYS * DAY_MS) {
+      logger.info(`Stage: looking up a playable equivalent (uri=${track.uri}).`);
+      const found = await spotifyClient.findPlayableEquivalent(track);
+      entry = {
+        substitute: found?.track ?? null,
+        matchedBy: found?.matchedBy ?? null,
+        resolvedAt: now.toISOString()
+      };
+    }
+
+    nextCache.entries[track.uri] = entry;
+
+    if (entry.substitute && entry.matchedBy) {
+      substitutions.push({
+        originalUri: track.uri,
+        substituteUri: entry.substitute.uri,
+        name: track.name ?? null,
+        matchedBy: entry.matchedBy
+      });
+      result.push({ ...item, track: entry.substitute });
+    } else {
+      unresolvedTracks.push({ uri: track.uri, name: track.name ?? null });
+      result.push(item);
+    }
+  }
+
+  return { likedTracks: result, cache: nextCache, substitutions, unresolvedTracks };
+}
@@ -1,9 +1,135 @@
+import type { DetectedDrift } from "./mirror-drift";
+import type { MirrorOrder } from "./track-order";
+
 /**
- * Application state persisted to disk between sync runs (see `state-store.ts`).
+ * Persisted state for a single mirror target.
  */
-export interface AppState {
+export interface TargetState {
   /** ID of the mirror playlist created on a previous run, or `null` if one has not been created yet. */
   playlistId: string | null;
+  /**
+   * IDs of the target's part playlists from part 2 onward, when the mirror is
+   * larger than one playlist may hold. Absent for single-playlist targets.
+   */
+  partPlaylistIds?: string[];
+  /** For archive targets, the playlist ID of each period (e.g. `2026-10`). Absent until one is created. */
+  archivePlaylistIds?: Record<string, string>;
+  /** SHA-256 of the managed cover image last uploaded to each playlist, keyed by playlist ID. */
+  coverHashes?: Record<string, string>;
+  /** What the bot last left in each playlist, keyed by playlist ID; kept while drift detection is on. */
+  snapshots?: Record<string, PlaylistSnapshot>;
+  /** Number of tracks the target selected on the last run that was written. */
+  candidateCount?: number;
+  /** The source that backed the target on the last run, as described by `describeSource`. */
+  source?: string;
+}
+
+/**
+ * What the bot last left in a playlist, used to spot edits made by hand.
+ */
+export interface PlaylistSnapshot {
+  /** Spotify snapshot ID after the bot's last write, when known. */
+  snapshotId: string | null;
+  uris: string[];
+  /** Manually added tracks kept in place under the `keep-additions` drift policy. */
+  pinnedUris?: string[];
+}
+
+/**
+ * What the previous run knew about a liked track, kept so the track can still
+ * be labeled after it is unliked.
+ */
+export interface LikedTrackState {
+  name: string | null;
+  /** Credited artist names, primary artist first. */
+  artists: string[];
+  /** ISO-8601 timestamp of the like. */
+  likedAt: string;
+}
+
+/**
+ * A track in the graveyard playlist of recently unliked tracks.
+ */
+export interface GraveyardTrack extends LikedTrackState {
+  uri: string;
+  /** ISO-8601 timestamp of the run that noticed the track was no longer liked. */
+  unlikedAt: string;
+}
+
+/**
+ * Persisted state of the graveyard playlist.
+ */
+export interface GraveyardState {
+  /** ID of the graveyard playlist, or `null` if it has not been created yet. */
+  playlistId: string | null;
+  /** Tracks in the graveyard, oldest unlike first (the playlist's order). */
+  tracks: GraveyardTrack[];
+}
+
+/**
+ * What the last full sync saw of the library and its playlists, compared
+ * against on the next run to skip a sync with nothing to do.
+ */
+export interface LibraryFingerprint {
+  /** Number of liked tracks. */
+  total: number;
+  /** ISO-8601 timestamp of the newest like, or `null` for an empty library. */
+  newestAddedAt: string | null;
+  /** Track IDs on the first page of liked tracks, newest first (`null` for local files). */
+  firstPageTrackIds: Array<string | null>;
+  /** Snapshot ID of each playlist the bot manages, keyed by playlist ID. */
+  playlistSnapshots: Record<string, string>;
+  /** Hash of the sync settings the fingerprint was taken under; a config change forces a full sync. */
+  configHash: string;
+  /** ISO-8601 timestamp of the full sync that took the fingerprint. */
+  reconciledAt: string;
+}
+
+/**
+ * Application state persisted to disk between sync runs (see `state-store.ts`).
+ */
+export interface AppState {
+  /** Per-target state, keyed by the target's `key` from the mirror config. */
+  targets: Record<string, TargetState>;
+  /**
+   * The liked tracks seen by the previous run, keyed by URI. Only recorded
+   * while a graveyard is configured, to detect unlikes.
+   */
+  likedTracks?: Record<string, LikedTrackState>;
+  /** Graveyard playlist state; absent while no graveyard is configured. */
+  graveyard?: GraveyardState;
+  /**
+   * How many liked songs the library held on the previous run, for the
+   * mass-removal check. Only recorded while a safety limit is set.
+   */
+  likedCount?: number;
+  /** Fingerprint of the last full sync; absent when runs cannot be skipped or none was recorded. */
+  fingerprint?: LibraryFingerprint;
+  /**
+   * Each profile's own state, keyed by profile name, when several accounts
+   * are synced (`SPOTIFY_PROFILES`). Only present at the top level.
+   */
+  profiles?: Record<string, AppState>;
+}
+
+/**
+ * Who can see a mirror playlist. A `collaborative` playlist is private, but
+ * anyone it is shared with can edit it.
+ */
+export type PlaylistVisibility = "public" | "private" | "collaborative";
+
+/**
+ * A playlist's identity and editable details, as returned by `GET /v1/playlists/{id}`.
+ */
+export interface PlaylistSummary {
+  id: string;
+  snapshot_id: string;
+  name?: string;
+  /** The description, HTML-escaped by Spotify; `null` when unset. */
+  description?: string | null;
+  /** Whether the playlist is public; `null` when Spotify does not report it. */
+  public?: boolean | null;
+  collaborative?: boolean;
 }
 
 /**
@@ -24,6 +150,22 @@ export interface SpotifyTrack {
   id: string;
   /** Spotify URI for the track (e.g. `spotify:track:...`), used when writing playlist items. */
   uri: string;
+  /** Track title. */
+  name?: string;
+  /** Credited artists, primary artist first. */
+  artists?: SpotifyArtistReference[];
+  /** `true` if the track has explicit lyrics. */
+  explicit?: boolean;
+  /** Track length in milliseconds. */
+  duration_ms?: number;
+  /** External identifiers; `isrc` identifies the recording across releases. */
+  external_ids?: { isrc?: string };
+  /** Album the track appears on. */
+  album?: SpotifyAlbumReference;
+  /** Disc number on the album (usually 1). */
+  disc_number?: number;
+  /** Position of the track on its disc, starting at 1. */
+  track_number?: number;
   /** `true` if this is a local file rather than a catalog track. */
   is_local?: boolean;
   /**
@@ -43,6 +185,74 @@ export interface SavedTrackItem {
   track: SpotifyTrack | null;
 }
 
+/**
+ * A saved album with its tracks, as returned by `GET /v1/me/albums`.
+ */
+export interface SpotifySavedAlbum extends SpotifyAlbumReference {
+  artists?: SpotifyArtistReference[];
+  /**
+   * The album's tracks (without an `album` of their own). Albums longer than
+   * one page continue at `tracks.next`.
+   */
+  tracks: PagingResponse<SpotifyTrack>;
+}
+
+/**
+ * A single item from the `/v1/me/albums` (saved albums) endpoint.
+ */
+export interface SavedAlbumItem {
+  /** ISO-8601 timestamp of when the album was saved. */
+  added_at: string;
+  album: SpotifySavedAlbum;
+}
+
+/**
+ * A podcast episode, as returned by `GET /v1/me/episodes`.
+ */
+export interface SpotifyEpisode {
+  id: string;
+  uri: string;
+  name: string;
+  duration_ms?: number;
+  explicit?: boolean;
+  /** Date the episode was published ("YYYY", "YYYY-MM" or "YYYY-MM-DD"). */
+  release_date?: string;
+  /** Only populated when the request includes a `market` query parameter. */
+  is_playable?: boolean | null;
+  show: {
+    id: string;
+    uri: string;
+    name: string;
+    publisher?: string;
+  };
+}
+
+/**
+ * A single item from the `/v1/me/episodes` (saved episodes) endpoint.
+ */
+export interface SavedEpisodeItem {
+  /** ISO-8601 timestamp of when the episode was saved. */
+  added_at: string;
+  /** The saved episode, or `null` if Spotify could not resolve it. */
+  episode: SpotifyEpisode | null;
+}
+
+/**
+ * Why a liked track was left out of the mirror.
+ */
+export type SkipReason = "unavailable" | "local" | "unplayable";
+
+/**
+ * A liked track that was left out of the mirror, with the reason.
+ */
+export interface SkippedTrack {
+  /** Spotify URI of the track, or `null` if Spotify could not resolve it. */
+  uri: string | null;
+  /** Track title, when known. */
+  name: string | null;
+  reason: SkipReason;
+}
+
 /**
  * Public Spotify link attached to exported catalogue entities.
  */
@@ -91,7 +301,7 @@ export interface SpotifyPlaylistTrack {
 }
 
 /**
- * Minimal episode shape used to identify and exclude non-track playlist items.
+ * Minimal episode shape used to identify non-track playlist items.
  */
 export interface SpotifyPlaylistEpisode {
   type: "episode";
@@ -127,19 +337,169 @@ export interface PagingResponse<T> {
 }
 
 /**
- * Summary of a completed sync run, used for logging and the process exit summary.
+ * Number of tracks a target's filter rule dropped during a sync run.
  */
-export interface SyncSummary {
-  /** ID of the mirror playlist that was synced. */
-  playlistId: string;
-  /** `true` if the mirror playlist did not already exist and was created during this run. */
+export interface RuleExclusion {
+  /** Name of the filter rule. */
+  rule: string;
+  /** Number of playable liked tracks the rule was first to exclude. */
+  excludedCount: number;
+}
+
+/**
+ * Summary of one target within a sync run.
+ */
+export interface TargetSyncSummary {
+  /** Key of the mirror target. */
+  key: string;
+  /** The source the target mirrors, e.g. `liked-songs` or `difference(liked-songs, playlist:ID)`. */
+  source: string;
+  /**
+   * ID of the (first part) mirror playlist that was synced, or `null` for an
+   * archive target or during a dry run that would create it.
+   */
+  playlistId: string | null;
+  /** Ordering mode the mirror was arranged in. */
+  order: MirrorOrder;
+  /** Seed used when `order` is `shuffle`, otherwise `null`. */
+  shuffleSeed: string | null;
+  /** `true` if any part playlist did not already exist and was (or, in a dry run, would be) created. */
   createdPlaylist: boolean;
-  /** Total number of liked (saved) tracks fetched. */
-  likedCount: number;
-  /** Number of liked tracks that passed the skip filter and were candidates for mirroring. */
+  /** Number of playlists the mirror is spread over (1 unless it exceeds the per-playlist limit; 0 for archives). */
+  partCount: number;
+  /** Number of surplus part playlists emptied and unfollowed because the mirror shrank. */
+  retiredPartCount: number;
+  /** Number of archive periods with a playlist (0 for regular mirrors). */
+  periodCount: number;
+  /** Number of closed archive periods left untouched this run. */
+  frozenPeriodCount: number;
+  /** Number of liked tracks that passed the skip filter and the target's filter. */
   candidateCount: number;
-  /** Number of tracks actually written to the mirror playlist. */
+  /** Number of tracks the mirror holds, across all parts, once the sync has been applied. */
   mirroredCount: number;
   /** Number of liked tracks skipped (unavailable, unplayable, or local). */
   skippedCount: number;
+  /** Number of playable liked tracks excluded by the target's filter rules. */
+  filteredCount: number;
+  /** Per-rule breakdown of `filteredCount`, in rule order. */
+  ruleExclusions: RuleExclusion[];
+  /** Likes collapsed into another release of the same recording (empty unless dedupe is enabled). */
+  duplicates: CollapsedDuplicate[];
+  /** Playlists edited outside the bot since the previous run (empty unless drift detection is on). */
+  drift: PlaylistDrift[];
+  /** Number of tracks inserted into the mirror playlist during this run. */
+  addedCount: number;
+  /** Number of entries removed from the mirror playlist during this run. */
+  removedCount: number;
+  /** Number of tracks repositioned within the mirror playlist during this run. */
+  movedCount: number;
+}
+
+/**
+ * Edits made to a playlist outside the bot, and what the run did about them.
+ */
+export interface PlaylistDrift extends DetectedDrift {
+  playlistId: string;
+  action: "overwritten" | "kept-additions" | "stopped";
+}
+
+/**
+ * A removal refused because it exceeds the mass-removal limits.
+ */
+export interface SafetyViolation {
+  /** Key of the mirror target. */
+  target: string;
+  /**
+   * The playlist the tracks would be removed from, or `null` when the
+   * target's selection shrank compared with the previous run.
+   */
+  playlistId: string | null;
+  /** Tracks in the playlist (or, for the selection, selected by the previous run). */
+  previousCount: number;
+  removedCount: number;
+  /** The exceeded limit, e.g. `maxRemovedPercent=50`. */
+  limit: string;
+  /**
+   * Set when the liked songs library shrank rather than a target: `unliked`
+   * counts the tracks liked on the previous run that the graveyard would take
+   * in (`target` is then `graveyard`), and `total` compares the library's
+   * total with the previous run's.
+   */
+  library?: "unliked" | "total";
+}
+
+/**
+ * Result of syncing the graveyard playlist within a sync run.
+ */
+export interface GraveyardSyncSummary {
+  /** ID of the graveyard playlist, or `null` during a dry run that would create it. */
+  playlistId: string | null;
+  /** Number of tracks found unliked since the previous run and moved to the graveyard. */
+  unlikedCount: number;
+  /** Number of graveyard tracks dropped because they were liked again. */
+  relikedCount: number;
+  /** Number of graveyard tracks dropped by the retention limits. */
+  expiredCount: number;
+  /** Number of tracks the graveyard holds once the sync has been applied. */
+  trackCount: number;
+  addedCount: number;
+  removedCount: number;
+  movedCount: number;
+}
+
+/**
+ * A like dropped because another release of the same recording was kept.
+ */
+export interface CollapsedDuplicate {
+  /** URI of the release that stays in the mirror. */
+  keptUri: string;
+  droppedUri: string;
+  /** Title of the dropped release, when known. */
+  name: string | null;
+  matchedBy: "isrc" | "title-artist-duration";
+}
+
+/** How a playable substitute for an unplayable liked track was found. */
+export type SubstitutionMatch = "isrc" | "name-artist";
+
+/**
+ * An unplayable liked track mirrored as a playable release of the same recording.
+ */
+export interface TrackSubstitution {
+  originalUri: string;
+  substituteUri: string;
+  /** Track title, when known. */
+  name: string | null;
+  matchedBy: SubstitutionMatch;
+}
+
+/**
+ * Summary of a completed sync run, used for logging and the process exit summary.
+ */
+export interface SyncSummary {
+  /**
+   * Total number of liked (saved) tracks fetched. When every target has a
+   * rolling window, only the pages those windows need are fetched.
+   */
+  likedCount: number;
+  /** Unplayable liked tracks replaced by a playable equivalent (empty unless substitution is enabled). */
+  substitutions: TrackSubstitution[];
+  /** Unplayable liked tracks for which no playable equivalent was found. */
+  unresolvedTracks: Array<{ uri: string; name: string | null }>;
+  /** Per-target results, in config order. */
+  targets: TargetSyncSummary[];
+  /** Graveyard results, or `null` when no graveyard is configured. */
+  graveyard: GraveyardSyncSummary | null;
+  /** Removals refused by the mass-removal limits (empty when within limits or forced). */
+  safetyViolations: SafetyViolation[];
+  /**
+   * `true` when a target's selection shrank past the limits, so the whole run
+   * was only planned and nothing (including the state) should be written.
+   */
+  refused: boolean;
+  /**
+   * `true` when the library and playlists matched the last full sync's
+   * fingerprint, so the run ended early without reading or writing anything else.
+   */
+  unchanged: boolean;
 }
@@ -0,0 +1,74 @@
+import { SPOTIFY_PLAYLIST_ITEM_LIMIT, type LikedWindow } from "./mirror-config";
+import type { GraveyardTrack, LikedTrackState, SavedTrackItem } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records what is known about each liked track, keyed by URI. Local files
+ * are left out, since they cannot be added to a playlist.
+ *
+ * @param {SavedTrackItem[]} likedTracks - Liked tracks, newest first.
+ * @returns {Record<string, LikedTrackState>} The liked tracks, newest first, by URI.
+ */
+export function recordLikedTracks(likedTracks: SavedTrackItem[]): Record<string, LikedTrackState> {
+  const liked: Record<string, LikedTrackState> = {};
+  for (const item of likedTracks) {
+    const track = item.track;
+    if (!track?.uri || track.is_local === true || liked[track.uri]) {
+      continue;
+    }
+
+    liked[track.uri] = {
+      name: track.name ?? null,
+      artists: track.artists?.map((artist) => artist.name) ?? [],
+      likedAt: item.added_at
+    };
+  }
+
+  return liked;
+}
+
+/**
+ * Works out the graveyard's next contents: tracks liked on the previous run
+ * but not any more are appended, tracks liked again are dropped, and the
+ * result is trimmed to the retention limits (and the playlist limit), oldest
+ * unlike first.
+ *
+ * @param {Record<string, LikedTrackState> | undefined} previousLiked - Liked tracks recorded by the
+ *   previous run, or undefined on the first run, when nothing can have been unliked yet.
+ * @param {Record<string, LikedTrackState>} liked - Liked tracks of this run, from `recordLikedTracks`.
+ * @param {GraveyardTrack[]} graveyardTracks - The graveyard's current tracks, oldest unlike first.
+ * @param {LikedWindow | null} retention - Which unliked tracks to keep, or null for no limit.
+ * @param {Date} now - Time of this run, recorded as the unlike time of new entries.
+ * @returns {{ tracks: GraveyardTrack[]; unliked: GraveyardTrack[]; relikedCount: number; expiredCount: number }}
+ *   The graveyard's next tracks, the newly unliked tracks, and how many tracks were dropped and why.
+ */
+export function updateGraveyard(
+  previousLiked: Record<string, LikedTrackState> | undefined,
+  liked: Record<string, LikedTrackState>,
+  graveyardTracks: GraveyardTrack[],
+  retention: LikedWindow | null,
+  now: Date
+): { tracks: GraveyardTrack[]; unliked: GraveyardTrack[]; relikedCount: number; expiredCount: number } {
+  const kept = graveyardTracks.filter((track) => !liked[track.uri]);
+  const buried = new Set(kept.map((track) => track.uri));
+  const unliked: GraveyardTrack[] = Object.entries(previousLiked ?? {})
+    .filter(([uri]) => !liked[uri] && !buried.has(uri))
+    .map(([uri, track]) => ({ uri, ...track, unlikedAt: now.toISOString() }));
+
+  let tracks = [...kept, ...unliked];
+  if (retention?.days) {
+    const cutoff = now.getTime() - retention.days * DAY_MS;
+    tracks = tracks.filter((track) => Date.parse(track.unlikedAt) >= cutoff);
+  }
+
+  const limit = Math.min(retention?.count ?? SPOTIFY_PLAYLIST_ITEM_LIMIT, SPOTIFY_PLAYLIST_ITEM_LIMIT);
+  tracks = tracks.slice(Math.max(tracks.length - limit, 0));
+
+  return {
+    tracks,
+    unliked,
+    relikedCount: graveyardTracks.length - kept.length,
+    expiredCount: kept.length + unliked.length - tracks.length
+  };
+}
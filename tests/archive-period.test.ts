@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { isValidTimeZone, periodKeyOf, periodTemplateVariables } from "../src/archive-period";
+
+describe("periodKeyOf", () => {
+  it("reads the calendar in the configured time zone", () => {
+    const instant = new Date("2026-01-01T03:00:00.000Z");
+
+    expect(periodKeyOf(instant, "month", "UTC")).toBe("2026-01");
+    expect(periodKeyOf(instant, "month", "America/New_York")).toBe("2025-12");
+    expect(periodKeyOf(instant, "year", "America/New_York")).toBe("2025");
+    expect(periodKeyOf(new Date("not a date"), "year", "UTC")).toBeNull();
+  });
+});
+
+describe("periodTemplateVariables", () => {
+  it("describes months and years", () => {
+    expect(periodTemplateVariables("2026-10")).toEqual({
+      period: "2026-10",
+      year: "2026",
+      month: "10",
+      monthName: "October"
+    });
+    expect(periodTemplateVariables("2025")).toEqual({ period: "2025", year: "2025" });
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects unknown ones", () => {
+    expect(isValidTimeZone("Europe/London")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
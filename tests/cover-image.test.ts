@@ -0,0 +1,42 @@
+import { decode } from "jpeg-js";
+import { describe, expect, it } from "vitest";
+import { COVER_SIZE, renderCountCover } from "../src/cover-image";
+import { SPOTIFY_COVER_IMAGE_LIMIT_BYTES } from "../src/spotify-client";
+
+describe("renderCountCover", () => {
+  const colors = { background: "#121212", foreground: "#1db954" };
+
+  it("produces a baseline JPEG within Spotify's upload limit", () => {
+    const jpeg = renderCountCover(12345, colors);
+
+    expect([...jpeg.subarray(0, 2)]).toEqual([0xff, 0xd8]);
+    expect([...jpeg.subarray(-2)]).toEqual([0xff, 0xd9]);
+    expect(jpeg.includes(Buffer.from([0xff, 0xc0]))).toBe(true);
+    expect(jpeg.toString("base64").length).toBeLessThanOrEqual(SPOTIFY_COVER_IMAGE_LIMIT_BYTES);
+  });
+
+  it("decodes to the background with the count and label drawn in the foreground colour", () => {
+    const image = decode(renderCountCover(12345, colors), { useTArray: true });
+    const pixel = (x: number, y: number): number[] => {
+      const offset = (y * image.width + x) * 4;
+      return [...image.data.subarray(offset, offset + 3)];
+    };
+    const near = (actual: number[], expected: number[]): boolean =>
+      actual.every((channel, index) => Math.abs(channel - expected[index]) <= 8);
+
+    expect([image.width, image.height]).toEqual([COVER_SIZE, COVER_SIZE]);
+    for (const [x, y] of [[4, 4], [635, 635], [320, 40], [20, 320]]) {
+      expect(pixel(x, y), `background at ${x},${y}`).toSatisfy((rgb: number[]) => near(rgb, [0x12, 0x12, 0x12]));
+    }
+
+    // The top stroke of the "1" in "12,345", and of the first "S" in "SONGS".
+    for (const [x, y] of [[110, 223], [190, 359]]) {
+      expect(pixel(x, y), `foreground at ${x},${y}`).toSatisfy((rgb: number[]) => near(rgb, [0x1d, 0xb9, 0x54]));
+    }
+  });
+
+  it("depends only on the count and colours", () => {
+    expect(renderCountCover(42, colors).equals(renderCountCover(42, colors))).toBe(true);
+    expect(renderCountCover(42, colors).equals(renderCountCover(43, colors))).toBe(false);
+  });
+});
@@ -0,0 +1,351 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SavedTrackItem, SpotifyPlaylistTrack, SpotifyTrack, SpotifyUser } from "../src/types";
+
+/**
+ * A misbehavior the fake server can be told to show:
+ * - `rate-limit`: 429 with a `Retry-After` header.
+ * - `server-error`: a 5xx status (503 by default).
+ * - `timeout`: no response at all, until the client gives up.
+ * - `token-expired`: revokes every access token issued so far and answers 401.
+ * - `forbidden`: 403, as Spotify answers when clearing an already-empty playlist.
+ */
+export type FakeFault =
+  | { kind: "rate-limit"; retryAfterSeconds: number }
+  | { kind: "server-error"; status?: number }
+  | { kind: "timeout" }
+  | { kind: "token-expired" }
+  | { kind: "forbidden" };
+
+interface FaultRule {
+  method: string | null;
+  path: RegExp;
+  fault: FakeFault;
+  remaining: number;
+}
+
+/**
+ * A playlist held by the fake server.
+ */
+export interface FakePlaylist {
+  id: string;
+  name: string;
+  description: string | null;
+  public: boolean;
+  collaborative: boolean;
+  uris: string[];
+  /** Bumped on every change, and reported as `snapshot-<version>`. */
+  version: number;
+}
+
+/**
+ * In-memory stand-in for the parts of the Spotify Web API and accounts
+ * service the bot uses, served over plain HTTP on a random local port. Point
+ * a `SpotifyClient` (or a whole run, through `SPOTIFY_API_BASE_URL` and
+ * `SPOTIFY_ACCOUNTS_BASE_URL`) at `apiBaseUrl` and `accountsBaseUrl`.
+ * Pagination returns real `next` URLs, and faults can be injected per route.
+ */
+export class FakeSpotifyServer {
+  readonly user: SpotifyUser = { id: "fake-user", display_name: "Fake User" };
+  /** The refresh token the accounts service accepts. */
+  refreshToken = "fake-refresh-token";
+  /** Whether every token grant also replaces the refresh token, revoking the old one. */
+  rotateRefreshTokens = false;
+  /** Liked tracks, newest first. */
+  likedTracks: SavedTrackItem[] = [];
+  readonly playlists = new Map<string, FakePlaylist>();
+  /** Every request received, as `METHOD /path`. */
+  readonly requests: string[] = [];
+
+  private readonly server: Server = createServer((request, response) => void this.handle(request, response));
+  private readonly tracks = new Map<string, SpotifyTrack>();
+  private readonly validTokens = new Set<string>();
+  private readonly faults: FaultRule[] = [];
+  private issuedTokenCount = 0;
+  private createdPlaylistCount = 0;
+  private baseUrl = "";
+
+  get apiBaseUrl(): string {
+    return `${this.baseUrl}/v1`;
+  }
+
+  get accountsBaseUrl(): string {
+    return `${this.baseUrl}/api`;
+  }
+
+  /**
+   * Starts listening on a free local port.
+   *
+   * @returns {Promise<void>} Resolves once the server accepts connections.
+   */
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stops the server, dropping any response held back by a `timeout` fault.
+   *
+   * @returns {Promise<void>} Resolves once the server has closed.
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Replaces the liked tracks, newest first, adding them to the catalog.
+   *
+   * @param {SpotifyTrack[]} tracks - The tracks to like.
+   * @param {number} [likedAtMs] - Like time of the newest track; each older one is liked a minute earlier.
+   * @returns {void}
+   */
+  setLikedTracks(tracks: SpotifyTrack[], likedAtMs = Date.UTC(2026, 0, 1)): void {
+    tracks.forEach((track) => this.tracks.set(track.uri, track));
+    this.likedTracks = tracks.map((track, index) => ({
+      added_at: new Date(likedAtMs - index * 60000).toISOString(),
+      track
+    }));
+  }
+
+  /**
+   * Adds a playlist the user owns.
+   *
+   * @param {Omit<FakePlaylist, "version">} playlist - The playlist; its URIs should name catalog tracks.
+   * @returns {void}
+   */
+  addPlaylist(playlist: Omit<FakePlaylist, "version">): void {
+    this.playlists.set(playlist.id, { ...playlist, version: 1 });
+  }
+
+  /**
+   * Makes the next matching requests fail.
+   *
+   * @param {string | null} method - HTTP method to match, or null for any.
+   * @param {RegExp} path - Pattern matched against the request path (without the query).
+   * @param {FakeFault} fault - How to fail.
+   * @param {number} [times=1] - How many matching requests fail.
+   * @returns {void}
+   */
+  inject(method: string | null, path: RegExp, fault: FakeFault, times = 1): void {
+    this.faults.push({ method, path, fault, remaining: times });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", this.baseUrl);
+    const method = request.method ?? "GET";
+    this.requests.push(`${method} ${url.pathname}`);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const bodyText = Buffer.concat(chunks).toString("utf8");
+
+    const rule = this.faults.find(
+      (candidate) =>
+        candidate.remaining > 0 && (candidate.method ?? method) === method && candidate.path.test(url.pathname)
+    );
+    if (rule) {
+      rule.remaining -= 1;
+      this.fail(response, rule.fault);
+      return;
+    }
+
+    if (method === "POST" && url.pathname === "/api/token") {
+      this.issueToken(response, new URLSearchParams(bodyText));
+      return;
+    }
+
+    const token = request.headers.authorization?.replace(/^Bearer /, "");
+    if (!token || !this.validTokens.has(token)) {
+      send(response, 401, { error: { status: 401, message: "The access token expired" } });
+      return;
+    }
+
+    this.route(response, method, url, bodyText ? (JSON.parse(bodyText) as Record<string, unknown>) : {});
+  }
+
+  private fail(response: ServerResponse, fault: FakeFault): void {
+    switch (fault.kind) {
+      case "rate-limit":
+        response.setHeader("Retry-After", String(fault.retryAfterSeconds));
+        send(response, 429, { error: { status: 429, message: "API rate limit exceeded" } });
+        return;
+      case "server-error":
+        send(response, fault.status ?? 503, { error: { status: fault.status ?? 503, message: "Service unavailable" } });
+        return;
+      case "timeout":
+        // Hold the response until the client aborts or the server stops.
+        return;
+      case "token-expired":
+        this.validTokens.clear();
+        send(response, 401, { error: { status: 401, message: "The access token expired" } });
+        return;
+      case "forbidden":
+        send(response, 403, { error: { status: 403, message: "Forbidden" } });
+        return;
+    }
+  }
+
+  private issueToken(response: ServerResponse, params: URLSearchParams): void {
+    if (params.get("grant_type") !== "refresh_token" || params.get("refresh_token") !== this.refreshToken) {
+      send(response, 400, { error: "invalid_grant", error_description: "Invalid refresh token" });
+      return;
+    }
+
+    this.issuedTokenCount += 1;
+    const accessToken = `fake-access-token-${this.issuedTokenCount}`;
+    this.validTokens.add(accessToken);
+    if (this.rotateRefreshTokens) {
+      this.refreshToken = `fake-refresh-token-${this.issuedTokenCount}`;
+    }
+
+    send(response, 200, {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: 3600,
+      ...(this.rotateRefreshTokens ? { refresh_token: this.refreshToken } : {})
+    });
+  }
+
+  private route(response: ServerResponse, method: string, url: URL, body: Record<string, unknown>): void {
+    const path = url.pathname;
+    if (method === "GET" && path === "/v1/me") {
+      send(response, 200, this.user);
+      return;
+    }
+
+    if (method === "GET" && path === "/v1/me/tracks") {
+      send(response, 200, this.page(url, this.likedTracks));
+      return;
+    }
+
+    if (method === "POST" && path === "/v1/me/playlists") {
+      this.createdPlaylistCount += 1;
+      const id = `fake-playlist-${this.createdPlaylistCount}`;
+      this.addPlaylist({
+        id,
+        name: String(body.name),
+        description: typeof body.description === "string" ? body.description : null,
+        public: body.public !== false,
+        collaborative: body.collaborative === true,
+        uris: []
+      });
+      send(response, 201, { id, external_urls: { spotify: `https://open.spotify.com/playlist/${id}` } });
+      return;
+    }
+
+    const match = /^\/v1\/playlists\/([^/]+)(\/items|\/followers)?$/.exec(path);
+    const playlist = match ? this.playlists.get(decodeURIComponent(match[1])) : undefined;
+    if (!match || !playlist) {
+      send(response, 404, { error: { status: 404, message: "Resource not found" } });
+      return;
+    }
+
+    const route = `${method} ${match[2] ?? ""}`;
+    if (route === "GET ") {
+      const { id, name, description, collaborative } = playlist;
+      send(response, 200, {
+        id,
+        snapshot_id: snapshotId(playlist),
+        name,
+        description,
+        public: playlist.public,
+        collaborative
+      });
+    } else if (route === "PUT ") {
+      Object.assign(
+        playlist,
+        ...(["name", "description", "public", "collaborative"] as const)
+          .filter((field) => body[field] !== undefined)
+          .map((field) => ({ [field]: body[field] }))
+      );
+      this.touch(response, playlist);
+    } else if (route === "GET /items") {
+      send(
+        response,
+        200,
+        this.page(
+          url,
+          playlist.uris.map((uri) => ({ added_at: "2026-01-01T00:00:00Z", item: this.playlistTrack(uri) }))
+        )
+      );
+    } else if (route === "POST /items") {
+      const uris = body.uris as string[];
+      const position = typeof body.position === "number" ? body.position : playlist.uris.length;
+      playlist.uris.splice(position, 0, ...uris);
+      this.touch(response, playlist);
+    } else if (route === "PUT /items" && Array.isArray(body.uris)) {
+      playlist.uris = [...(body.uris as string[])];
+      this.touch(response, playlist);
+    } else if (route === "PUT /items") {
+      const start = body.range_start as number;
+      const length = (body.range_length as number | undefined) ?? 1;
+      const insertBefore = body.insert_before as number;
+      const moved = playlist.uris.slice(start, start + length);
+      const kept = [...playlist.uris.slice(0, start), ...playlist.uris.slice(start + length)];
+      kept.splice(insertBefore > start ? insertBefore - length : insertBefore, 0, ...moved);
+      playlist.uris = kept;
+      this.touch(response, playlist);
+    } else if (route === "DELETE /items") {
+      const removed = new Set((body.items as Array<{ uri: string }>).map((item) => item.uri));
+      playlist.uris = playlist.uris.filter((uri) => !removed.has(uri));
+      this.touch(response, playlist);
+    } else if (route === "DELETE /followers") {
+      this.playlists.delete(playlist.id);
+      send(response, 200, null);
+    } else {
+      send(response, 405, { error: { status: 405, message: "Method not allowed" } });
+    }
+  }
+
+  private page<T>(url: URL, all: T[]): Record<string, unknown> {
+    const limit = Number(url.searchParams.get("limit") ?? 20);
+    const offset = Number(url.searchParams.get("offset") ?? 0);
+    const next = new URL(url.toString());
+    next.searchParams.set("offset", String(offset + limit));
+
+    return {
+      items: all.slice(offset, offset + limit),
+      limit,
+      offset,
+      total: all.length,
+      next: offset + limit < all.length ? next.toString() : null
+    };
+  }
+
+  private playlistTrack(uri: string): SpotifyPlaylistTrack {
+    const track = this.tracks.get(uri);
+    return {
+      type: "track",
+      id: track?.id ?? uri.slice(uri.lastIndexOf(":") + 1),
+      uri,
+      name: track?.name ?? uri,
+      duration_ms: track?.duration_ms ?? 180000,
+      explicit: track?.explicit ?? false,
+      artists: track?.artists ?? [],
+      album: track?.album ?? { id: "fake-album", uri: "spotify:album:fake-album", name: "Fake Album" }
+    };
+  }
+
+  private touch(response: ServerResponse, playlist: FakePlaylist): void {
+    playlist.version += 1;
+    send(response, 200, { snapshot_id: snapshotId(playlist) });
+  }
+}
+
+function snapshotId(playlist: FakePlaylist): string {
+  return `snapshot-${playlist.version}`;
+}
+
+function send(response: ServerResponse, status: number, body: unknown): void {
+  response.statusCode = status;
+  if (body === null) {
+    response.end();
+    return;
+  }
+
+  response.setHeader("Content-Type", "application/json");
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  fingerprintBlocker,
+  fingerprintLibrary,
+  fullSyncReason,
+  managedPlaylistIds
+} from "../src/library-fingerprint";
+import { defaultMirrorTargets, type GraveyardConfig, type MirrorTargetConfig } from "../src/mirror-config";
+import type { LibraryFingerprint, SavedTrackItem } from "../src/types";
+
+function targetConfig(overrides: Partial<MirrorTargetConfig>): MirrorTargetConfig {
+  return { ...defaultMirrorTargets()[0], ...overrides };
+}
+
+const graveyard: GraveyardConfig = {
+  name: "Recently Unliked",
+  description: "",
+  visibility: "private",
+  retention: { days: 30, count: null }
+};
+
+function firstPage(ids: string[], total = ids.length) {
+  const items: SavedTrackItem[] = ids.map((id, index) => ({
+    added_at: new Date(Date.UTC(2026, 0, 1) - index * 60000).toISOString(),
+    track: { id, uri: `spotify:track:${id}` }
+  }));
+  return { items, limit: 50, offset: 0, total, next: null };
+}
+
+describe("fingerprintBlocker", () => {
+  it("allows skipping only when nothing but Liked Songs can change the mirrors", () => {
+    expect(fingerprintBlocker({ targets: defaultMirrorTargets(), graveyard: null })).toBeNull();
+    expect(
+      fingerprintBlocker({ targets: [targetConfig({ window: { days: null, count: 50 } })], graveyard: null })
+    ).toBeNull();
+
+    expect(
+      fingerprintBlocker({
+        targets: [targetConfig({ key: "mix", source: { type: "playlist", playlistId: "p1" } })],
+        graveyard: null
+      })
+    ).toBe("target mix reads playlist:p1");
+    expect(
+      fingerprintBlocker({ targets: [targetConfig({ window: { days: 30, count: null } })], graveyard: null })
+    ).toBe("target liked-songs has a rolling window of 30 day(s)");
+    expect(
+      fingerprintBlocker({
+        targets: [
+          targetConfig({
+            filter: [{ name: "recent", action: "include", condition: { all: [{ likedAt: { withinDays: 7 } }] } }]
+          })
+        ],
+        graveyard: null
+      })
+    ).toBe('target liked-songs filters on the like date with rule "recent"');
+    expect(
+      fingerprintBlocker({
+        targets: [
+          targetConfig({
+            filter: [{ name: "old", action: "exclude", condition: { likedAt: { before: "2020-01-01" } } }]
+          })
+        ],
+        graveyard: null
+      })
+    ).toBeNull();
+    expect(fingerprintBlocker({ targets: defaultMirrorTargets(), graveyard })).toMatch(/graveyard keeps/);
+  });
+});
+
+describe("fullSyncReason", () => {
+  const now = new Date("2026-03-01T12:00:00.000Z");
+  const library = fingerprintLibrary(firstPage(["t3", "t2", "t1"], 120), "hash");
+  const previous: LibraryFingerprint = {
+    ...library,
+    playlistSnapshots: { mirror: "snapshot-4" },
+    reconciledAt: "2026-03-01T00:00:00.000Z"
+  };
+
+  it("finds nothing to do when the library matches a recent fingerprint", () => {
+    expect(fullSyncReason(previous, library, 24, now)).toBeNull();
+  });
+
+  it("asks for a full sync when there is no fingerprint, the settings changed or one is due", () => {
+    expect(fullSyncReason(undefined, library, 24, now)).toMatch(/no earlier full sync/);
+    expect(fullSyncReason(previous, { ...library, configHash: "other" }, 24, now)).toMatch(/settings changed/);
+    expect(fullSyncReason(previous, library, 12, now)).toBe("the last full sync was 12 or more hour(s) ago");
+  });
+
+  it("asks for a full sync when a like or unlike shows on the first page or in the total", () => {
+    expect(fullSyncReason(previous, fingerprintLibrary(firstPage(["t4", "t3", "t2"], 121), "hash"), 24, now)).toBe(
+      "Liked Songs changed"
+    );
+    expect(fullSyncReason(previous, fingerprintLibrary(firstPage(["t3", "t2", "t1"], 119), "hash"), 24, now)).toBe(
+      "Liked Songs changed"
+    );
+    expect(fullSyncReason(previous, fingerprintLibrary(firstPage(["t3", "t1", "t0"], 120), "hash"), 24, now)).toBe(
+      "Liked Songs changed"
+    );
+  });
+});
+
+describe("managedPlaylistIds", () => {
+  it("lists the configured targets' playlists and the graveyard, skipping stale state", () => {
+    const state = {
+      targets: {
+        "liked-songs": { playlistId: "mirror", partPlaylistIds: ["mirror-2"] },
+        archive: { playlistId: null, archivePlaylistIds: { "2026-01": "jan", "2026-02": "feb" } },
+        removed: { playlistId: "old" }
+      },
+      graveyard: { playlistId: "graveyard", tracks: [] }
+    };
+
+    expect(
+      managedPlaylistIds(state, { targets: [targetConfig({}), targetConfig({ key: "archive" })], graveyard })
+    ).toEqual(["mirror", "mirror-2", "jan", "feb", "graveyard"]);
+    expect(managedPlaylistIds(state, { targets: [targetConfig({})], graveyard: null })).toEqual([
+      "mirror",
+      "mirror-2"
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  planRestore,
+  restoreLikedSongs,
+  restoreTracksFromExport,
+  restoreTracksFromPlaylist,
+  type RestoreTrack
+} from "../src/library-restore";
+import type { SpotifyClient } from "../src/spotify-client";
+import type { PlaylistItem, SavedTrackItem } from "../src/types";
+
+function sourceTrack(uri: string): RestoreTrack {
+  return { uri, name: uri, artists: [], likedAt: null };
+}
+
+function liked(uri: string): SavedTrackItem {
+  return { added_at: "2026-01-01T00:00:00.000Z", track: { id: uri, uri } };
+}
+
+describe("restoreTracksFromPlaylist", () => {
+  it("keeps Spotify tracks in playlist order, leaving out episodes, local files and gaps", () => {
+    const items = [
+      {
+        added_at: null,
+        item: { type: "track", id: "1", uri: "spotify:track:1", name: "One", artists: [{ name: "A" }] }
+      },
+      { added_at: null, item: { type: "episode", id: "e", uri: "spotify:episode:e", name: "Episode" } },
+      { added_at: null, item: { type: "track", id: null, uri: "spotify:local:x", name: "Local", is_local: true } },
+      { added_at: null, item: null }
+    ] as unknown as PlaylistItem[];
+
+    expect(restoreTracksFromPlaylist(items)).toEqual([
+      { uri: "spotify:track:1", name: "One", artists: ["A"], likedAt: null }
+    ]);
+  });
+});
+
+describe("restoreTracksFromExport", () => {
+  it("reads the exported tracks by playlist position", () => {
+    const tracks = restoreTracksFromExport({
+      schemaVersion: 2,
+      tracks: [
+        { playlistPosition: 1, uri: "spotify:track:2", name: "Two", artists: [{ name: "B" }] },
+        { playlistPosition: 0, uri: "spotify:track:1", name: "One", artists: [] }
+      ]
+    });
+
+    expect(tracks.map((track) => track.uri)).toEqual(["spotify:track:1", "spotify:track:2"]);
+    expect(tracks[1].artists).toEqual(["B"]);
+  });
+
+  it("rejects other documents", () => {
+    expect(() => restoreTracksFromExport({ schemaVersion: 1, tracks: [] })).toThrow(/schemaVersion 2/);
+    expect(() => restoreTracksFromExport({ schemaVersion: 2, tracks: [{ uri: 1 }] })).toThrow(/tracks\[0\]/);
+  });
+});
+
+describe("planRestore", () => {
+  it("saves missing tracks oldest first, with like times recorded in state", () => {
+    const plan = planRestore(
+      ["spotify:track:3", "spotify:track:2", "spotify:track:1", "spotify:track:3"].map(sourceTrack),
+      [liked("spotify:track:2")],
+      { "spotify:track:1": { name: "One", artists: [], likedAt: "2025-05-05T00:00:00.000Z" } }
+    );
+
+    expect(plan).toMatchObject({ sourceCount: 3, alreadyLikedCount: 1 });
+    expect(plan.missing.map((track) => [track.uri, track.likedAt])).toEqual([
+      ["spotify:track:1", "2025-05-05T00:00:00.000Z"],
+      ["spotify:track:3", null]
+    ]);
+  });
+});
+
+describe("restoreLikedSongs", () => {
+  it("saves timed and untimed tracks in separate requests, and nothing in a dry run", async () => {
+    const saves: Array<Array<{ id: string; likedAt: string | null }>> = [];
+    const client = {
+      fetchAllLikedTracks: async () => [],
+      saveLikedTracks: async (tracks: Array<{ id: string; likedAt: string | null }>) => void saves.push(tracks)
+    } as unknown as SpotifyClient;
+    const source = ["spotify:track:2", "spotify:track:1"].map(sourceTrack);
+    const knownLikes = { "spotify:track:1": { name: null, artists: [], likedAt: "2025-01-01T00:00:00.000Z" } };
+
+    await restoreLikedSongs(client, source, { knownLikes, dryRun: true });
+    expect(saves).toEqual([]);
+
+    const plan = await restoreLikedSongs(client, source, { knownLikes });
+    expect(plan.missing).toHaveLength(2);
+    expect(saves).toEqual([[{ id: "1", likedAt: "2025-01-01T00:00:00.000Z" }], [{ id: "2", likedAt: null }]]);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { defaultSafetyConfig, parseMirrorConfig, parseMirrorTargets } from "../src/mirror-config";
+
+describe("parseMirrorTargets", () => {
+  it("applies defaults for optional target fields", () => {
+    expect(parseMirrorTargets({ targets: [{ key: "all-likes" }] })).toEqual([
+      {
+        key: "all-likes",
+        source: { type: "liked-songs" },
+        name: null,
+        visibility: "public",
+        window: null,
+        filter: [],
+        dedupe: null,
+        order: "newest-first",
+        shuffleSeed: "all-likes",
+        maxTracksPerPlaylist: 10000,
+        archive: null,
+        details: null,
+        drift: null
+      }
+    ]);
+  });
+
+  it("accepts a full target declaration", () => {
+    const [target] = parseMirrorTargets({
+      targets: [
+        {
+          key: "last-90-days",
+          name: "{displayName}'s Recent Likes",
+          visibility: "private",
+          filter: [{ name: "last 90 days", include: { likedAt: { withinDays: 90 } } }],
+          order: "oldest-first",
+          drift: "keep-additions"
+        }
+      ]
+    });
+
+    expect(target.filter).toEqual([
+      { name: "last 90 days", action: "include", condition: { likedAt: { withinDays: 90 } } }
+    ]);
+    expect(target.visibility).toBe("private");
+    expect(target.drift).toBe("keep-additions");
+  });
+
+  it("defaults archive names, descriptions and time zone", () => {
+    const [target] = parseMirrorTargets({ targets: [{ key: "monthly", archive: { period: "month" } }] });
+
+    expect(target.name).toBe("Liked — {period}");
+    expect(target.archive).toEqual({
+      period: "month",
+      description: "Songs liked in {period} (auto-synced archive)",
+      timeZone: "UTC",
+      pruneClosed: false
+    });
+    expect(() =>
+      parseMirrorTargets({ targets: [{ key: "a", archive: { period: "year", timeZone: "Mars/Olympus" } }] })
+    ).toThrow(/targets\[0\]\.archive\.timeZone/);
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", archive: { period: "week" } }] })).toThrow(
+      /targets\[0\]\.archive\.period must be one of: month, year/
+    );
+  });
+
+  it("parses saved-album and saved-episode sources with their default names", () => {
+    const [albums, sections, episodes] = parseMirrorTargets({
+      targets: [
+        { key: "albums", source: "saved-albums" },
+        { key: "sections", source: { type: "saved-albums", layout: "albums" }, name: "Albums" },
+        { key: "episodes", source: { type: "saved-episodes" } }
+      ]
+    });
+
+    expect(albums).toMatchObject({
+      source: { type: "saved-albums", layout: "tracks" },
+      name: "{displayName}'s Saved Albums"
+    });
+    expect(sections).toMatchObject({ source: { type: "saved-albums", layout: "albums" }, name: "Albums" });
+    expect(episodes).toMatchObject({ source: { type: "saved-episodes" }, name: "{displayName}'s Saved Episodes" });
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", source: "saved-shows" }] })).toThrow(
+      /targets\[0\]\.source must be one of: liked-songs, saved-albums, saved-episodes/
+    );
+    expect(() =>
+      parseMirrorTargets({ targets: [{ key: "a", source: { type: "saved-episodes", layout: "albums" } }] })
+    ).toThrow(/targets\[0\]\.source has unknown field "layout"/);
+  });
+
+  it("parses playlist, URI-list and combined sources", () => {
+    const [combined, listed] = parseMirrorTargets({
+      targets: [
+        {
+          key: "combined",
+          name: "Keepers",
+          source: {
+            type: "difference",
+            from: { type: "union", sources: ["liked-songs", { type: "playlist", playlist: "spotify:playlist:abc" }] },
+            minus: [{ type: "playlist", playlist: "https://open.spotify.com/intl-de/playlist/def?si=123" }]
+          }
+        },
+        { key: "listed", name: "Listed", source: { type: "uri-file", path: "tracks.txt" } }
+      ]
+    });
+
+    expect(combined.source).toEqual({
+      type: "difference",
+      from: { type: "union", sources: [{ type: "liked-songs" }, { type: "playlist", playlistId: "abc" }] },
+      minus: [{ type: "playlist", playlistId: "def" }]
+    });
+    expect(listed.source).toEqual({ type: "uri-file", path: "tracks.txt" });
+    expect(() =>
+      parseMirrorTargets({ targets: [{ key: "a", source: { type: "playlist", playlist: "abc" } }] })
+    ).toThrow(/targets\[0\]\.name is required for a "playlist" source/);
+    expect(() =>
+      parseMirrorTargets({
+        targets: [{ key: "a", name: "A", source: { type: "union", sources: [{ type: "playlist", playlist: "x/y" }] } }]
+      })
+    ).toThrow(/targets\[0\]\.source\.sources\[0\]\.playlist must be a playlist ID/);
+    expect(() =>
+      parseMirrorTargets({ targets: [{ key: "a", name: "A", source: { type: "intersection", sources: [] } }] })
+    ).toThrow(/targets\[0\]\.source\.sources must be a non-empty array of sources/);
+  });
+
+  it("enables dedupe with defaults from a boolean", () => {
+    const [target] = parseMirrorTargets({ targets: [{ key: "a", dedupe: true }] });
+
+    expect(target.dedupe).toEqual({ keep: "latest", durationToleranceSeconds: 3 });
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", dedupe: { keep: "first" } }] })).toThrow(
+      /targets\[0\]\.dedupe\.keep must be one of: latest, earliest/
+    );
+  });
+
+  it("parses managed details with a file or generated cover", () => {
+    const [fileCover, generated] = parseMirrorTargets({
+      targets: [
+        { key: "a", details: { description: "{trackCount} songs", enforceName: true, cover: { file: "cover.jpg" } } },
+        { key: "b", details: { cover: { generate: true, background: "#000000" } } }
+      ]
+    });
+
+    expect(fileCover.details).toEqual({
+      description: "{trackCount} songs",
+      enforceName: true,
+      cover: { source: "file", path: "cover.jpg" }
+    });
+    expect(generated.details).toEqual({
+      description: null,
+      enforceName: false,
+      cover: { source: "generated", background: "#000000", foreground: "#1db954" }
+    });
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", details: { cover: { file: "cover.png" } } }] })).toThrow(
+      /targets\[0\]\.details\.cover\.file must be a \.jpg or \.jpeg file/
+    );
+  });
+
+  it("rejects malformed documents with the offending location", () => {
+    expect(() => parseMirrorTargets({})).toThrow(/non-empty "targets" array/);
+    expect(() => parseMirrorTargets({ targets: [{ key: "Bad Key" }] })).toThrow(/targets\[0\]\.key/);
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", order: "random" }] })).toThrow(/targets\[0\]\.order/);
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", window: { days: 0 } }] })).toThrow(
+      /targets\[0\]\.window\.days must be a positive integer/
+    );
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", shuffleSeed: "x" }] })).toThrow(
+      /targets\[0\]\.shuffleSeed is only used with order "shuffle"/
+    );
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", maxTracksPerPlaylist: 10001 }] })).toThrow(
+      /targets\[0\]\.maxTracksPerPlaylist must be an integer from 1 to 10000/
+    );
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", filter: { explicit: false } }] })).toThrow(
+      /targets\[0\]\.filter must be an array of rules/
+    );
+    expect(() => parseMirrorTargets({ targets: [{ key: "a", drift: "ignore" }] })).toThrow(
+      /targets\[0\]\.drift must be one of: overwrite, keep-additions, stop/
+    );
+    expect(() => parseMirrorTargets({ targets: [{ key: "a" }, { key: "a" }] })).toThrow(
+      /Duplicate mirror target key: a/
+    );
+  });
+});
+
+describe("parseMirrorConfig", () => {
+  it("leaves the graveyard off unless configured, then applies its defaults", () => {
+    expect(parseMirrorConfig({ targets: [{ key: "a" }] }).graveyard).toBeNull();
+    expect(parseMirrorConfig({ targets: [{ key: "a" }], graveyard: { retention: { count: 200 } } }).graveyard).toEqual({
+      name: "Recently Unliked",
+      description: "Songs recently removed from Liked Songs (auto-synced)",
+      visibility: "private",
+      retention: { days: null, count: 200 }
+    });
+    expect(() => parseMirrorConfig({ targets: [{ key: "a" }], graveyard: { retention: { weeks: 2 } } })).toThrow(
+      /graveyard\.retention has unknown field "weeks"/
+    );
+  });
+
+  it("applies the default safety limits, letting each be turned off", () => {
+    expect(parseMirrorConfig({ targets: [{ key: "a" }] }).safety).toEqual(defaultSafetyConfig());
+    expect(
+      parseMirrorConfig({ targets: [{ key: "a" }], safety: { maxRemovedPercent: null, maxRemovedCount: 250 } }).safety
+    ).toEqual({ maxRemovedPercent: null, maxRemovedCount: 250 });
+    expect(() => parseMirrorConfig({ targets: [{ key: "a" }], safety: { maxRemovedPercent: 150 } })).toThrow(
+      /safety\.maxRemovedPercent must be a number from 0 to 100/
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { planMirrorDiff, type MirrorDiffPlan } from "../src/mirror-diff";
+
+function applyPlan(current: Array<string | null>, plan: MirrorDiffPlan): Array<string | null> {
+  if (plan.replaceUris) {
+    return [...plan.replaceUris];
+  }
+
+  const removeSet = new Set(plan.removeUris);
+  const playlist = current.filter((uri) => uri === null || !removeSet.has(uri));
+
+  for (const step of plan.steps) {
+    if (step.op === "insert") {
+      playlist.splice(step.position, 0, ...step.uris);
+      continue;
+    }
+
+    const moved = playlist.splice(step.rangeStart, step.uris.length);
+    expect(moved).toEqual(step.uris);
+    playlist.splice(
+      step.rangeStart < step.insertBefore ? step.insertBefore - moved.length : step.insertBefore,
+      0,
+      ...moved
+    );
+  }
+
+  return playlist;
+}
+
+function uris(...ids: string[]): string[] {
+  return ids.map((id) => `spotify:track:${id}`);
+}
+
+describe("planMirrorDiff", () => {
+  it("plans no operations when the mirror already matches", () => {
+    const plan = planMirrorDiff(uris("a", "b", "c"), uris("a", "b", "c"));
+
+    expect(plan).toEqual({
+      removeUris: [],
+      steps: [],
+      replaceUris: null,
+      addedCount: 0,
+      removedCount: 0,
+      movedCount: 0
+    });
+  });
+
+  it("inserts newly liked tracks at the top in one batched call", () => {
+    const current = uris("c", "d");
+    const desired = uris("a", "b", "c", "d");
+    const plan = planMirrorDiff(current, desired);
+
+    expect(plan.steps).toEqual([{ op: "insert", position: 0, uris: uris("a", "b") }]);
+    expect(applyPlan(current, plan)).toEqual(desired);
+  });
+
+  it("removes unliked tracks and duplicated entries by URI", () => {
+    const current = uris("a", "x", "b", "a");
+    const desired = uris("a", "b");
+    const plan = planMirrorDiff(current, desired);
+
+    expect(plan.removeUris.sort()).toEqual(uris("a", "x"));
+    expect(plan.removedCount).toBe(3);
+    expect(plan.addedCount).toBe(1);
+    expect(applyPlan(current, plan)).toEqual(desired);
+  });
+
+  it("moves a single out-of-place track instead of shifting its neighbours", () => {
+    const current = uris("a", "b", "c", "d");
+    const desired = uris("b", "c", "d", "a");
+    const plan = planMirrorDiff(current, desired);
+
+    expect(plan.movedCount).toBe(1);
+    expect(plan.steps).toHaveLength(1);
+    expect(applyPlan(current, plan)).toEqual(desired);
+  });
+
+  it("moves tracks that stay together in one ranged call", () => {
+    const current = uris("d", "e", "a", "b", "c");
+    const desired = uris("a", "b", "c", "d", "e");
+    const plan = planMirrorDiff(current, desired);
+
+    expect(plan.steps).toEqual([{ op: "move", uris: uris("d", "e"), rangeStart: 0, insertBefore: 5 }]);
+    expect(plan.movedCount).toBe(2);
+    expect(applyPlan(current, plan)).toEqual(desired);
+  });
+
+  it("rewrites the playlist once moving its tracks would take more calls than a rewrite", () => {
+    const current = uris("a", "b", "c", "d", "e", "f");
+    const desired = uris("b", "a", "d", "c", "f", "e", "g");
+    const plan = planMirrorDiff(current, desired);
+
+    expect(plan.replaceUris).toEqual(desired);
+    expect(plan.steps).toEqual([{ op: "insert", position: 6, uris: uris("g") }]);
+    expect(plan).toMatchObject({ addedCount: 1, removedCount: 0, movedCount: 3 });
+    expect(planMirrorDiff(current, desired, Infinity).replaceUris).toBeNull();
+  });
+
+  it("keeps moving rather than rewriting a playlist with unresolvable entries", () => {
+    const current = ["spotify:track:a", "spotify:track:b", null, "spotify:track:c", "spotify:track:d"];
+    const plan = planMirrorDiff(current, uris("b", "a", "d", "c"), 1);
+
+    expect(plan.replaceUris).toBeNull();
+    expect(applyPlan(current, plan).filter((uri) => uri !== null)).toEqual(uris("b", "a", "d", "c"));
+  });
+
+  it("leaves unresolvable entries in place", () => {
+    const current: Array<string | null> = ["spotify:track:b", null, "spotify:track:a"];
+    const plan = planMirrorDiff(current, uris("a", "b"));
+
+    expect(applyPlan(current, plan).filter((uri) => uri !== null)).toEqual(uris("a", "b"));
+  });
+
+  it("converges for shuffled mixes of additions, removals and moves", () => {
+    let seed = 42;
+    const random = (): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    for (let run = 0; run < 50; run += 1) {
+      const pool = Array.from({ length: 30 }, (_, i) => `spotify:track:${i}`);
+      const current = pool.filter(() => random() < 0.6).sort(() => random() - 0.5);
+      const desired = pool.filter(() => random() < 0.6).sort(() => random() - 0.5);
+
+      expect(applyPlan(current, planMirrorDiff(current, desired))).toEqual(desired);
+      expect(applyPlan(current, planMirrorDiff(current, desired, Infinity))).toEqual(desired);
+    }
+  });
+});
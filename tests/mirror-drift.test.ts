@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { detectDrift, keepPinnedUris } from "../src/mirror-drift";
+
+describe("detectDrift", () => {
+  it("returns null when the playlist holds what the previous run left", () => {
+    expect(detectDrift(["a", "b"], ["a", null, "b"])).toBeNull();
+  });
+
+  it("reports added, removed and reordered tracks", () => {
+    expect(detectDrift(["a", "b", "c"], ["c", "x", "a", "x"])).toEqual({
+      addedUris: ["x"],
+      removedUris: ["b"],
+      reordered: true
+    });
+  });
+});
+
+describe("keepPinnedUris", () => {
+  it("inserts pinned tracks at their current positions", () => {
+    expect(keepPinnedUris(["new", "a", "b"], ["a", "x", "b", "y"], new Set(["x", "y"]))).toEqual([
+      "new",
+      "x",
+      "a",
+      "y",
+      "b"
+    ]);
+  });
+
+  it("leaves pinned tracks that are also desired to the desired order", () => {
+    expect(keepPinnedUris(["a", "b"], ["b", "a"], new Set(["a"]))).toEqual(["a", "b"]);
+  });
+});
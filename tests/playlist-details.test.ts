@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { decodeDescription, playlistDetailVariables } from "../src/playlist-details";
+
+describe("playlistDetailVariables", () => {
+  it("summarizes the playlist's tracks and the sync time", () => {
+    const variables = playlistDetailVariables(
+      [
+        { added_at: "2026-01-01T00:00:00.000Z", track: { id: "a", uri: "a", name: "Older", duration_ms: 3_600_000 } },
+        {
+          added_at: "2026-03-01T00:00:00.000Z",
+          track: {
+            id: "b",
+            uri: "b",
+            name: "Newest",
+            duration_ms: 1_500_000,
+            artists: [{ id: "x", uri: "spotify:artist:x", name: "Band" }]
+          }
+        }
+      ],
+      new Date("2026-10-19T08:05:30.000Z")
+    );
+
+    expect(variables).toEqual({
+      trackCount: "2",
+      totalDuration: "1 hr 25 min",
+      lastSync: "2026-10-19 08:05 UTC",
+      newestTrack: "Newest — Band"
+    });
+    expect(playlistDetailVariables([], new Date(0))).toMatchObject({ trackCount: "0", newestTrack: "" });
+  });
+});
+
+describe("decodeDescription", () => {
+  it("undoes Spotify's HTML escaping", () => {
+    expect(decodeDescription("Shane&#x27;s &amp; friends &quot;mix&quot; &#8212; &bogus;")).toBe(
+      "Shane's & friends \"mix\" — &bogus;"
+    );
+  });
+});
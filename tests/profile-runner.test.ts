@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { logger } from "../src/logger";
+import { runProfiles } from "../src/profile-runner";
+
+describe("runProfiles", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs at most the given number of profiles at once and keeps the listed order", async () => {
+    let running = 0;
+    let peak = 0;
+    const outcomes = await runProfiles(["a", "b", "c", "d"], 2, async (profile) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, profile === "a" ? 20 : 5));
+      running -= 1;
+      return profile;
+    });
+
+    expect(peak).toBe(2);
+    expect(outcomes.map((outcome) => outcome.result)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("isolates a failing profile and prefixes each profile's messages", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const outcomes = await runProfiles(["alex", "sam"], 1, async (profile) => {
+      if (profile === "alex") {
+        throw new Error("invalid_grant");
+      }
+
+      logger.info("synced");
+      return "ok";
+    });
+
+    expect(outcomes).toEqual([
+      { profile: "alex", result: null, error: new Error("invalid_grant") },
+      { profile: "sam", result: "ok", error: null }
+    ]);
+    expect(log.mock.calls[0][0]).toMatch(/INFO \[profile=sam\] synced$/);
+  });
+});
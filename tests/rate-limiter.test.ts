@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { RateLimiter } from "../src/rate-limiter";
+
+/**
+ * A clock that only moves when the limiter waits. Concurrent waits overlap,
+ * as real timers would.
+ *
+ * @returns {{ now: () => number; sleep: (ms: number) => Promise<void>; delays: number[] }} The clock and its waits.
+ */
+function fakeClock(): { now: () => number; sleep: (ms: number) => Promise<void>; delays: number[] } {
+  let clock = 0;
+  const delays: number[] = [];
+  return {
+    now: () => clock,
+    sleep: async (ms) => {
+      const wakeAt = clock + ms;
+      delays.push(ms);
+      await Promise.resolve();
+      clock = Math.max(clock, wakeAt);
+    },
+    delays
+  };
+}
+
+describe("RateLimiter", () => {
+  it("sends a burst at once, then spaces requests at the sustained rate", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 4, burst: 2, maxConcurrency: 10 }, clock.now, clock.sleep);
+    const sentAt: number[] = [];
+
+    for (let i = 0; i < 4; i += 1) {
+      await limiter.schedule(async () => void sentAt.push(clock.now()));
+    }
+
+    expect(sentAt).toEqual([0, 0, 250, 500]);
+  });
+
+  it("keeps at most maxConcurrency requests in flight", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 100, maxConcurrency: 2 }, clock.now, clock.sleep);
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        limiter.schedule(async () => {
+          running += 1;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running -= 1;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it("holds back every request during a pause", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 100, maxConcurrency: 10 }, clock.now, clock.sleep);
+
+    limiter.pause(2000);
+    limiter.pause(500);
+    await Promise.all([limiter.schedule(async () => undefined), limiter.schedule(async () => undefined)]);
+
+    expect(clock.delays).toEqual([2000, 2000]);
+    await limiter.schedule(async () => undefined);
+    expect(clock.delays).toHaveLength(2);
+  });
+});
@@ -0,0 +1,82 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  parseRefreshTokenSink,
+  persistRefreshToken,
+  readStoredRefreshToken,
+  setEnvFileVariable
+} from "../src/refresh-token-sink";
+
+describe("parseRefreshTokenSink", () => {
+  it("accepts each sink and rejects anything else", () => {
+    expect(parseRefreshTokenSink("state", "/repo/state")).toEqual({
+      type: "state",
+      path: path.join("/repo/state", "refresh-tokens.json")
+    });
+    expect(parseRefreshTokenSink("env-file", "/repo/state")).toEqual({
+      type: "env-file",
+      path: path.resolve(process.cwd(), ".env")
+    });
+    expect(parseRefreshTokenSink('command:gh secret set "$SPOTIFY_REFRESH_TOKEN_NAME"', "/repo/state")).toEqual({
+      type: "command",
+      command: 'gh secret set "$SPOTIFY_REFRESH_TOKEN_NAME"'
+    });
+    expect(() => parseRefreshTokenSink("command:", "/repo/state")).toThrow(/REFRESH_TOKEN_SINK must be/);
+    expect(() => parseRefreshTokenSink("vault", "/repo/state")).toThrow(/got "vault"/);
+  });
+});
+
+describe("setEnvFileVariable", () => {
+  it("replaces the variable's assignment, or appends one", () => {
+    const contents = "SPOTIFY_CLIENT_ID=abc\nexport SPOTIFY_REFRESH_TOKEN=old\nSPOTIFY_REFRESH_TOKEN_ALEX=keep";
+
+    expect(setEnvFileVariable(contents, "SPOTIFY_REFRESH_TOKEN", "new")).toBe(
+      "SPOTIFY_CLIENT_ID=abc\nexport SPOTIFY_REFRESH_TOKEN=new\nSPOTIFY_REFRESH_TOKEN_ALEX=keep"
+    );
+    expect(setEnvFileVariable(contents, "SPOTIFY_REFRESH_TOKEN_SAM", "new")).toBe(
+      `${contents}\nSPOTIFY_REFRESH_TOKEN_SAM=new\n`
+    );
+  });
+});
+
+describe("persistRefreshToken", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "refresh-token-sink-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("keeps every profile's token when several rotate at once in the state sink", async () => {
+    const sink = { type: "state" as const, path: path.join(workDir, "state", "refresh-tokens.json") };
+
+    await Promise.all([
+      persistRefreshToken(sink, "SPOTIFY_REFRESH_TOKEN_ALEX", "alex-2"),
+      persistRefreshToken(sink, "SPOTIFY_REFRESH_TOKEN_SAM", "sam-2")
+    ]);
+
+    expect(readStoredRefreshToken(sink.path, "SPOTIFY_REFRESH_TOKEN_ALEX")).toBe("alex-2");
+    expect(readStoredRefreshToken(sink.path, "SPOTIFY_REFRESH_TOKEN_SAM")).toBe("sam-2");
+    expect(readStoredRefreshToken(sink.path, "SPOTIFY_REFRESH_TOKEN")).toBeNull();
+  });
+
+  it("pipes the token to a sink command", async () => {
+    const output = path.join(workDir, "secret.txt");
+
+    await persistRefreshToken(
+      { type: "command", command: `cat > "${output}"; echo "$SPOTIFY_REFRESH_TOKEN_NAME" >> "${output}"` },
+      "SPOTIFY_REFRESH_TOKEN",
+      "new-token"
+    );
+    await expect(
+      persistRefreshToken({ type: "command", command: "exit 3" }, "SPOTIFY_REFRESH_TOKEN", "new-token")
+    ).rejects.toThrow(/exited with status 3/);
+
+    expect(await fs.readFile(output, "utf8")).toBe("new-tokenSPOTIFY_REFRESH_TOKEN\n");
+  });
+});
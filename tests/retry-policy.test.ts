@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyNetworkError,
+  DEFAULT_RETRY_POLICY,
+  parseRetryAfterMs,
+  Retrier,
+  type RetryEvent,
+  type RetryFailure
+} from "../src/retry-policy";
+
+/**
+ * Builds the error undici throws when a connection fails.
+ *
+ * @param {string} code - The underlying system error code.
+ * @returns {TypeError} The `fetch failed` error with the code on its cause.
+ */
+function fetchFailed(code: string): TypeError {
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(`connect ${code}`), { code }) });
+}
+
+const serverError: RetryFailure = { reason: "server-error", status: 503, errorCode: null, retryAfterMs: null };
+
+describe("parseRetryAfterMs", () => {
+  it("reads delays in seconds and as HTTP dates", () => {
+    const now = Date.parse("2026-10-19T12:00:00.000Z");
+
+    expect(parseRetryAfterMs("2", now)).toBe(2000);
+    expect(parseRetryAfterMs("0", now)).toBe(0);
+    expect(parseRetryAfterMs("Mon, 19 Oct 2026 12:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfterMs("Mon, 19 Oct 2026 11:59:00 GMT", now)).toBe(0);
+    expect(parseRetryAfterMs("-1", now)).toBeNull();
+    expect(parseRetryAfterMs("soon", now)).toBeNull();
+    expect(parseRetryAfterMs(null, now)).toBeNull();
+  });
+});
+
+describe("classifyNetworkError", () => {
+  it("retries timeouts and transient connection failures only", () => {
+    const abort = Object.assign(new Error("The operation was aborted."), { name: "AbortError" });
+
+    expect(classifyNetworkError(abort)).toEqual({ reason: "timeout", errorCode: null });
+    expect(classifyNetworkError(fetchFailed("ECONNRESET"))).toEqual({ reason: "network", errorCode: "ECONNRESET" });
+    expect(classifyNetworkError(fetchFailed("EAI_AGAIN"))).toEqual({ reason: "network", errorCode: "EAI_AGAIN" });
+    expect(classifyNetworkError(new TypeError("fetch failed"))).toEqual({ reason: "network", errorCode: null });
+    expect(classifyNetworkError(fetchFailed("CERT_HAS_EXPIRED"))).toBeNull();
+    expect(classifyNetworkError(new Error("Failed to parse Spotify API response as JSON"))).toBeNull();
+  });
+});
+
+describe("Retrier", () => {
+  it("jitters the backoff, honors Retry-After, and reports each retry", () => {
+    const events: RetryEvent[] = [];
+    const retrier = new Retrier(DEFAULT_RETRY_POLICY, () => 0.5, (event) => events.push(event));
+
+    expect(retrier.nextDelay("GET /me", 1, serverError)).toBe(250);
+    expect(retrier.nextDelay("GET /me", 2, serverError)).toBe(500);
+    const rateLimited = { ...serverError, reason: "rate-limit" as const, status: 429, retryAfterMs: 4000 };
+    expect(retrier.nextDelay("GET /me", 3, rateLimited)).toBe(4000);
+    expect(retrier.nextDelay("GET /me", 5, serverError)).toBeNull();
+
+    expect(events.map((event) => [event.attempt, event.reason, event.delayMs, event.budgetRemainingMs])).toEqual([
+      [1, "server-error", 250, 299750],
+      [2, "server-error", 500, 299250],
+      [3, "rate-limit", 4000, 295250]
+    ]);
+  });
+
+  it("stops retrying once a wait would go past the budget shared by every request", () => {
+    const retrier = new Retrier({ ...DEFAULT_RETRY_POLICY, retryBudgetMs: 5000 }, () => 0.5);
+    const rateLimited = { ...serverError, reason: "rate-limit" as const, status: 429, retryAfterMs: 3000 };
+
+    expect(retrier.nextDelay("GET /me", 1, rateLimited)).toBe(3000);
+    expect(retrier.nextDelay("GET /me/tracks", 1, rateLimited)).toBeNull();
+    expect(retrier.nextDelay("GET /me/tracks", 1, serverError)).toBe(250);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { describeViolation, dropsTracksOverTime, exceededRemovalLimit } from "../src/safety-guard";
+
+describe("exceededRemovalLimit", () => {
+  it("allows removals within both limits", () => {
+    expect(exceededRemovalLimit(100, 50, { maxRemovedPercent: 50, maxRemovedCount: 50 })).toBeNull();
+    expect(exceededRemovalLimit(0, 0, { maxRemovedPercent: 0, maxRemovedCount: 0 })).toBeNull();
+  });
+
+  it("names the first limit a removal exceeds", () => {
+    expect(exceededRemovalLimit(100, 51, { maxRemovedPercent: 50, maxRemovedCount: null })).toBe(
+      "maxRemovedPercent=50"
+    );
+    expect(exceededRemovalLimit(1000, 60, { maxRemovedPercent: 50, maxRemovedCount: 40 })).toBe(
+      "maxRemovedCount=40"
+    );
+  });
+});
+
+describe("describeViolation", () => {
+  it("explains a shrunken selection, a refused playlist and held unlikes", () => {
+    expect(
+      describeViolation({ target: "a", playlistId: null, previousCount: 900, removedCount: 900, limit: "x=1" })
+    ).toBe("Target a: 0 track(s) selected where the previous run had 900, which would remove 900 (exceeds x=1).");
+    expect(
+      describeViolation({ target: "a", playlistId: "p1", previousCount: 10, removedCount: 6, limit: "x=1" })
+    ).toBe("Target a: would remove 6 of the 10 track(s) in playlist p1 (exceeds x=1).");
+    expect(
+      describeViolation({
+        target: "graveyard",
+        playlistId: "g1",
+        previousCount: 10,
+        removedCount: 6,
+        limit: "x=1",
+        library: "unliked"
+      })
+    ).toBe(
+      "Graveyard: 6 of the 10 track(s) liked on the previous run are no longer liked (exceeds x=1); " +
+        "they were not moved to the graveyard."
+    );
+  });
+
+  it("explains an emptied selection and a shrunken library", () => {
+    expect(
+      describeViolation({ target: "a", playlistId: null, previousCount: 5, removedCount: 5, limit: "emptySelection" })
+    ).toBe("Target a: no tracks selected where the previous run had 5, which would empty it.");
+    expect(
+      describeViolation({
+        target: "liked-songs",
+        playlistId: null,
+        previousCount: 900,
+        removedCount: 850,
+        limit: "x=1",
+        library: "total"
+      })
+    ).toBe("Liked Songs: 50 track(s) where the previous run had 900, 850 fewer (exceeds x=1).");
+  });
+});
+
+describe("dropsTracksOverTime", () => {
+  it("spots rolling windows in days and liked-date filters at any depth", () => {
+    const recent = { likedAt: { withinDays: 7 } };
+
+    expect(dropsTracksOverTime({ window: null, filter: [] })).toBe(false);
+    expect(dropsTracksOverTime({ window: { days: null, count: 50 }, filter: [] })).toBe(false);
+    expect(dropsTracksOverTime({ window: { days: 7, count: null }, filter: [] })).toBe(true);
+    expect(
+      dropsTracksOverTime({
+        window: null,
+        filter: [{ name: "old", action: "exclude", condition: { likedAt: { before: "2020-01-01" } } }]
+      })
+    ).toBe(false);
+    expect(
+      dropsTracksOverTime({
+        window: null,
+        filter: [{ name: "recent", action: "include", condition: { any: [{ explicit: false }, { not: recent }] } }]
+      })
+    ).toBe(true);
+  });
+});
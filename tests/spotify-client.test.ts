@@ -1,439 +1,915 @@
 import { describe, expect, it } from "vitest";
-import { SpotifyClient } from "../src/spotify-client";
-
-describe("SpotifyClient fetch pagination", () => {
-  it("collects all liked track pages", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      const responses = [
-        {
-          items: [
-            {
-              added_at: "2026-01-02T00:00:00.000Z",
-              track: { id: "1", uri: "spotify:track:1" }
-            }
-          ],
-          limit: 1,
-          offset: 0,
-          total: 2,
-          next: "next"
-        },
-        {
-          items: [
-            {
-              added_at: "2026-01-01T00:00:00.000Z",
-              track: { id: "2", uri: "spotify:track:2" }
-            }
-          ],
-          limit: 1,
-          offset: 1,
-          total: 2,
-          next: null
-        }
-      ];
-
-      let callCount = 0;
-      globalThis.fetch = (async () => {
-        const payload = responses[callCount++];
-        return {
+import { RefreshTokenRevokedError, SpotifyClient, type RetryEvent } from "../src/spotify-client";
+
+/**
+ * Wraps a fetch stub so token requests get an access token and only API
+ * requests reach the stub.
+ *
+ * @param {typeof fetch} fetchImpl - The stub for API requests.
+ * @returns {typeof fetch} The wrapped stub.
+ */
+function withTokenEndpoint(fetchImpl: typeof fetch): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) =>
+    String(input).endsWith("/api/token")
+      ? ({
           ok: true,
           status: 200,
           headers: new Headers(),
-          text: async () => JSON.stringify(payload)
-        } as Response;
-      }) as typeof fetch;
-
-      const client = new SpotifyClient("id", "secret", "refresh");
-      const result = await client.fetchAllLikedTracks("token");
+          text: async () => JSON.stringify({ access_token: "token", expires_in: 3600 })
+        } as Response)
+      : fetchImpl(input, init)) as typeof fetch;
+}
 
-      expect(result).toHaveLength(2);
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+describe("SpotifyClient fetch pagination", () => {
+  it("collects all liked track pages", async () => {
+    const responses = [
+      {
+        items: [
+          {
+            added_at: "2026-01-02T00:00:00.000Z",
+            track: { id: "1", uri: "spotify:track:1" }
+          }
+        ],
+        limit: 1,
+        offset: 0,
+        total: 2,
+        next: "next"
+      },
+      {
+        items: [
+          {
+            added_at: "2026-01-01T00:00:00.000Z",
+            track: { id: "2", uri: "spotify:track:2" }
+          }
+        ],
+        limit: 1,
+        offset: 1,
+        total: 2,
+        next: null
+      }
+    ];
+
+    let callCount = 0;
+    const fetchImpl = (async () => {
+      const payload = responses[callCount++];
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify(payload)
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint(fetchImpl),
+      parallelPages: false
+    });
+    const result = await client.fetchAllLikedTracks();
+
+    expect(result).toHaveLength(2);
   });
 
   it("follows the next cursor across multiple pages instead of a snapshot total", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      const requestedUrls: string[] = [];
-      const responses = [
-        {
-          items: [{ added_at: "2026-01-03T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }],
-          limit: 1,
-          offset: 0,
-          total: 3,
-          next: "https://api.spotify.com/v1/me/tracks?limit=1&offset=1"
-        },
-        {
-          items: [{ added_at: "2026-01-02T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2" } }],
-          limit: 1,
-          offset: 1,
-          total: 3,
-          next: "https://api.spotify.com/v1/me/tracks?limit=1&offset=2"
-        },
-        {
-          items: [{ added_at: "2026-01-01T00:00:00.000Z", track: { id: "3", uri: "spotify:track:3" } }],
-          limit: 1,
-          offset: 2,
-          total: 3,
-          next: null
-        }
-      ];
+    const requestedUrls: string[] = [];
+    const responses = [
+      {
+        items: [{ added_at: "2026-01-03T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }],
+        limit: 1,
+        offset: 0,
+        total: 3,
+        next: "https://api.spotify.com/v1/me/tracks?limit=1&offset=1"
+      },
+      {
+        items: [{ added_at: "2026-01-02T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2" } }],
+        limit: 1,
+        offset: 1,
+        total: 3,
+        next: "https://api.spotify.com/v1/me/tracks?limit=1&offset=2"
+      },
+      {
+        items: [{ added_at: "2026-01-01T00:00:00.000Z", track: { id: "3", uri: "spotify:track:3" } }],
+        limit: 1,
+        offset: 2,
+        total: 3,
+        next: null
+      }
+    ];
+
+    let callCount = 0;
+    const fetchImpl = (async (url: string) => {
+      requestedUrls.push(url);
+      const payload = responses[callCount++];
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify(payload)
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint(fetchImpl),
+      parallelPages: false
+    });
+    const result = await client.fetchAllLikedTracks();
+
+    expect(result).toHaveLength(3);
+    expect(result.map((item) => item.track?.id)).toEqual(["1", "2", "3"]);
+    // Subsequent requests must use the URLs from `next`, not self-computed offsets.
+    expect(requestedUrls[1]).toBe("https://api.spotify.com/v1/me/tracks?limit=1&offset=1");
+    expect(requestedUrls[2]).toBe("https://api.spotify.com/v1/me/tracks?limit=1&offset=2");
+  });
 
-      let callCount = 0;
-      globalThis.fetch = (async (url: string) => {
-        requestedUrls.push(url);
-        const payload = responses[callCount++];
-        return {
-          ok: true,
-          status: 200,
-          headers: new Headers(),
-          text: async () => JSON.stringify(payload)
-        } as Response;
-      }) as typeof fetch;
-
-      const client = new SpotifyClient("id", "secret", "refresh");
-      const result = await client.fetchAllLikedTracks("token");
-
-      expect(result).toHaveLength(3);
-      expect(result.map((item) => item.track?.id)).toEqual(["1", "2", "3"]);
-      // Subsequent requests must use the URLs from `next`, not self-computed offsets.
-      expect(requestedUrls[1]).toBe("https://api.spotify.com/v1/me/tracks?limit=1&offset=1");
-      expect(requestedUrls[2]).toBe("https://api.spotify.com/v1/me/tracks?limit=1&offset=2");
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+  it("stops paging once stopWhen reports the collected tracks suffice, still reporting the total", async () => {
+    const page = (offset: number) => ({
+      items: [{ added_at: "2026-01-01T00:00:00.000Z", track: { id: `${offset}`, uri: `spotify:track:${offset}` } }],
+      limit: 1,
+      offset,
+      total: 3,
+      next: `https://api.spotify.com/v1/me/tracks?limit=1&offset=${offset + 1}`
+    });
+
+    let callCount = 0;
+    const fetchImpl = (async () => {
+      const payload = page(callCount++);
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify(payload)
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    const totals: number[] = [];
+    const result = await client.fetchAllLikedTracks({
+      stopWhen: (collected) => collected.length >= 2,
+      onTotal: (total) => totals.push(total)
+    });
+
+    expect(callCount).toBe(2);
+    expect(result.map((item) => item.track?.id)).toEqual(["0", "1"]);
+    expect(totals).toEqual([3]);
   });
 
   it("requests /me/tracks with market=from_token so is_playable is populated", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      const requestedUrls: string[] = [];
-      globalThis.fetch = (async (url: string) => {
-        requestedUrls.push(url);
-        return {
-          ok: true,
-          status: 200,
-          headers: new Headers(),
-          text: async () =>
-            JSON.stringify({
-              items: [{ added_at: "2026-01-01T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }],
-              limit: 50,
-              offset: 0,
-              total: 1,
-              next: null
-            })
-        } as Response;
-      }) as typeof fetch;
-
-      const client = new SpotifyClient("id", "secret", "refresh");
-      await client.fetchAllLikedTracks("token");
-
-      expect(requestedUrls).toHaveLength(1);
-      const requested = new URL(requestedUrls[0]);
-      expect(requested.pathname).toBe("/v1/me/tracks");
-      expect(requested.searchParams.get("market")).toBe("from_token");
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+    const requestedUrls: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      requestedUrls.push(url);
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () =>
+          JSON.stringify({
+            items: [{ added_at: "2026-01-01T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }],
+            limit: 50,
+            offset: 0,
+            total: 1,
+            next: null
+          })
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    await client.fetchAllLikedTracks();
+
+    expect(requestedUrls).toHaveLength(1);
+    const requested = new URL(requestedUrls[0]);
+    expect(requested.pathname).toBe("/v1/me/tracks");
+    expect(requested.searchParams.get("market")).toBe("from_token");
   });
 
   it("stops on a null next cursor even when total shrinks mid-read (library shrinking)", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      // First page reports total=3 (next set); by the second page the library
-      // has shrunk: total drops to 2 and next is null. Driving off a snapshot
-      // total (3) would over-page and re-request a now-missing page; following
-      // `next` correctly stops after the second page.
-      const responses = [
-        {
-          items: [{ added_at: "2026-01-03T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }],
-          limit: 1,
-          offset: 0,
-          total: 3,
-          next: "https://api.spotify.com/v1/me/tracks?limit=1&offset=1"
-        },
-        {
-          items: [{ added_at: "2026-01-02T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2" } }],
-          limit: 1,
-          offset: 1,
-          total: 2,
-          next: null
-        }
-      ];
+    // First page reports total=3 (next set); by the second page the library
+    // has shrunk: total drops to 2 and next is null. Driving off a snapshot
+    // total (3) would over-page and re-request a now-missing page; following
+    // `next` correctly stops after the second page.
+    const responses = [
+      {
+        items: [{ added_at: "2026-01-03T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }],
+        limit: 1,
+        offset: 0,
+        total: 3,
+        next: "https://api.spotify.com/v1/me/tracks?limit=1&offset=1"
+      },
+      {
+        items: [{ added_at: "2026-01-02T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2" } }],
+        limit: 1,
+        offset: 1,
+        total: 2,
+        next: null
+      }
+    ];
+
+    let callCount = 0;
+    const fetchImpl = (async () => {
+      const payload = responses[callCount++];
+      if (!payload) {
+        throw new Error(`Unexpected extra page request (call #${callCount})`);
+      }
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify(payload)
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint(fetchImpl),
+      parallelPages: false
+    });
+    const result = await client.fetchAllLikedTracks();
+
+    expect(callCount).toBe(2);
+    expect(result.map((item) => item.track?.id)).toEqual(["1", "2"]);
+  });
+});
 
-      let callCount = 0;
-      globalThis.fetch = (async () => {
-        const payload = responses[callCount++];
-        if (!payload) {
-          throw new Error(`Unexpected extra page request (call #${callCount})`);
+describe("SpotifyClient parallel pagination", () => {
+  /**
+   * Serves a liked-tracks library page by page, in pages of 2.
+   *
+   * @param {() => string[]} library - Returns the liked track IDs, newest first, at the time of each request.
+   * @param {string[]} requested - Receives the offset of every page request.
+   * @returns {typeof fetch} The fetch stub.
+   */
+  const serveLibrary = (library: () => string[], requested: string[]) =>
+    withTokenEndpoint((async (url: string) => {
+      const ids = library();
+      const offset = Number(new URL(url).searchParams.get("offset"));
+      requested.push(String(offset));
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      const next = new URL(url);
+      next.searchParams.set("offset", String(offset + 2));
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () =>
+          JSON.stringify({
+            items: ids
+              .slice(offset, offset + 2)
+              .map((id) => ({ added_at: id, track: { id, uri: `spotify:track:${id}` } })),
+            limit: 2,
+            offset,
+            total: ids.length,
+            next: offset + 2 < ids.length ? next.toString() : null
+          })
+      } as Response;
+    }) as typeof fetch);
+
+  it("fetches the remaining pages concurrently and re-reads the first page to confirm nothing changed", async () => {
+    const requested: string[] = [];
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: serveLibrary(() => ["5", "4", "3", "2", "1"], requested)
+    });
+
+    const result = await client.fetchAllLikedTracks();
+
+    expect(result.map((item) => item.track?.id)).toEqual(["5", "4", "3", "2", "1"]);
+    expect(requested).toEqual(["0", "2", "4", "0"]);
+  });
+
+  it("falls back to following next cursors when the library changes mid-read", async () => {
+    const requested: string[] = [];
+    const library = ["5", "4", "3", "2", "1"];
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: serveLibrary(() => {
+        // A new like lands after the first page was read.
+        if (requested.length === 1) {
+          library.unshift("6");
         }
-        return {
-          ok: true,
-          status: 200,
-          headers: new Headers(),
-          text: async () => JSON.stringify(payload)
-        } as Response;
-      }) as typeof fetch;
+        return library;
+      }, requested)
+    });
 
-      const client = new SpotifyClient("id", "secret", "refresh");
-      const result = await client.fetchAllLikedTracks("token");
+    const result = await client.fetchAllLikedTracks();
 
-      expect(callCount).toBe(2);
-      expect(result.map((item) => item.track?.id)).toEqual(["1", "2"]);
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+    expect(result.map((item) => item.track?.id)).toEqual(["6", "5", "4", "3", "2", "1"]);
+    expect(requested).toEqual(["0", "2", "4", "0", "0", "2", "4"]);
   });
 });
 
 describe("SpotifyClient 401 handling", () => {
   it("refreshes the access token and retries once on a 401", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      const calls: string[] = [];
-      let apiCallCount = 0;
-      let tokenCallCount = 0;
-
-      globalThis.fetch = (async (input: RequestInfo | URL) => {
-        const url = typeof input === "string" ? input : input.toString();
-        calls.push(url);
-
-        if (url.includes("accounts.spotify.com")) {
-          tokenCallCount += 1;
-          return {
-            ok: true,
-            status: 200,
-            headers: new Headers(),
-            text: async () => JSON.stringify({ access_token: "fresh-token" })
-          } as Response;
-        }
+    const calls: string[] = [];
+    let apiCallCount = 0;
+    let tokenCallCount = 0;
 
-        apiCallCount += 1;
-        if (apiCallCount === 1) {
-          // First API call: simulate an expired token mid-sync.
-          return {
-            ok: false,
-            status: 401,
-            headers: new Headers(),
-            text: async () => JSON.stringify({ error: { message: "The access token expired" } })
-          } as Response;
-        }
+    const fetchImpl = (async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+      calls.push(url);
 
+      if (url.includes("accounts.spotify.com")) {
+        tokenCallCount += 1;
         return {
           ok: true,
           status: 200,
           headers: new Headers(),
-          text: async () => JSON.stringify({ id: "user-1", display_name: "Shane" })
+          text: async () => JSON.stringify({ access_token: "fresh-token" })
         } as Response;
-      }) as typeof fetch;
-
-      const client = new SpotifyClient("id", "secret", "refresh");
-      const user = await client.getCurrentUser("stale-token");
-
-      expect(user.id).toBe("user-1");
-      // One token refresh triggered, and the API call retried after it.
-      expect(tokenCallCount).toBe(1);
-      expect(apiCallCount).toBe(2);
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+      }
+
+      apiCallCount += 1;
+      if (apiCallCount === 1) {
+        // First API call: simulate an expired token mid-sync.
+        return {
+          ok: false,
+          status: 401,
+          headers: new Headers(),
+          text: async () => JSON.stringify({ error: { message: "The access token expired" } })
+        } as Response;
+      }
+
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ id: "user-1", display_name: "Shane" })
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: fetchImpl });
+    const user = await client.getCurrentUser();
+
+    expect(user.id).toBe("user-1");
+    // The first token, one refresh triggered by the 401, and the API call retried after it.
+    expect(tokenCallCount).toBe(2);
+    expect(apiCallCount).toBe(2);
   });
 
   it("does not loop forever when the refreshed token still yields 401", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      let tokenCallCount = 0;
-
-      globalThis.fetch = (async (input: RequestInfo | URL) => {
-        const url = typeof input === "string" ? input : input.toString();
-
-        if (url.includes("accounts.spotify.com")) {
-          tokenCallCount += 1;
-          return {
-            ok: true,
-            status: 200,
-            headers: new Headers(),
-            text: async () => JSON.stringify({ access_token: "fresh-token" })
-          } as Response;
-        }
+    let tokenCallCount = 0;
 
+    const fetchImpl = (async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url.includes("accounts.spotify.com")) {
+        tokenCallCount += 1;
         return {
-          ok: false,
-          status: 401,
+          ok: true,
+          status: 200,
           headers: new Headers(),
-          text: async () => JSON.stringify({ error: { message: "Invalid token" } })
+          text: async () => JSON.stringify({ access_token: "fresh-token" })
         } as Response;
-      }) as typeof fetch;
+      }
+
+      return {
+        ok: false,
+        status: 401,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ error: { message: "Invalid token" } })
+      } as Response;
+    }) as typeof fetch;
 
-      const client = new SpotifyClient("id", "secret", "refresh");
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: fetchImpl });
 
-      await expect(client.getCurrentUser("stale-token")).rejects.toMatchObject({ status: 401 });
-      // Refresh attempted exactly once; the second 401 is treated as fatal.
-      expect(tokenCallCount).toBe(1);
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+    await expect(client.getCurrentUser()).rejects.toMatchObject({ status: 401 });
+    // Refresh attempted exactly once after the first token; the second 401 is treated as fatal.
+    expect(tokenCallCount).toBe(2);
   });
 });
 
-describe("SpotifyClient response parsing", () => {
-  it("throws a descriptive error when a 2xx body is not valid JSON", async () => {
-    const originalFetch = globalThis.fetch;
+describe("SpotifyClient token management", () => {
+  const respond = (status: number, payload: unknown) =>
+    ({
+      ok: status < 400,
+      status,
+      headers: new Headers(),
+      text: async () => JSON.stringify(payload)
+    }) as Response;
+
+  it("reuses the access token until shortly before it expires, sharing one refresh", async () => {
+    let now = 0;
+    let tokenCallCount = 0;
+    const authorizations: string[] = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      if (url.endsWith("/api/token")) {
+        tokenCallCount += 1;
+        return respond(200, { access_token: `token-${tokenCallCount}`, expires_in: 3600 });
+      }
+
+      authorizations.push(new Headers(init?.headers).get("authorization")!);
+      return respond(200, { id: "user-1" });
+    }) as typeof fetch;
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: fetchImpl, now: () => now });
+
+    await Promise.all([client.getCurrentUser(), client.getCurrentUser()]);
+    now = 3600000 - 60001;
+    await client.getCurrentUser();
+    now = 3600000 - 60000;
+    await client.getCurrentUser();
+
+    expect(tokenCallCount).toBe(2);
+    expect(authorizations).toEqual(["Bearer token-1", "Bearer token-1", "Bearer token-1", "Bearer token-2"]);
+  });
 
-    try {
-      globalThis.fetch = (async () =>
-        ({
-          ok: true,
-          status: 200,
-          headers: new Headers(),
-          text: async () => "<html>502 Bad Gateway</html>"
-        }) as Response) as typeof fetch;
+  it("hands a rotated refresh token to the callback and refreshes with it from then on", async () => {
+    const refreshTokens: string[] = [];
+    const fetchImpl = (async (_url: string, init?: RequestInit) => {
+      refreshTokens.push(new URLSearchParams(String(init?.body)).get("refresh_token")!);
+      return respond(200, { access_token: "token", expires_in: 0, refresh_token: "rotated" });
+    }) as typeof fetch;
+    const rotated: string[] = [];
+    const client = new SpotifyClient("id", "secret", "original", {
+      fetch: fetchImpl,
+      onRefreshTokenRotated: (token) => void rotated.push(token)
+    });
+
+    await client.getAccessToken();
+    await client.getAccessToken();
+
+    expect(refreshTokens).toEqual(["original", "rotated"]);
+    expect(rotated).toEqual(["rotated"]);
+  });
 
-      const client = new SpotifyClient("id", "secret", "refresh");
+  it("explains a rejected refresh token instead of retrying", async () => {
+    let tokenCallCount = 0;
+    const fetchImpl = (async () => {
+      tokenCallCount += 1;
+      return respond(400, { error: "invalid_grant", error_description: "Refresh token revoked" });
+    }) as typeof fetch;
+    const client = new SpotifyClient("id", "secret", "revoked", { fetch: fetchImpl });
+
+    const failure = client.getCurrentUser();
+    await expect(failure).rejects.toBeInstanceOf(RefreshTokenRevokedError);
+    await expect(failure).rejects.toThrow(/invalid_grant: Refresh token revoked.*re-run npm run auth/);
+    expect(tokenCallCount).toBe(1);
+  });
+});
 
-      await expect(client.getCurrentUser("token")).rejects.toThrow(
-        /Failed to parse Spotify API response as JSON/
-      );
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+describe("SpotifyClient response parsing", () => {
+  it("throws a descriptive error when a 2xx body is not valid JSON", async () => {
+    const fetchImpl = (async () =>
+      ({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => "<html>502 Bad Gateway</html>"
+      }) as Response) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+
+    await expect(client.getCurrentUser()).rejects.toThrow(
+      /Failed to parse Spotify API response as JSON/
+    );
   });
 
   it("honors Retry-After: 0 (immediate retry) on a 429", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      let callCount = 0;
-      globalThis.fetch = (async () => {
-        callCount += 1;
-        if (callCount === 1) {
-          return {
-            ok: false,
-            status: 429,
-            headers: new Headers({ "retry-after": "0" }),
-            text: async () => JSON.stringify({ error: { message: "rate limited" } })
-          } as Response;
-        }
-
+    let callCount = 0;
+    const fetchImpl = (async () => {
+      callCount += 1;
+      if (callCount === 1) {
         return {
-          ok: true,
-          status: 200,
-          headers: new Headers(),
-          text: async () => JSON.stringify({ id: "user-1", display_name: "Shane" })
+          ok: false,
+          status: 429,
+          headers: new Headers({ "retry-after": "0" }),
+          text: async () => JSON.stringify({ error: { message: "rate limited" } })
         } as Response;
-      }) as typeof fetch;
-
-      const client = new SpotifyClient("id", "secret", "refresh");
-      const start = Date.now();
-      const user = await client.getCurrentUser("token");
-      const elapsed = Date.now() - start;
-
-      expect(user.id).toBe("user-1");
-      expect(callCount).toBe(2);
-      // Retry-After: 0 should not fall back to the ~500ms exponential backoff.
-      expect(elapsed).toBeLessThan(300);
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+      }
+
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ id: "user-1", display_name: "Shane" })
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    const start = Date.now();
+    const user = await client.getCurrentUser();
+    const elapsed = Date.now() - start;
+
+    expect(user.id).toBe("user-1");
+    expect(callCount).toBe(2);
+    // Retry-After: 0 should not fall back to the ~500ms exponential backoff.
+    expect(elapsed).toBeLessThan(300);
   });
 });
 
 describe("SpotifyClient playlist export pagination", () => {
   it("fetches the owner mirror through the 2026 playlist items endpoint", async () => {
-    const originalFetch = globalThis.fetch;
-
-    try {
-      const requestedUrls: string[] = [];
-      const responses = [
-        {
-          items: [
-            {
-              added_at: "2026-07-24T10:00:00.000Z",
-              item: {
-                type: "track",
-                id: "track-1",
-                uri: "spotify:track:track-1",
-                name: "Synthetic Track One",
-                duration_ms: 180000,
-                explicit: false,
-                is_local: false,
-                external_urls: { spotify: "https://open.spotify.com/track/track-1" },
-                artists: [],
-                album: {
-                  id: "album-1",
-                  uri: "spotify:album:album-1",
-                  name: "Synthetic Album",
-                  release_date: "2026",
-                  external_urls: { spotify: "https://open.spotify.com/album/album-1" }
-                }
+    const requestedUrls: string[] = [];
+    const responses = [
+      {
+        items: [
+          {
+            added_at: "2026-07-24T10:00:00.000Z",
+            item: {
+              type: "track",
+              id: "track-1",
+              uri: "spotify:track:track-1",
+              name: "Synthetic Track One",
+              duration_ms: 180000,
+              explicit: false,
+              is_local: false,
+              external_urls: { spotify: "https://open.spotify.com/track/track-1" },
+              artists: [],
+              album: {
+                id: "album-1",
+                uri: "spotify:album:album-1",
+                name: "Synthetic Album",
+                release_date: "2026",
+                external_urls: { spotify: "https://open.spotify.com/album/album-1" }
               }
             }
-          ],
-          limit: 1,
-          offset: 0,
-          total: 2,
-          next: "https://api.spotify.com/v1/playlists/playlist-1/items?limit=1&offset=1"
-        },
-        {
-          items: [
-            {
-              added_at: "2026-07-24T09:00:00.000Z",
-              item: {
-                type: "track",
-                id: "track-2",
-                uri: "spotify:track:track-2",
-                name: "Synthetic Track Two",
-                duration_ms: 200000,
-                explicit: true,
-                is_local: false,
-                external_urls: { spotify: "https://open.spotify.com/track/track-2" },
-                artists: [],
-                album: {
-                  id: "album-2",
-                  uri: "spotify:album:album-2",
-                  name: "Synthetic Album Two",
-                  release_date: "2025",
-                  external_urls: { spotify: "https://open.spotify.com/album/album-2" }
-                }
+          }
+        ],
+        limit: 1,
+        offset: 0,
+        total: 2,
+        next: "https://api.spotify.com/v1/playlists/playlist-1/items?limit=1&offset=1"
+      },
+      {
+        items: [
+          {
+            added_at: "2026-07-24T09:00:00.000Z",
+            item: {
+              type: "track",
+              id: "track-2",
+              uri: "spotify:track:track-2",
+              name: "Synthetic Track Two",
+              duration_ms: 200000,
+              explicit: true,
+              is_local: false,
+              external_urls: { spotify: "https://open.spotify.com/track/track-2" },
+              artists: [],
+              album: {
+                id: "album-2",
+                uri: "spotify:album:album-2",
+                name: "Synthetic Album Two",
+                release_date: "2025",
+                external_urls: { spotify: "https://open.spotify.com/album/album-2" }
               }
             }
-          ],
-          limit: 1,
-          offset: 1,
-          total: 2,
-          next: null
-        }
-      ];
+          }
+        ],
+        limit: 1,
+        offset: 1,
+        total: 2,
+        next: null
+      }
+    ];
+
+    let callCount = 0;
+    const fetchImpl = (async (url: string) => {
+      requestedUrls.push(url);
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify(responses[callCount++])
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint(fetchImpl),
+      parallelPages: false
+    });
+    const result = await client.fetchAllPlaylistItems("playlist-1");
+
+    expect(result).toHaveLength(2);
+    expect(result.map((entry) => entry.item?.id)).toEqual(["track-1", "track-2"]);
+    expect(new URL(requestedUrls[0]).pathname).toBe("/v1/playlists/playlist-1/items");
+    expect(requestedUrls[1]).toBe(
+      "https://api.spotify.com/v1/playlists/playlist-1/items?limit=1&offset=1"
+    );
+  });
+});
 
-      let callCount = 0;
-      globalThis.fetch = (async (url: string) => {
-        requestedUrls.push(url);
-        return {
-          ok: true,
-          status: 200,
-          headers: new Headers(),
-          text: async () => JSON.stringify(responses[callCount++])
-        } as Response;
-      }) as typeof fetch;
-
-      const client = new SpotifyClient("id", "secret", "refresh");
-      const result = await client.fetchAllPlaylistItems("playlist-1", "token");
-
-      expect(result).toHaveLength(2);
-      expect(result.map((entry) => entry.item?.id)).toEqual(["track-1", "track-2"]);
-      expect(new URL(requestedUrls[0]).pathname).toBe("/v1/playlists/playlist-1/items");
-      expect(requestedUrls[1]).toBe(
-        "https://api.spotify.com/v1/playlists/playlist-1/items?limit=1&offset=1"
-      );
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+describe("SpotifyClient incremental playlist writes", () => {
+  it("sends positional inserts, URI removals and reorders with the snapshot ID", async () => {
+    const requests: Array<{ method: string; body: unknown }> = [];
+    const fetchImpl = (async (_url: string, init?: RequestInit) => {
+      requests.push({ method: init?.method ?? "GET", body: JSON.parse(String(init?.body)) });
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ snapshot_id: `snapshot-${requests.length}` })
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    const added = await client.addPlaylistItems("p1", ["spotify:track:1"], 0);
+    const removed = await client.removePlaylistItems("p1", ["spotify:track:2"], added);
+    await client.reorderPlaylistItems("p1", { rangeStart: 3, insertBefore: 0, rangeLength: 1, snapshotId: removed });
+
+    expect(requests).toEqual([
+      { method: "POST", body: { uris: ["spotify:track:1"], position: 0 } },
+      { method: "DELETE", body: { items: [{ uri: "spotify:track:2" }], snapshot_id: "snapshot-1" } },
+      {
+        method: "PUT",
+        body: { range_start: 3, insert_before: 0, range_length: 1, snapshot_id: "snapshot-2" }
+      }
+    ]);
+  });
+});
+
+describe("SpotifyClient playlist details", () => {
+  it("updates details as JSON and uploads covers as base64 JPEG", async () => {
+    const requests: Array<{ url: string; method: string; contentType: string; body: string }> = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      requests.push({
+        url,
+        method: init?.method ?? "GET",
+        contentType: new Headers(init?.headers).get("content-type") ?? "",
+        body: String(init?.body)
+      });
+      return { ok: true, status: 200, headers: new Headers(), text: async () => "" } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    await client.updatePlaylistDetails("p1", { description: "42 songs" });
+    await client.uploadPlaylistCover("p1", Buffer.from([0xff, 0xd8, 0xff, 0xd9]));
+
+    expect(requests).toEqual([
+      {
+        url: "https://api.spotify.com/v1/playlists/p1",
+        method: "PUT",
+        contentType: "application/json",
+        body: JSON.stringify({ description: "42 songs" })
+      },
+      {
+        url: "https://api.spotify.com/v1/playlists/p1/images",
+        method: "PUT",
+        contentType: "image/jpeg",
+        body: "/9j/2Q=="
+      }
+    ]);
+    await expect(client.uploadPlaylistCover("p1", Buffer.alloc(200 * 1024))).rejects.toThrow(
+      /Spotify accepts at most 262144/
+    );
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe("SpotifyClient playable equivalents", () => {
+  it("searches by ISRC first and falls back to an exact name and primary artist match", async () => {
+    const queries: string[] = [];
+    const band = [{ name: "Band" }];
+    const alternative = { id: "alt", uri: "spotify:track:alt", name: "SONG", artists: band, is_playable: true };
+    const results: Record<string, unknown[]> = {
+      "isrc:GBABC2600001": [{ id: "same", uri: "spotify:track:gone", is_playable: true }],
+      'track:"Song" artist:"Band"': [
+        { id: "live", uri: "spotify:track:live", name: "Song (Live)", artists: band, is_playable: true },
+        { id: "blocked", uri: "spotify:track:blocked", name: "song", artists: band, is_playable: false },
+        alternative
+      ]
+    };
+    const fetchImpl = (async (url: string) => {
+      const params = new URL(url).searchParams;
+      queries.push(params.get("q")!);
+      expect(params.get("market")).toBe("from_token");
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ tracks: { items: results[params.get("q")!] ?? [] } })
+      } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    const result = await client.findPlayableEquivalent(
+      {
+        id: "gone",
+        uri: "spotify:track:gone",
+        name: "Song",
+        artists: [{ id: "b", uri: "spotify:artist:b", name: "Band" }],
+        external_ids: { isrc: "GBABC2600001" },
+        is_playable: false
+      }
+    );
+
+    expect(queries).toEqual(["isrc:GBABC2600001", 'track:"Song" artist:"Band"']);
+    expect(result).toEqual({
+      track: alternative,
+      matchedBy: "name-artist"
+    });
+  });
+});
+
+describe("SpotifyClient library saves", () => {
+  it("sends like times only when every track has one", async () => {
+    const requests: Array<{ url: string; method: string; body: unknown }> = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      requests.push({ url, method: init?.method ?? "GET", body: JSON.parse(String(init?.body)) });
+      return { ok: true, status: 200, headers: new Headers(), text: async () => "" } as Response;
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    await client.saveLikedTracks([{ id: "1", likedAt: "2025-01-01T00:00:00.000Z" }]);
+    await client.saveLikedTracks(
+      [
+        { id: "1", likedAt: "2025-01-01T00:00:00.000Z" },
+        { id: "2", likedAt: null }
+      ]
+    );
+
+    expect(requests).toEqual([
+      {
+        url: "https://api.spotify.com/v1/me/tracks",
+        method: "PUT",
+        body: { timestamped_ids: [{ id: "1", added_at: "2025-01-01T00:00:00.000Z" }] }
+      },
+      { url: "https://api.spotify.com/v1/me/tracks", method: "PUT", body: { ids: ["1", "2"] } }
+    ]);
+  });
+});
+
+describe("SpotifyClient saved albums and episodes", () => {
+  it("follows each long album's own track pages after the saved albums page", async () => {
+    const page = (items: unknown[], next: string | null) => ({ items, limit: 50, offset: 0, total: 3, next });
+    const responses: Record<string, unknown> = {
+      "https://api.spotify.com/v1/me/albums?limit=50&offset=0&market=from_token": page(
+        [
+          {
+            added_at: "2026-01-01T00:00:00.000Z",
+            album: {
+              id: "a1",
+              uri: "spotify:album:a1",
+              name: "Long",
+              tracks: page([{ id: "1", uri: "spotify:track:1" }], "album-tracks-2")
+            }
+          }
+        ],
+        null
+      ),
+      "album-tracks-2": page([{ id: "2", uri: "spotify:track:2" }], null),
+      "https://api.spotify.com/v1/me/episodes?limit=50&offset=0&market=from_token": page(
+        [{ added_at: "2026-01-01T00:00:00.000Z", episode: null }],
+        null
+      )
+    };
+    const fetchImpl = (async (url: string) =>
+      ({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify(responses[url])
+      }) as Response) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", { fetch: withTokenEndpoint(fetchImpl) });
+    const [album] = await client.fetchAllSavedAlbums();
+    const episodes = await client.fetchAllSavedEpisodes();
+
+    expect(album.album.tracks.items.map((track) => track.uri)).toEqual(["spotify:track:1", "spotify:track:2"]);
+    expect(album.album.tracks.next).toBeNull();
+    expect(episodes).toEqual([{ added_at: "2026-01-01T00:00:00.000Z", episode: null }]);
+  });
+});
+
+describe("SpotifyClient options", () => {
+  const respond = (status: number, payload: unknown) =>
+    ({
+      ok: status < 400,
+      status,
+      headers: new Headers(),
+      text: async () => JSON.stringify(payload)
+    }) as Response;
+
+  it("sends requests, including the following pages, to the configured base URLs", async () => {
+    const requestedUrls: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      requestedUrls.push(url);
+      if (url.endsWith("/token")) {
+        return respond(200, { access_token: "token" });
+      }
+
+      return respond(200, {
+        items: [],
+        limit: 1,
+        offset: 0,
+        total: 2,
+        next: url.includes("offset=1") ? null : "https://api.spotify.com/v1/me/tracks?limit=1&offset=1"
+      });
+    }) as typeof fetch;
+
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: fetchImpl,
+      apiBaseUrl: "http://127.0.0.1:8080/v1/",
+      accountsBaseUrl: "http://127.0.0.1:8080/api",
+      parallelPages: false
+    });
+    await client.fetchAllLikedTracks();
+
+    expect(requestedUrls).toEqual([
+      "http://127.0.0.1:8080/api/token",
+      "http://127.0.0.1:8080/v1/me/tracks?limit=50&offset=0&market=from_token",
+      "http://127.0.0.1:8080/v1/me/tracks?limit=1&offset=1"
+    ]);
+  });
+
+  it("backs off through the injected sleep with full jitter within the retry policy", async () => {
+    let callCount = 0;
+    const fetchImpl = (async () =>
+      ++callCount < 3 ? respond(503, {}) : respond(200, { id: "user-1" })) as typeof fetch;
+    const delays: number[] = [];
+    const sleep = async (ms: number) => void delays.push(ms);
+
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint(fetchImpl),
+      retry: { initialDelayMs: 100, maxDelayMs: 150 },
+      random: () => 0.5,
+      sleep
+    });
+
+    await expect(client.getCurrentUser()).resolves.toMatchObject({ id: "user-1" });
+    expect(delays).toEqual([50, 75]);
+
+    callCount = 0;
+    const impatient = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint(fetchImpl),
+      retry: { maxRetries: 1 },
+      sleep
+    });
+    await expect(impatient.getCurrentUser()).rejects.toMatchObject({ status: 503 });
+    expect(callCount).toBe(2);
+  });
+
+  it("retries connection errors on token and API requests alike, reporting each retry", async () => {
+    const fetchFailed = (code: string) =>
+      new TypeError("fetch failed", { cause: Object.assign(new Error(`read ${code}`), { code }) });
+    const requested: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      requested.push(url.endsWith("/api/token") ? "token" : "me");
+      if (requested.length === 1) {
+        throw fetchFailed("EAI_AGAIN");
+      }
+
+      if (requested.length === 3) {
+        throw fetchFailed("ECONNRESET");
+      }
+
+      return respond(200, url.endsWith("/api/token") ? { access_token: "token", expires_in: 3600 } : { id: "user-1" });
+    }) as typeof fetch;
+    const events: RetryEvent[] = [];
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: fetchImpl,
+      random: () => 0,
+      sleep: async () => undefined,
+      onRetry: (event) => events.push(event)
+    });
+
+    await expect(client.getCurrentUser()).resolves.toMatchObject({ id: "user-1" });
+    expect(requested).toEqual(["token", "token", "me", "me"]);
+    expect(events).toMatchObject([
+      { request: "token request", attempt: 1, reason: "network", errorCode: "EAI_AGAIN" },
+      { request: "GET https://api.spotify.com/v1/me", attempt: 1, reason: "network", errorCode: "ECONNRESET" }
+    ]);
+
+    const doomed = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint((async () => {
+        throw fetchFailed("CERT_HAS_EXPIRED");
+      }) as typeof fetch)
+    });
+    await expect(doomed.getCurrentUser()).rejects.toThrow("fetch failed");
+  });
+
+  it("does not resend an insert whose connection was reset, as it may already have been applied", async () => {
+    const requested: string[] = [];
+    const events: RetryEvent[] = [];
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint((async (url: string, init?: RequestInit) => {
+        requested.push(`${init?.method ?? "GET"} ${url}`);
+        throw new TypeError("fetch failed", {
+          cause: Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" })
+        });
+      }) as typeof fetch),
+      random: () => 0,
+      sleep: async () => undefined,
+      onRetry: (event) => events.push(event)
+    });
+
+    await expect(client.addPlaylistItems("playlist-1", ["spotify:track:1"])).rejects.toThrow("fetch failed");
+    expect(requested).toEqual(["POST https://api.spotify.com/v1/playlists/playlist-1/items"]);
+    expect(events).toEqual([]);
+  });
+
+  it("does not resend an insert or a reorder that got a gateway error, but still retries reads", async () => {
+    const requested: string[] = [];
+    const events: RetryEvent[] = [];
+    const client = new SpotifyClient("id", "secret", "refresh", {
+      fetch: withTokenEndpoint((async (url: string, init?: RequestInit) => {
+        requested.push(init?.method ?? "GET");
+        return requested.length < 4 ? respond(502, {}) : respond(200, { id: "playlist-1", snapshot_id: "s1" });
+      }) as typeof fetch),
+      random: () => 0,
+      sleep: async () => undefined,
+      onRetry: (event) => events.push(event)
+    });
+
+    await expect(client.addPlaylistItems("playlist-1", ["spotify:track:1"])).rejects.toMatchObject({ status: 502 });
+    await expect(
+      client.reorderPlaylistItems("playlist-1", { rangeStart: 1, insertBefore: 0, rangeLength: 1, snapshotId: null })
+    ).rejects.toMatchObject({ status: 502 });
+    expect(events).toEqual([]);
+
+    await expect(client.getPlaylist("playlist-1")).resolves.toMatchObject({ snapshot_id: "s1" });
+    expect(requested).toEqual(["POST", "PUT", "GET", "GET"]);
+    expect(events).toMatchObject([{ reason: "server-error", status: 502 }]);
   });
 });
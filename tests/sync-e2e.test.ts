@@ -0,0 +1,265 @@
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AppConfig } from "../src/config";
+import { defaultMirrorTargets } from "../src/mirror-config";
+import { SpotifyClient } from "../src/spotify-client";
+import { syncLikedSongsMirror } from "../src/sync-service";
+import type { SpotifyTrack } from "../src/types";
+import { FakeSpotifyServer } from "./fake-spotify-server";
+
+const REPO_ROOT = path.resolve(__dirname, "..");
+const TSX = path.join(REPO_ROOT, "node_modules", ".bin", "tsx");
+
+const track = (n: number): SpotifyTrack => ({
+  id: `t${n}`,
+  uri: `spotify:track:t${n}`,
+  name: `Track ${n}`,
+  duration_ms: 200000,
+  explicit: false,
+  artists: [{ id: "a1", uri: "spotify:artist:a1", name: "Artist" }],
+  album: { id: "al1", uri: "spotify:album:al1", name: "Album" }
+});
+
+/** 120 likes: more than two pages of liked tracks, and three pages of playlist items. */
+const LIBRARY = Array.from({ length: 120 }, (_, i) => track(120 - i));
+
+describe("end-to-end against the fake Spotify server", () => {
+  let server: FakeSpotifyServer;
+  let workDir: string;
+
+  beforeEach(async () => {
+    server = new FakeSpotifyServer();
+    await server.start();
+    server.setLikedTracks(LIBRARY);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "mirror-e2e-"));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs a script of the repo in the work directory, against the fake server.
+   *
+   * @param {string} script - Script path relative to the repo root.
+   * @param {string[]} [args] - Script arguments.
+   * @param {Record<string, string>} [overrides] - Environment variables to change.
+   * @returns {Promise<{ stdout: string; stderr: string; code: number }>} The output and exit code.
+   */
+  async function run(
+    script: string,
+    args: string[] = [],
+    overrides: Record<string, string> = {}
+  ): Promise<{ stdout: string; stderr: string; code: number }> {
+    const env = {
+      PATH: process.env.PATH,
+      SPOTIFY_CLIENT_ID: "fake-client",
+      SPOTIFY_CLIENT_SECRET: "fake-secret",
+      SPOTIFY_REFRESH_TOKEN: server.refreshToken,
+      SPOTIFY_API_BASE_URL: server.apiBaseUrl,
+      SPOTIFY_ACCOUNTS_BASE_URL: server.accountsBaseUrl,
+      ...overrides
+    };
+
+    try {
+      const { stdout, stderr } = await promisify(execFile)(TSX, [path.join(REPO_ROOT, script), ...args], {
+        cwd: workDir,
+        env,
+        timeout: 60000
+      });
+      return { stdout, stderr, code: 0 };
+    } catch (error) {
+      const failed = error as { stdout: string; stderr: string; code: number };
+      return { stdout: failed.stdout, stderr: failed.stderr, code: failed.code };
+    }
+  }
+
+  it("creates the mirror on the first run, keeps it in step with new likes, and exports it", async () => {
+    // The first page of likes is rate limited once.
+    server.inject("GET", /^\/v1\/me\/tracks$/, { kind: "rate-limit", retryAfterSeconds: 0 });
+
+    const first = await run("src/index.ts");
+    expect(first.code).toBe(0);
+
+    const state = JSON.parse(await fs.readFile(path.join(workDir, "state", "state.json"), "utf8"));
+    const playlistId = state.targets["liked-songs"].playlistId as string;
+    expect(server.playlists.get(playlistId)).toMatchObject({ name: "Fake User's Liked Songs", public: true });
+    expect(server.playlists.get(playlistId)!.uris).toEqual(LIBRARY.map((item) => item.uri));
+
+    // Like a new track and unlike another; the token expires mid-run.
+    server.setLikedTracks([track(121), ...LIBRARY.filter((item) => item.id !== "t60")]);
+    server.inject("GET", /^\/v1\/playlists\/[^/]+\/items$/, { kind: "token-expired" });
+
+    const second = await run("src/index.ts");
+    expect(second.code).toBe(0);
+    expect(second.stdout).toMatch(/addedCount=1 removedCount=1 movedCount=0/);
+    expect(server.playlists.get(playlistId)!.uris).toEqual(server.likedTracks.map((item) => item.track!.uri));
+
+    const exported = await run("scripts/export-mirror-playlist.ts", ["--output", "export/mirror.json"]);
+    expect(exported.code).toBe(0);
+
+    const exportFile = JSON.parse(await fs.readFile(path.join(workDir, "export", "mirror.json"), "utf8"));
+    expect(exportFile.source.playlistId).toBe(playlistId);
+    expect(exportFile.tracks).toHaveLength(120);
+    expect(exportFile.tracks[0]).toMatchObject({ playlistPosition: 0, uri: "spotify:track:t121", name: "Track 121" });
+  }, 120000);
+
+  it("restores and exports every part playlist of a sharded mirror", async () => {
+    const config = { targets: [{ key: "liked-songs", maxTracksPerPlaylist: 50 }] };
+    await fs.writeFile(path.join(workDir, "mirror.config.json"), JSON.stringify(config), "utf8");
+    expect((await run("src/index.ts")).code).toBe(0);
+
+    const state = JSON.parse(await fs.readFile(path.join(workDir, "state", "state.json"), "utf8"));
+    const { playlistId, partPlaylistIds } = state.targets["liked-songs"];
+    expect(partPlaylistIds).toHaveLength(2);
+
+    server.setLikedTracks(LIBRARY.slice(0, 10));
+    const restore = await run("scripts/restore-liked-songs.ts", ["--dry-run"]);
+    expect(restore.code).toBe(0);
+    expect(restore.stdout).toMatch(/sourceCount=120 alreadyLikedCount=10 missingCount=110/);
+
+    const exported = await run("scripts/export-mirror-playlist.ts", ["--output", "export/mirror.json"]);
+    expect(exported.code).toBe(0);
+
+    const exportFile = JSON.parse(await fs.readFile(path.join(workDir, "export", "mirror.json"), "utf8"));
+    expect(exportFile.source).toMatchObject({ playlistId, partPlaylistIds });
+    expect(exportFile.tracks.map((exportTrack: { uri: string }) => exportTrack.uri)).toEqual(
+      LIBRARY.map((item) => item.uri)
+    );
+    expect(exportFile.tracks[119].playlistPosition).toBe(119);
+  }, 120000);
+
+  it("fails the run and leaves the state file alone when the refresh token is rejected", async () => {
+    await fs.mkdir(path.join(workDir, "state"));
+    await fs.writeFile(path.join(workDir, "state", "state.json"), '{ "targets": {} }\n', "utf8");
+
+    const result = await run("src/index.ts", [], { SPOTIFY_REFRESH_TOKEN: "revoked" });
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatch(
+      /Sync failed: Spotify rejected the refresh token \(invalid_grant: Invalid refresh token\).*npm run auth/
+    );
+    expect(await fs.readFile(path.join(workDir, "state", "state.json"), "utf8")).toBe('{ "targets": {} }\n');
+  }, 60000);
+
+  it("saves a rotated refresh token and uses it on the next run", async () => {
+    server.rotateRefreshTokens = true;
+    const overrides = { REFRESH_TOKEN_SINK: "state" };
+
+    const first = await run("src/index.ts", [], overrides);
+    expect(first.code).toBe(0);
+    const tokens = JSON.parse(await fs.readFile(path.join(workDir, "state", "refresh-tokens.json"), "utf8"));
+    expect(tokens).toEqual({ SPOTIFY_REFRESH_TOKEN: "fake-refresh-token-1" });
+
+    // The environment still holds the original token, which Spotify no longer accepts.
+    const second = await run("src/index.ts", [], overrides);
+    expect(second.code).toBe(0);
+    expect(server.refreshToken).toBe("fake-refresh-token-2");
+  }, 120000);
+
+  it("skips an unchanged run, and syncs fully once a mirror is edited or a full sync is asked for", async () => {
+    const client = new SpotifyClient("fake-client", "fake-secret", server.refreshToken, {
+      apiBaseUrl: server.apiBaseUrl,
+      accountsBaseUrl: server.accountsBaseUrl
+    });
+    const config: AppConfig = {
+      spotifyClientId: "fake-client",
+      spotifyClientSecret: "fake-secret",
+      spotifyRefreshToken: server.refreshToken,
+      spotifyClientOptions: {},
+      fallbackPlaylistName: "Liked Songs Mirror",
+      stateFilePath: path.join(workDir, "state.json"),
+      targets: defaultMirrorTargets(),
+      graveyard: null,
+      safety: { maxRemovedPercent: null, maxRemovedCount: null },
+      substituteUnplayable: false,
+      substitutionCachePath: path.join(workDir, "substitutions.json"),
+      fullSyncIntervalHours: 24
+    };
+
+    const first = await syncLikedSongsMirror(client, config, { targets: {} });
+    const playlistId = first.nextState.targets["liked-songs"].playlistId!;
+    expect(first.nextState.fingerprint).toMatchObject({
+      total: 120,
+      playlistSnapshots: { [playlistId]: `snapshot-${server.playlists.get(playlistId)!.version}` }
+    });
+
+    server.requests.length = 0;
+    const second = await syncLikedSongsMirror(client, config, first.nextState);
+    expect(second.summary).toMatchObject({ unchanged: true, likedCount: 120, targets: [] });
+    expect(second.nextState).toBe(first.nextState);
+    expect(server.requests).toEqual(["GET /v1/me/tracks", `GET /v1/playlists/${playlistId}`]);
+
+    // Someone removes a track from the mirror by hand.
+    const mirror = server.playlists.get(playlistId)!;
+    mirror.uris.pop();
+    mirror.version += 1;
+    const third = await syncLikedSongsMirror(client, config, second.nextState);
+    expect(third.summary).toMatchObject({ unchanged: false, targets: [{ addedCount: 1, removedCount: 0 }] });
+    expect(mirror.uris).toEqual(LIBRARY.map((item) => item.uri));
+
+    const forced = await syncLikedSongsMirror(client, config, third.nextState, { fullSync: true });
+    expect(forced.summary).toMatchObject({ unchanged: false, targets: [{ addedCount: 0, removedCount: 0 }] });
+  });
+
+  it("rides out server errors, timeouts and a forbidden empty clear in-process", async () => {
+    // The clock only moves when the client waits, so every wait is recorded exactly.
+    let clock = 0;
+    const delays: number[] = [];
+    const client = new SpotifyClient("fake-client", "fake-secret", server.refreshToken, {
+      apiBaseUrl: server.apiBaseUrl,
+      accountsBaseUrl: server.accountsBaseUrl,
+      timeoutMs: 1000,
+      rateLimit: { burst: 100 },
+      random: () => 0.5,
+      now: () => clock,
+      sleep: async (ms) => {
+        delays.push(ms);
+        clock += ms;
+      }
+    });
+    const config: AppConfig = {
+      spotifyClientId: "fake-client",
+      spotifyClientSecret: "fake-secret",
+      spotifyRefreshToken: server.refreshToken,
+      spotifyClientOptions: {},
+      fallbackPlaylistName: "Liked Songs Mirror",
+      stateFilePath: path.join(workDir, "state.json"),
+      targets: defaultMirrorTargets(),
+      graveyard: null,
+      safety: { maxRemovedPercent: null, maxRemovedCount: null },
+      substituteUnplayable: false,
+      substitutionCachePath: path.join(workDir, "substitutions.json"),
+      fullSyncIntervalHours: 0
+    };
+    server.addPlaylist({
+      id: "existing",
+      name: "Fake User's Liked Songs",
+      description: null,
+      public: true,
+      collaborative: false,
+      uris: ["spotify:track:t1", "spotify:track:gone"]
+    });
+    server.inject("GET", /^\/v1\/me$/, { kind: "server-error" });
+    server.inject("GET", /^\/v1\/me\/tracks$/, { kind: "rate-limit", retryAfterSeconds: 2 });
+    server.inject("GET", /^\/v1\/playlists\/existing\/items$/, { kind: "timeout" });
+
+    const result = await syncLikedSongsMirror(client, config, {
+      targets: { "liked-songs": { playlistId: "existing" } }
+    });
+
+    expect(server.playlists.get("existing")!.uris).toEqual(LIBRARY.map((item) => item.uri));
+    expect(result.summary.targets[0]).toMatchObject({ playlistId: "existing", addedCount: 119, removedCount: 1 });
+    // Backoff is jittered (to half, here), a server's Retry-After is not.
+    expect(delays).toEqual([250, 2000, 250]);
+
+    server.inject("PUT", /^\/v1\/playlists\/existing\/items$/, { kind: "forbidden" });
+    server.playlists.get("existing")!.uris = [];
+    await expect(client.replacePlaylistItems("existing", [])).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { planMirrorDiff } from "../src/mirror-diff";
+import { buildPlaylistPlan, formatSyncPlan } from "../src/sync-plan";
+
+describe("buildPlaylistPlan", () => {
+  it("labels added tracks from liked metadata and removed tracks from the live mirror", () => {
+    const playlist = buildPlaylistPlan({
+      part: 1,
+      playlist: { id: "p1", name: null, create: false },
+      diff: planMirrorDiff(["spotify:track:old"], ["spotify:track:new"]),
+      likedTracks: [
+        {
+          added_at: "2026-01-01T00:00:00.000Z",
+          track: {
+            id: "new",
+            uri: "spotify:track:new",
+            name: "New Song",
+            artists: [{ id: "a1", uri: "spotify:artist:a1", name: "Synthetic Artist" }]
+          }
+        }
+      ],
+      mirrorItems: [
+        {
+          added_at: null,
+          item: { type: "episode", id: "old", uri: "spotify:track:old", name: "Old Song" }
+        }
+      ]
+    });
+
+    expect(playlist.added).toEqual([
+      { uri: "spotify:track:new", name: "New Song", artists: ["Synthetic Artist"], position: 0 }
+    ]);
+    expect(playlist.removed).toEqual([{ uri: "spotify:track:old", name: "Old Song", artists: [] }]);
+    expect(
+      formatSyncPlan({
+        target: "liked-songs",
+        dryRun: true,
+        playlists: [playlist],
+        retiredPlaylistIds: [],
+        skipped: [{ uri: "spotify:track:x", name: "Gone Song", reason: "unplayable" }],
+        duplicates: [
+          { keptUri: "spotify:track:new", droppedUri: "spotify:track:single", name: "New Song", matchedBy: "isrc" }
+        ]
+      })
+    ).toEqual([
+      "Sync plan for target liked-songs (dry run, nothing will be written):",
+      "  Playlist: existing playlistId=p1",
+      "  Add 1 track(s):",
+      "    + [0] New Song — Synthetic Artist (spotify:track:new)",
+      "  Remove 1 track(s):",
+      "    - Old Song (spotify:track:old)",
+      "  Move 0 track(s):",
+      "  Skip 1 track(s):",
+      "    ! Gone Song (spotify:track:x) [unplayable]",
+      "  Collapse 1 duplicate(s):",
+      "    = New Song (spotify:track:single) kept as spotify:track:new [isrc]"
+    ]);
+  });
+
+  it("numbers parts and lists retired part playlists when a target spans several playlists", () => {
+    const part = (number: number) =>
+      buildPlaylistPlan({
+        part: number,
+        playlist: { id: `p${number}`, name: null, create: false },
+        diff: planMirrorDiff([], []),
+        likedTracks: [],
+        mirrorItems: []
+      });
+
+    expect(
+      formatSyncPlan({
+        target: "liked-songs",
+        dryRun: false,
+        playlists: [part(1), part(2)],
+        retiredPlaylistIds: ["p3"],
+        skipped: [],
+        duplicates: []
+      })
+    ).toEqual([
+      "Sync plan for target liked-songs:",
+      "  Playlist (part 1): existing playlistId=p1",
+      "  Add 0 track(s):",
+      "  Remove 0 track(s):",
+      "  Move 0 track(s):",
+      "  Playlist (part 2): existing playlistId=p2",
+      "  Add 0 track(s):",
+      "  Remove 0 track(s):",
+      "  Move 0 track(s):",
+      "  Retire surplus part playlistId=p3",
+      "  Skip 0 track(s):"
+    ]);
+  });
+});
@@ -1,30 +1,96 @@
 import { describe, expect, it } from "vitest";
 import type { AppConfig } from "../src/config";
+import { defaultMirrorTargets, defaultSafetyConfig, type MirrorTargetConfig } from "../src/mirror-config";
 import type { SpotifyClient } from "../src/spotify-client";
-import { buildInitialPlaylistName, selectCandidateUris, syncLikedSongsMirror } from "../src/sync-service";
+import {
+  buildInitialPlaylistName,
+  renderPlaylistName,
+  selectCandidateUris,
+  selectLikedWindow,
+  syncLikedSongsMirror,
+  type SyncOptions
+} from "../src/sync-service";
 import type { AppState, SavedTrackItem } from "../src/types";
 
 type RecordedCall =
-  | { op: "replace"; uris: string[] }
-  | { op: "add"; uris: string[] };
+  | { op: "create"; name: string; visibility: string; description?: string }
+  | { op: "add"; uris: string[]; position?: number }
+  | { op: "remove"; uris: string[] }
+  | { op: "reorder"; rangeStart: number; insertBefore: number }
+  | { op: "replace"; playlistId: string; uris: string[] }
+  | { op: "unfollow"; playlistId: string };
 
 function makeFakeClient(options: {
   likedTracks: SavedTrackItem[];
   existingPlaylistId?: string | null;
+  playlistUris?: string[];
+  otherPlaylists?: Record<string, string[]>;
   calls: RecordedCall[];
 }): SpotifyClient {
+  const playlists = new Map<string, string[]>(Object.entries(options.otherPlaylists ?? {}));
+  if (options.existingPlaylistId) {
+    playlists.set(options.existingPlaylistId, [...(options.playlistUris ?? [])]);
+  }
+
+  const contents = (playlistId: string) => playlists.get(playlistId)!;
+
   return {
-    refreshAccessToken: async () => "token",
+    getAccessToken: async () => "token",
     getCurrentUser: async () => ({ id: "user-1", display_name: "Shane" }),
-    getPlaylist: async () =>
-      options.existingPlaylistId ? { id: options.existingPlaylistId } : null,
-    createPublicPlaylist: async () => ({ id: "new-playlist", externalUrl: null }),
-    fetchAllLikedTracks: async () => options.likedTracks,
-    replacePlaylistItems: async (_playlistId: string, uris: string[]) => {
-      options.calls.push({ op: "replace", uris });
+    getPlaylist: async (playlistId: string) =>
+      playlists.has(playlistId) ? { id: playlistId, snapshot_id: "snapshot-0" } : null,
+    createPlaylist: async (name: string, visibility: string, description?: string) => {
+      options.calls.push({ op: "create", name, visibility, description });
+      playlists.set(`new-playlist-${name}`, []);
+      return { id: `new-playlist-${name}`, externalUrl: null };
+    },
+    fetchAllLikedTracks: async (fetchOptions?: { onTotal?: (total: number) => void }) => {
+      fetchOptions?.onTotal?.(options.likedTracks.length);
+      return options.likedTracks;
+    },
+    fetchAllPlaylistItems: async (playlistId: string) =>
+      contents(playlistId).map((uri) => ({ added_at: null, item: { type: "episode", id: uri, uri, name: uri } })),
+    addPlaylistItems: async (playlistId: string, uris: string[], position?: number) => {
+      options.calls.push({ op: "add", uris, position });
+      const playlist = contents(playlistId);
+      playlist.splice(position ?? playlist.length, 0, ...uris);
+      return "snapshot";
+    },
+    removePlaylistItems: async (playlistId: string, uris: string[]) => {
+      options.calls.push({ op: "remove", uris });
+      const removed = new Set(uris);
+      const playlist = contents(playlistId);
+      playlist.splice(0, playlist.length, ...playlist.filter((uri) => !removed.has(uri)));
+      return "snapshot";
+    },
+    reorderPlaylistItems: async (
+      playlistId: string,
+      move: { rangeStart: number; insertBefore: number; rangeLength: number }
+    ) => {
+      options.calls.push({ op: "reorder", rangeStart: move.rangeStart, insertBefore: move.insertBefore });
+      const playlist = contents(playlistId);
+      const moved = playlist.splice(move.rangeStart, move.rangeLength);
+      playlist.splice(
+        move.rangeStart < move.insertBefore ? move.insertBefore - moved.length : move.insertBefore,
+        0,
+        ...moved
+      );
+      return "snapshot";
+    },
+    replacePlaylistItems: async (playlistId: string, uris: string[]) => {
+      options.calls.push({ op: "replace", playlistId, uris });
+      playlists.set(playlistId, [...uris]);
+      return "snapshot";
+    },
+    unfollowPlaylist: async (playlistId: string) => {
+      options.calls.push({ op: "unfollow", playlistId });
+      playlists.delete(playlistId);
     },
-    addPlaylistItems: async (_playlistId: string, uris: string[]) => {
-      options.calls.push({ op: "add", uris });
+    get playlist() {
+      return playlists.get(options.existingPlaylistId ?? "") ?? [];
+    },
+    get playlists() {
+      return playlists;
     }
   } as unknown as SpotifyClient;
 }
@@ -33,46 +99,958 @@ const baseConfig: AppConfig = {
   spotifyClientId: "id",
   spotifyClientSecret: "secret",
   spotifyRefreshToken: "refresh",
+  spotifyClientOptions: {},
   fallbackPlaylistName: "Liked Songs Mirror",
-  stateFilePath: "state/state.json"
+  stateFilePath: "state/state.json",
+  targets: defaultMirrorTargets(),
+  graveyard: null,
+  safety: { maxRemovedPercent: null, maxRemovedCount: null },
+  substituteUnplayable: false,
+  substitutionCachePath: "state/substitutions.json",
+  fullSyncIntervalHours: 0
 };
 
+function targetConfig(overrides: Partial<MirrorTargetConfig>): MirrorTargetConfig {
+  return { ...defaultMirrorTargets()[0], ...overrides };
+}
+
+function stateFor(playlistId: string | null): AppState {
+  return { targets: { "liked-songs": { playlistId } } };
+}
+
+async function syncDefaultTarget(client: SpotifyClient, state: AppState, options?: SyncOptions) {
+  const result = await syncLikedSongsMirror(client, baseConfig, state, options);
+  return { summary: result.summary.targets[0], nextState: result.nextState, plan: result.plans[0] };
+}
+
 function track(uri: string): SavedTrackItem {
   return { added_at: "2026-01-01T00:00:00.000Z", track: { id: uri, uri } };
 }
 
 describe("syncLikedSongsMirror playlist write", () => {
-  it("replaces contents with the first batch (never clears first) then appends the rest", async () => {
+  it("populates a newly created playlist with appended batches of 100", async () => {
     const likedTracks = Array.from({ length: 150 }, (_, i) => track(`spotify:track:${i}`));
     const calls: RecordedCall[] = [];
-    const client = makeFakeClient({ likedTracks, existingPlaylistId: "p1", calls });
-    const state: AppState = { playlistId: "p1" };
+    const client = makeFakeClient({ likedTracks, calls });
+    const { summary } = await syncDefaultTarget(client, stateFor(null));
 
-    const { summary } = await syncLikedSongsMirror(client, baseConfig, state);
-
-    // First write is a PUT (replace) with the first 100 URIs, not an empty clear.
-    expect(calls[0].op).toBe("replace");
-    expect(calls[0].uris).toHaveLength(100);
-    // Remaining 50 are appended via POST.
-    expect(calls[1].op).toBe("add");
-    expect(calls[1].uris).toHaveLength(50);
-    // Playlist is never cleared with an empty replace while tracks exist.
-    expect(calls.some((c) => c.op === "replace" && c.uris.length === 0)).toBe(false);
+    expect(calls.map((call) => call.op)).toEqual(["create", "add", "add"]);
+    expect(calls[1]).toMatchObject({ position: 0 });
+    expect((calls[1] as { uris: string[] }).uris).toHaveLength(100);
+    expect((calls[2] as { uris: string[] }).uris).toHaveLength(50);
+    expect(summary.createdPlaylist).toBe(true);
+    expect(summary.addedCount).toBe(150);
     expect(summary.mirroredCount).toBe(150);
   });
 
-  it("clears the playlist with an empty replace when the library is empty", async () => {
+  it("performs no writes when the mirror already matches the liked songs", async () => {
+    const likedUris = ["spotify:track:1", "spotify:track:2", "spotify:track:3"];
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: likedUris.map(track),
+      existingPlaylistId: "p1",
+      playlistUris: likedUris,
+      calls
+    });
+
+    const { summary } = await syncDefaultTarget(client, stateFor("p1"));
+
+    expect(calls).toEqual([]);
+    expect(summary).toMatchObject({ addedCount: 0, removedCount: 0, movedCount: 0, mirroredCount: 3 });
+  });
+
+  it("inserts new likes at the top and removes unliked tracks without rewriting the rest", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: ["spotify:track:new", "spotify:track:1", "spotify:track:2"].map(track),
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:1", "spotify:track:gone", "spotify:track:2"],
+      calls
+    });
+
+    const { summary } = await syncDefaultTarget(client, stateFor("p1"));
+
+    expect(calls).toEqual([
+      { op: "remove", uris: ["spotify:track:gone"] },
+      { op: "add", uris: ["spotify:track:new"], position: 0 }
+    ]);
+    expect((client as unknown as { playlist: string[] }).playlist).toEqual([
+      "spotify:track:new",
+      "spotify:track:1",
+      "spotify:track:2"
+    ]);
+    expect(summary).toMatchObject({ addedCount: 1, removedCount: 1, movedCount: 0 });
+  });
+
+  it("reorders a re-liked track to the top through the reorder endpoint", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: ["spotify:track:3", "spotify:track:1", "spotify:track:2"].map(track),
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:1", "spotify:track:2", "spotify:track:3"],
+      calls
+    });
+
+    const { summary } = await syncDefaultTarget(client, stateFor("p1"));
+
+    expect(calls).toEqual([{ op: "reorder", rangeStart: 2, insertBefore: 0 }]);
+    expect(summary.movedCount).toBe(1);
+  });
+
+  it("rewrites a mirror that would take more reorders than a rewrite", async () => {
+    const calls: RecordedCall[] = [];
+    const liked = ["spotify:track:1", "spotify:track:2", "spotify:track:3", "spotify:track:4"];
+    const client = makeFakeClient({
+      likedTracks: liked.map(track),
+      existingPlaylistId: "p1",
+      playlistUris: [...liked].reverse(),
+      calls
+    });
+
+    const { summary } = await syncDefaultTarget(client, stateFor("p1"));
+
+    expect(calls).toEqual([{ op: "replace", playlistId: "p1", uris: liked }]);
+    expect((client as unknown as { playlist: string[] }).playlist).toEqual(liked);
+    expect(summary.movedCount).toBe(3);
+  });
+
+  it("empties the mirror when the library is empty", async () => {
     const calls: RecordedCall[] = [];
-    const client = makeFakeClient({ likedTracks: [], existingPlaylistId: "p1", calls });
-    const state: AppState = { playlistId: "p1" };
+    const client = makeFakeClient({
+      likedTracks: [],
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:1"],
+      calls
+    });
 
-    const { summary } = await syncLikedSongsMirror(client, baseConfig, state);
+    const { summary } = await syncDefaultTarget(client, stateFor("p1"));
 
-    expect(calls).toEqual([{ op: "replace", uris: [] }]);
+    expect(calls).toEqual([{ op: "remove", uris: ["spotify:track:1"] }]);
     expect(summary.mirroredCount).toBe(0);
   });
 });
 
+describe("syncLikedSongsMirror dry run", () => {
+  it("reads everything but neither creates nor writes the playlist", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: [track("spotify:track:1"), { added_at: "2026-01-01T00:00:00.000Z", track: null }],
+      calls
+    });
+
+    const { summary, nextState, plan } = await syncDefaultTarget(client, stateFor(null), { dryRun: true });
+
+    expect(calls).toEqual([]);
+    expect(nextState).toEqual({ targets: { "liked-songs": { playlistId: null, source: "liked-songs" } } });
+    expect(summary).toMatchObject({ playlistId: null, createdPlaylist: true, addedCount: 1 });
+    expect(plan.playlists).toHaveLength(1);
+    expect(plan.playlists[0]).toMatchObject({ part: 1, id: null, name: "Shane's Liked Songs", create: true });
+    expect(plan.playlists[0].added).toEqual([{ uri: "spotify:track:1", name: null, artists: [], position: 0 }]);
+    expect(plan.skipped).toEqual([{ uri: null, name: null, reason: "unavailable" }]);
+  });
+
+  it("previews removals and moves against an existing mirror", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: ["spotify:track:2", "spotify:track:1"].map(track),
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:1", "spotify:track:gone", "spotify:track:2"],
+      calls
+    });
+
+    const { plan } = await syncDefaultTarget(client, stateFor("p1"), { dryRun: true });
+
+    expect(calls).toEqual([]);
+    expect(plan.playlists[0].removed.map((entry) => entry.uri)).toEqual(["spotify:track:gone"]);
+    expect(plan.playlists[0].moved).toHaveLength(1);
+  });
+});
+
+describe("syncLikedSongsMirror multiple targets", () => {
+  it("fetches liked tracks once and syncs each target with its own filter, order and visibility", async () => {
+    const likedTracks: SavedTrackItem[] = [
+      { added_at: "2026-03-10T00:00:00.000Z", track: { id: "3", uri: "spotify:track:3", explicit: true } },
+      { added_at: "2026-03-01T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2", explicit: false } },
+      { added_at: "2025-01-01T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } }
+    ];
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({ likedTracks, calls });
+    let likedFetches = 0;
+    const fetchAllLikedTracks = client.fetchAllLikedTracks.bind(client);
+    client.fetchAllLikedTracks = async () => {
+      likedFetches += 1;
+      return fetchAllLikedTracks();
+    };
+    const config: AppConfig = {
+      ...baseConfig,
+      targets: [
+        targetConfig({ key: "all-likes" }),
+        targetConfig({
+          key: "clean",
+          name: "{displayName} (Clean)",
+          visibility: "private",
+          filter: [{ name: "no explicit", action: "exclude", condition: { explicit: true } }],
+          order: "oldest-first"
+        })
+      ]
+    };
+    const state: AppState = { targets: { retired: { playlistId: "old" } } };
+
+    const result = await syncLikedSongsMirror(client, config, state);
+
+    expect(likedFetches).toBe(1);
+    expect(calls.filter((call) => call.op === "create")).toEqual([
+      { op: "create", name: "Shane's Liked Songs", visibility: "public" },
+      { op: "create", name: "Shane (Clean)", visibility: "private" }
+    ]);
+    expect(calls.filter((call) => call.op === "add").map((call) => (call as { uris: string[] }).uris)).toEqual([
+      ["spotify:track:3", "spotify:track:2", "spotify:track:1"],
+      ["spotify:track:1", "spotify:track:2"]
+    ]);
+    expect(result.summary.targets.map((target) => [target.key, target.order, target.filteredCount])).toEqual([
+      ["all-likes", "newest-first", 0],
+      ["clean", "oldest-first", 1]
+    ]);
+    expect(result.summary.targets[1].ruleExclusions).toEqual([{ rule: "no explicit", excludedCount: 1 }]);
+    expect(result.nextState.targets).toEqual({
+      retired: { playlistId: "old" },
+      "all-likes": { playlistId: "new-playlist-Shane's Liked Songs", source: "liked-songs" },
+      clean: { playlistId: "new-playlist-Shane (Clean)", source: "liked-songs" }
+    });
+  });
+});
+
+describe("syncLikedSongsMirror saved albums and episodes", () => {
+  it("mirrors saved albums as sections and filtered episodes without fetching liked tracks", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({ likedTracks: [], calls });
+    client.fetchAllLikedTracks = async () => {
+      throw new Error("liked tracks are not needed");
+    };
+    const albumTracks = (id: string, count: number) => ({
+      items: Array.from({ length: count }, (_, i) => ({ id: `${id}-${i}`, uri: `spotify:track:${id}-${i}` })),
+      limit: 50,
+      offset: 0,
+      total: count,
+      next: null
+    });
+    const album = (id: string, addedAt: string) => ({
+      added_at: addedAt,
+      album: { id, uri: `spotify:album:${id}`, name: id, tracks: albumTracks(id, 2) }
+    });
+    client.fetchAllSavedAlbums = async () => [
+      album("new", "2026-02-01T00:00:00.000Z"),
+      album("old", "2026-01-01T00:00:00.000Z")
+    ];
+    const episode = (id: string, show: string) => ({
+      added_at: "2026-01-01T00:00:00.000Z",
+      episode: {
+        id,
+        uri: `spotify:episode:${id}`,
+        name: id,
+        show: { id: show, uri: `spotify:show:${show}`, name: show }
+      }
+    });
+    client.fetchAllSavedEpisodes = async () => [
+      episode("e2", "News"),
+      episode("e1", "Stories"),
+      { ...episode("e0", "Gone"), episode: null }
+    ];
+    const config: AppConfig = {
+      ...baseConfig,
+      targets: [
+        targetConfig({ key: "albums", source: { type: "saved-albums", layout: "albums" }, order: "oldest-first" }),
+        targetConfig({
+          key: "episodes",
+          name: "Episodes",
+          source: { type: "saved-episodes" },
+          filter: [{ name: "no news", action: "exclude", condition: { artist: ["News"] } }]
+        })
+      ]
+    };
+
+    const result = await syncLikedSongsMirror(client, config, { targets: {} });
+
+    expect(calls.filter((call) => call.op === "add").map((call) => (call as { uris: string[] }).uris)).toEqual([
+      ["spotify:track:old-0", "spotify:track:old-1", "spotify:track:new-0", "spotify:track:new-1"],
+      ["spotify:episode:e1"]
+    ]);
+    expect(calls.find((call) => call.op === "create")).toMatchObject({
+      description: "Mirror of saved albums (auto-synced)"
+    });
+    expect(result.summary.likedCount).toBe(0);
+    expect(result.summary.targets.map((target) => [target.key, target.skippedCount, target.filteredCount])).toEqual([
+      ["albums", 0, 0],
+      ["episodes", 1, 1]
+    ]);
+  });
+});
+
+describe("syncLikedSongsMirror sharding", () => {
+  const shardedConfig: AppConfig = {
+    ...baseConfig,
+    targets: [targetConfig({ maxTracksPerPlaylist: 2 })]
+  };
+
+  it("spreads the mirror over numbered part playlists in global newest-first order", async () => {
+    const likedUris = ["spotify:track:5", "spotify:track:4", "spotify:track:3", "spotify:track:2", "spotify:track:1"];
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({ likedTracks: likedUris.map(track), calls });
+
+    const result = await syncLikedSongsMirror(client, shardedConfig, stateFor(null));
+    const playlists = (client as unknown as { playlists: Map<string, string[]> }).playlists;
+
+    expect(calls.filter((call) => call.op === "create").map((call) => (call as { name: string }).name)).toEqual([
+      "Shane's Liked Songs",
+      "Shane's Liked Songs (Part 2)",
+      "Shane's Liked Songs (Part 3)"
+    ]);
+    expect(playlists.get("new-playlist-Shane's Liked Songs")).toEqual(["spotify:track:5", "spotify:track:4"]);
+    expect(playlists.get("new-playlist-Shane's Liked Songs (Part 2)")).toEqual(["spotify:track:3", "spotify:track:2"]);
+    expect(playlists.get("new-playlist-Shane's Liked Songs (Part 3)")).toEqual(["spotify:track:1"]);
+    expect(result.summary.targets[0]).toMatchObject({ partCount: 3, mirroredCount: 5, addedCount: 5 });
+    expect(result.nextState.targets["liked-songs"]).toEqual({
+      playlistId: "new-playlist-Shane's Liked Songs",
+      partPlaylistIds: ["new-playlist-Shane's Liked Songs (Part 2)", "new-playlist-Shane's Liked Songs (Part 3)"],
+      source: "liked-songs"
+    });
+  });
+
+  it("shifts tracks across parts and retires parts the shrunken library no longer needs", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: ["spotify:track:new", "spotify:track:4"].map(track),
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:4", "spotify:track:3"],
+      otherPlaylists: { p2: ["spotify:track:2", "spotify:track:1"], p3: ["spotify:track:0"] },
+      calls
+    });
+    const state: AppState = { targets: { "liked-songs": { playlistId: "p1", partPlaylistIds: ["p2", "p3"] } } };
+
+    const result = await syncLikedSongsMirror(client, shardedConfig, state);
+    const playlists = (client as unknown as { playlists: Map<string, string[]> }).playlists;
+
+    expect(calls.filter((call) => call.op === "create")).toEqual([]);
+    expect(playlists.get("p1")).toEqual(["spotify:track:new", "spotify:track:4"]);
+    expect(playlists.has("p2")).toBe(false);
+    expect(playlists.has("p3")).toBe(false);
+    expect(calls.filter((call) => call.op === "unfollow")).toEqual([
+      { op: "unfollow", playlistId: "p2" },
+      { op: "unfollow", playlistId: "p3" }
+    ]);
+    expect(result.summary.targets[0]).toMatchObject({ partCount: 1, retiredPartCount: 2 });
+    expect(result.plans[0].retiredPlaylistIds).toEqual(["p2", "p3"]);
+    expect(result.nextState.targets["liked-songs"]).toEqual({ playlistId: "p1", source: "liked-songs" });
+  });
+});
+
+describe("syncLikedSongsMirror sources", () => {
+  it("mirrors liked songs minus a playlist and records the source", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: ["spotify:track:3", "spotify:track:2", "spotify:track:1"].map(track),
+      otherPlaylists: { skip: ["spotify:track:2"] },
+      calls
+    });
+    const config: AppConfig = {
+      ...baseConfig,
+      targets: [
+        targetConfig({
+          key: "keepers",
+          name: "Keepers",
+          source: {
+            type: "difference",
+            from: { type: "liked-songs" },
+            minus: [{ type: "playlist", playlistId: "skip" }]
+          }
+        })
+      ]
+    };
+
+    const result = await syncLikedSongsMirror(client, config, { targets: {} });
+
+    expect(calls.find((call) => call.op === "create")).toMatchObject({
+      description: "Mirror of difference(liked-songs, playlist:skip) (auto-synced)"
+    });
+    expect(calls.find((call) => call.op === "add")).toMatchObject({ uris: ["spotify:track:3", "spotify:track:1"] });
+    expect(result.summary.targets[0].source).toBe("difference(liked-songs, playlist:skip)");
+    expect(result.nextState.targets.keepers.source).toBe("difference(liked-songs, playlist:skip)");
+  });
+});
+
+describe("syncLikedSongsMirror substitution", () => {
+  it("mirrors a playable equivalent in place of an unplayable like and reports the unresolved rest", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: [
+        { added_at: "2026-01-02T00:00:00.000Z", track: { id: "gone", uri: "spotify:track:gone", is_playable: false } },
+        { added_at: "2026-01-01T00:00:00.000Z", track: { id: "lost", uri: "spotify:track:lost", is_playable: false } }
+      ],
+      calls
+    });
+    client.findPlayableEquivalent = async (track) =>
+      track.uri === "spotify:track:gone"
+        ? { track: { id: "alt", uri: "spotify:track:alt", is_playable: true }, matchedBy: "isrc" }
+        : null;
+
+    const result = await syncLikedSongsMirror(client, { ...baseConfig, substituteUnplayable: true }, stateFor(null));
+
+    expect(calls.find((call) => call.op === "add")).toMatchObject({ uris: ["spotify:track:alt"] });
+    expect(result.summary.substitutions).toEqual([
+      { originalUri: "spotify:track:gone", substituteUri: "spotify:track:alt", name: null, matchedBy: "isrc" }
+    ]);
+    expect(result.summary.unresolvedTracks).toEqual([{ uri: "spotify:track:lost", name: null }]);
+    expect(Object.keys(result.substitutionCache!.entries)).toEqual(["spotify:track:gone", "spotify:track:lost"]);
+  });
+});
+
+describe("syncLikedSongsMirror managed details", () => {
+  const detailsTarget = targetConfig({
+    name: "{displayName}'s {trackCount} Likes",
+    details: {
+      description: "{trackCount} songs, newest: {newestTrack}",
+      enforceName: true,
+      cover: { source: "generated", background: "#000000", foreground: "#ffffff" }
+    }
+  });
+  const likedTracks: SavedTrackItem[] = [
+    { added_at: "2026-01-02T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1", name: "One" } },
+    { added_at: "2026-01-01T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2", name: "Two" } }
+  ];
+
+  function detailsClient(
+    current: { name: string; description: string; public?: boolean; collaborative?: boolean },
+    calls: unknown[]
+  ): SpotifyClient {
+    const client = makeFakeClient({
+      likedTracks,
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:1", "spotify:track:2"],
+      calls: []
+    });
+    client.getPlaylist = async (id) => ({ id, snapshot_id: "snapshot-0", ...current });
+    client.updatePlaylistDetails = async (_id, details) => void calls.push({ op: "details", ...details });
+    client.uploadPlaylistCover = async () => void calls.push({ op: "cover" });
+    return client;
+  }
+
+  it("renders the templates and sends only the details that differ, uploading a changed cover", async () => {
+    const calls: unknown[] = [];
+    const client = detailsClient({ name: "Shane's 2 Likes", description: "2 songs, newest: One&#x27;s" }, calls);
+
+    const result = await syncLikedSongsMirror(client, { ...baseConfig, targets: [detailsTarget] }, stateFor("p1"));
+
+    expect(calls).toEqual([{ op: "details", description: "2 songs, newest: One" }, { op: "cover" }]);
+    expect(result.plans[0].playlists[0].details).toEqual({
+      name: null,
+      description: "2 songs, newest: One",
+      visibility: null,
+      cover: true
+    });
+
+    calls.length = 0;
+    await syncLikedSongsMirror(
+      detailsClient({ name: "Renamed", description: "2 songs, newest: One" }, calls),
+      { ...baseConfig, targets: [detailsTarget] },
+      result.nextState
+    );
+
+    expect(calls).toEqual([{ op: "details", name: "Shane's 2 Likes" }]);
+  });
+
+  it("switches a playlist whose live visibility differs from the config", async () => {
+    const calls: unknown[] = [];
+    const current = { name: "Shane's 2 Likes", description: "2 songs, newest: One" };
+    const collaborativeTarget = { ...detailsTarget, visibility: "collaborative" as const };
+    const client = detailsClient({ ...current, public: true, collaborative: false }, calls);
+
+    const config: AppConfig = { ...baseConfig, targets: [collaborativeTarget] };
+    const result = await syncLikedSongsMirror(client, config, stateFor("p1"));
+
+    expect(calls).toEqual([{ op: "details", public: false, collaborative: true }, { op: "cover" }]);
+    expect(result.plans[0].playlists[0].details.visibility).toBe("collaborative");
+
+    calls.length = 0;
+    await syncLikedSongsMirror(
+      detailsClient({ ...current, public: false, collaborative: true }, calls),
+      config,
+      result.nextState
+    );
+
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("syncLikedSongsMirror drift", () => {
+  const likedUris = ["spotify:track:1", "spotify:track:2", "spotify:track:3"];
+
+  async function editedByHand(policy: MirrorTargetConfig["drift"], calls: RecordedCall[]) {
+    const config: AppConfig = { ...baseConfig, targets: [targetConfig({ drift: policy })] };
+    const client = makeFakeClient({ likedTracks: likedUris.map(track), existingPlaylistId: "p1", calls });
+    const first = await syncLikedSongsMirror(client, config, stateFor("p1"));
+
+    const playlist = (client as unknown as { playlist: string[] }).playlist;
+    playlist.splice(0, playlist.length, "spotify:track:1", "spotify:track:manual", "spotify:track:3");
+    client.getPlaylist = async (id) => ({ id, snapshot_id: "snapshot-edited" });
+    calls.length = 0;
+
+    return { config, client, playlist, state: first.nextState };
+  }
+
+  it("reports edits made outside the bot and overwrites them", async () => {
+    const calls: RecordedCall[] = [];
+    const { config, client, playlist, state } = await editedByHand("overwrite", calls);
+
+    const result = await syncLikedSongsMirror(client, config, state);
+
+    expect(result.summary.targets[0].drift).toEqual([
+      {
+        playlistId: "p1",
+        addedUris: ["spotify:track:manual"],
+        removedUris: ["spotify:track:2"],
+        reordered: false,
+        action: "overwritten"
+      }
+    ]);
+    expect(result.plans[0].playlists[0].drift).toMatchObject({ added: [{ uri: "spotify:track:manual" }] });
+    expect(playlist).toEqual(likedUris);
+    expect(result.nextState.targets["liked-songs"].snapshots).toEqual({
+      p1: { snapshotId: "snapshot", uris: likedUris }
+    });
+  });
+
+  it("keeps manual additions pinned in place while restoring removed tracks", async () => {
+    const calls: RecordedCall[] = [];
+    const { config, client, playlist, state } = await editedByHand("keep-additions", calls);
+
+    const result = await syncLikedSongsMirror(client, config, state);
+
+    expect(result.summary.targets[0].drift[0]).toMatchObject({ action: "kept-additions" });
+    expect(playlist).toEqual(["spotify:track:1", "spotify:track:manual", "spotify:track:2", "spotify:track:3"]);
+    expect(result.nextState.targets["liked-songs"].snapshots?.p1.pinnedUris).toEqual(["spotify:track:manual"]);
+
+    const again = await syncLikedSongsMirror(client, config, result.nextState);
+
+    expect(again.summary.targets[0].drift).toEqual([]);
+    expect(playlist).toContain("spotify:track:manual");
+  });
+
+  it("leaves an edited playlist untouched under the stop policy", async () => {
+    const calls: RecordedCall[] = [];
+    const { config, client, playlist, state } = await editedByHand("stop", calls);
+
+    const result = await syncLikedSongsMirror(client, config, state);
+
+    expect(calls).toEqual([]);
+    expect(playlist).toEqual(["spotify:track:1", "spotify:track:manual", "spotify:track:3"]);
+    expect(result.summary.targets[0].drift[0]).toMatchObject({ action: "stopped" });
+    expect(result.nextState.targets["liked-songs"].snapshots).toEqual(state.targets["liked-songs"].snapshots);
+  });
+});
+
+describe("syncLikedSongsMirror mass-removal guard", () => {
+  const guardedConfig: AppConfig = { ...baseConfig, safety: defaultSafetyConfig() };
+  const mirrored = ["spotify:track:1", "spotify:track:2", "spotify:track:3", "spotify:track:4"];
+
+  it("plans the whole run without writing when a target's selection shrank past the limits", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({ likedTracks: [track("spotify:track:1")], existingPlaylistId: "p1", calls });
+    const state: AppState = { targets: { "liked-songs": { playlistId: "p1", candidateCount: 4 } } };
+
+    const result = await syncLikedSongsMirror(client, guardedConfig, state);
+
+    expect(calls).toEqual([]);
+    expect(result.summary.refused).toBe(true);
+    expect(result.summary.safetyViolations).toEqual([
+      { target: "liked-songs", playlistId: null, previousCount: 4, removedCount: 3, limit: "maxRemovedPercent=50" }
+    ]);
+    expect(result.plans[0].dryRun).toBe(true);
+    expect(result.nextState).toBe(state);
+  });
+
+  it("leaves a playlist alone when the diff would remove too many of its tracks", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: [track("spotify:track:1")],
+      existingPlaylistId: "p1",
+      playlistUris: mirrored,
+      calls
+    });
+
+    const result = await syncLikedSongsMirror(client, guardedConfig, stateFor("p1"));
+
+    expect(calls).toEqual([]);
+    expect(result.summary.refused).toBe(false);
+    expect(result.summary.safetyViolations).toEqual([
+      { target: "liked-songs", playlistId: "p1", previousCount: 4, removedCount: 3, limit: "maxRemovedPercent=50" }
+    ]);
+    expect(result.plans[0].playlists[0]).toMatchObject({ refused: true, removed: [{}, {}, {}] });
+    expect(result.summary.targets[0].removedCount).toBe(0);
+    expect(result.nextState.targets["liked-songs"].candidateCount).toBeUndefined();
+  });
+
+  it("applies the removals when forced", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: [track("spotify:track:1")],
+      existingPlaylistId: "p1",
+      playlistUris: mirrored,
+      calls
+    });
+
+    const result = await syncLikedSongsMirror(client, guardedConfig, stateFor("p1"), { force: true });
+
+    expect(calls).toEqual([{ op: "remove", uris: mirrored.slice(1) }]);
+    expect(result.summary.safetyViolations).toEqual([]);
+    expect(result.nextState.targets["liked-songs"].candidateCount).toBe(1);
+  });
+
+  it("lets a 7-day window drop most of its tracks as they age out", async () => {
+    const calls: RecordedCall[] = [];
+    const day = 24 * 60 * 60 * 1000;
+    const likedTracks = mirrored.map((uri, index) => ({
+      added_at: new Date(Date.now() - (index === 0 ? 1 : 10 + index) * day).toISOString(),
+      track: { id: uri, uri }
+    }));
+    const client = makeFakeClient({ likedTracks, existingPlaylistId: "p1", playlistUris: mirrored, calls });
+    const state: AppState = { targets: { "liked-songs": { playlistId: "p1", candidateCount: 4 } } };
+    const windowed = (target: Partial<MirrorTargetConfig>): AppConfig => ({
+      ...guardedConfig,
+      targets: [targetConfig(target)]
+    });
+
+    const result = await syncLikedSongsMirror(client, windowed({ window: { days: 7, count: null } }), state);
+
+    expect(calls).toEqual([{ op: "remove", uris: mirrored.slice(1) }]);
+    expect(result.summary).toMatchObject({ refused: false, safetyViolations: [] });
+
+    (client as unknown as { playlist: string[] }).playlist.push(...mirrored.slice(1));
+    const filtered = await syncLikedSongsMirror(
+      client,
+      windowed({
+        filter: [{ name: "recent", action: "include", condition: { not: { not: { likedAt: { withinDays: 7 } } } } }]
+      }),
+      state
+    );
+
+    expect(filtered.summary).toMatchObject({ refused: false, safetyViolations: [] });
+    expect((client as unknown as { playlist: string[] }).playlist).toEqual(mirrored.slice(0, 1));
+    expect(filtered.nextState.likedCount).toBe(4);
+  });
+
+  it("still refuses to empty a 7-day window or follow a library that shrank past the limits", async () => {
+    const calls: RecordedCall[] = [];
+    const recent = { added_at: new Date().toISOString(), track: { id: "1", uri: "spotify:track:1" } };
+    const windowed: AppConfig = { ...guardedConfig, targets: [targetConfig({ window: { days: 7, count: null } })] };
+    const state: AppState = { targets: { "liked-songs": { playlistId: "p1", candidateCount: 1 } }, likedCount: 4 };
+
+    const emptied = await syncLikedSongsMirror(
+      makeFakeClient({ likedTracks: [], existingPlaylistId: "p1", playlistUris: ["spotify:track:1"], calls }),
+      windowed,
+      state
+    );
+
+    expect(calls).toEqual([]);
+    expect(emptied.summary.refused).toBe(true);
+    expect(emptied.summary.safetyViolations).toEqual([
+      { target: "liked-songs", playlistId: null, previousCount: 1, removedCount: 1, limit: "emptySelection" },
+      {
+        target: "liked-songs",
+        playlistId: null,
+        previousCount: 4,
+        removedCount: 4,
+        limit: "maxRemovedPercent=50",
+        library: "total"
+      }
+    ]);
+    expect(emptied.nextState).toBe(state);
+
+    const truncated = await syncLikedSongsMirror(
+      makeFakeClient({ likedTracks: [recent], existingPlaylistId: "p1", playlistUris: ["spotify:track:1"], calls }),
+      windowed,
+      state
+    );
+
+    expect(truncated.summary.safetyViolations).toMatchObject([{ previousCount: 4, removedCount: 3, library: "total" }]);
+    expect(truncated.nextState).toBe(state);
+
+    const forced = await syncLikedSongsMirror(
+      makeFakeClient({ likedTracks: [], existingPlaylistId: "p1", playlistUris: ["spotify:track:1"], calls }),
+      windowed,
+      state,
+      { force: true }
+    );
+
+    expect(calls).toEqual([{ op: "remove", uris: ["spotify:track:1"] }]);
+    expect(forced.nextState).toMatchObject({ targets: { "liked-songs": { candidateCount: 0 } }, likedCount: 0 });
+  });
+});
+
+describe("syncLikedSongsMirror graveyard", () => {
+  const graveyardConfig: AppConfig = {
+    ...baseConfig,
+    graveyard: { name: "Recently Unliked", description: "Unliked", visibility: "private", retention: null }
+  };
+  const named = (uri: string, name: string): SavedTrackItem => ({
+    added_at: "2026-01-01T00:00:00.000Z",
+    track: { id: uri, uri, name, artists: [{ id: "a", uri: "spotify:artist:a", name: "Band" }] }
+  });
+
+  it("records the liked set first, then appends tracks unliked since the previous run", async () => {
+    const calls: RecordedCall[] = [];
+    const first = await syncLikedSongsMirror(
+      makeFakeClient({ likedTracks: [named("spotify:track:a", "A"), named("spotify:track:b", "B")], calls }),
+      graveyardConfig,
+      { targets: {} }
+    );
+
+    expect(Object.keys(first.nextState.likedTracks!)).toEqual(["spotify:track:a", "spotify:track:b"]);
+    expect(first.summary.graveyard).toMatchObject({ unlikedCount: 0, trackCount: 0 });
+    expect(calls).toContainEqual({
+      op: "create",
+      name: "Recently Unliked",
+      visibility: "private",
+      description: "Unliked"
+    });
+
+    const client = makeFakeClient({
+      likedTracks: [named("spotify:track:a", "A")],
+      otherPlaylists: { [first.nextState.graveyard!.playlistId!]: [] },
+      calls: []
+    });
+    const second = await syncLikedSongsMirror(client, graveyardConfig, first.nextState, { dryRun: true });
+
+    expect(second.summary.graveyard).toMatchObject({ unlikedCount: 1, relikedCount: 0, trackCount: 1, addedCount: 1 });
+    expect(second.nextState.graveyard!.tracks).toEqual([
+      {
+        uri: "spotify:track:b",
+        name: "B",
+        artists: ["Band"],
+        likedAt: "2026-01-01T00:00:00.000Z",
+        unlikedAt: expect.any(String)
+      }
+    ]);
+    expect(second.plans.at(-1)).toMatchObject({
+      target: "graveyard",
+      playlists: [{ added: [{ uri: "spotify:track:b", name: "B", artists: ["Band"], position: 0 }] }]
+    });
+  });
+
+  it("drops tracks that are liked again and fetches every page", async () => {
+    const client = makeFakeClient({
+      likedTracks: [named("spotify:track:b", "B")],
+      otherPlaylists: { grave: ["spotify:track:b"] },
+      calls: []
+    });
+    let stopWhen: unknown = "unset";
+    const fetch = client.fetchAllLikedTracks.bind(client);
+    client.fetchAllLikedTracks = async (options) => {
+      stopWhen = options?.stopWhen;
+      return fetch(options);
+    };
+    const state: AppState = {
+      targets: {},
+      likedTracks: {},
+      graveyard: {
+        playlistId: "grave",
+        tracks: [{ uri: "spotify:track:b", name: "B", artists: [], likedAt: "2025-01-01", unlikedAt: "2026-01-01" }]
+      }
+    };
+
+    const result = await syncLikedSongsMirror(
+      client,
+      { ...graveyardConfig, targets: [targetConfig({ window: { days: 30, count: null } })] },
+      state
+    );
+
+    expect(stopWhen).toBeUndefined();
+    expect(result.summary.graveyard).toMatchObject({ playlistId: "grave", relikedCount: 1, removedCount: 1 });
+    expect((client as unknown as { playlists: Map<string, string[]> }).playlists.get("grave")).toEqual([]);
+  });
+
+  it("leaves the graveyard and the liked set alone when a windowed-only config gets a truncated library", async () => {
+    const calls: RecordedCall[] = [];
+    const recent = { ...named("spotify:track:a", "A"), added_at: new Date().toISOString() };
+    const client = makeFakeClient({
+      likedTracks: [recent],
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:a"],
+      otherPlaylists: { grave: [] },
+      calls
+    });
+    const likedTracks = Object.fromEntries(
+      ["a", "b", "c", "d"].map((id) => [`spotify:track:${id}`, { name: id, artists: [], likedAt: "2026-01-01" }])
+    );
+    const state: AppState = {
+      targets: { "liked-songs": { playlistId: "p1", candidateCount: 1 } },
+      likedTracks,
+      graveyard: { playlistId: "grave", tracks: [] }
+    };
+
+    const result = await syncLikedSongsMirror(
+      client,
+      {
+        ...graveyardConfig,
+        safety: defaultSafetyConfig(),
+        targets: [targetConfig({ window: { days: 30, count: null } })]
+      },
+      state
+    );
+
+    expect(calls).toEqual([]);
+    expect(result.summary.refused).toBe(false);
+    expect(result.summary.safetyViolations).toEqual([
+      {
+        target: "graveyard",
+        playlistId: "grave",
+        previousCount: 4,
+        removedCount: 3,
+        limit: "maxRemovedPercent=50",
+        library: "unliked"
+      }
+    ]);
+    expect(result.summary.graveyard).toMatchObject({ unlikedCount: 3, trackCount: 0, addedCount: 0 });
+    expect(result.plans.at(-1)!.playlists[0]).toMatchObject({ refused: true, added: [{}, {}, {}] });
+    expect(result.nextState.likedTracks).toBe(likedTracks);
+    expect(result.nextState.graveyard).toBe(state.graveyard);
+  });
+});
+
+describe("syncLikedSongsMirror rolling window", () => {
+  function likedOn(uri: string, daysAgo: number): SavedTrackItem {
+    return { added_at: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(), track: { id: uri, uri } };
+  }
+
+  it("mirrors only recent likes and ages older ones out of an existing window playlist", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks: [likedOn("spotify:track:new", 1), likedOn("spotify:track:mid", 5), likedOn("spotify:track:old", 40)],
+      existingPlaylistId: "p1",
+      playlistUris: ["spotify:track:mid", "spotify:track:old"],
+      calls
+    });
+    const config: AppConfig = { ...baseConfig, targets: [targetConfig({ window: { days: 30, count: null } })] };
+
+    await syncLikedSongsMirror(client, config, stateFor("p1"));
+
+    expect(calls).toEqual([
+      { op: "remove", uris: ["spotify:track:old"] },
+      { op: "add", uris: ["spotify:track:new"], position: 0 }
+    ]);
+  });
+
+  it("stops paginating once every target's window is covered", async () => {
+    const likedTracks = [likedOn("a", 1), likedOn("b", 2), likedOn("c", 50), likedOn("d", 60)];
+    const client = makeFakeClient({ likedTracks, calls: [] });
+    const stops: boolean[] = [];
+    client.fetchAllLikedTracks = async (options) => {
+      stops.push(...[1, 2, 3].map((pageEnd) => options?.stopWhen?.(likedTracks.slice(0, pageEnd)) ?? false));
+      return likedTracks;
+    };
+
+    const windowed: AppConfig = {
+      ...baseConfig,
+      targets: [
+        targetConfig({ key: "recent", window: { days: 30, count: null } }),
+        targetConfig({ key: "last-two", window: { days: null, count: 2 } })
+      ]
+    };
+    await syncLikedSongsMirror(client, windowed, { targets: {} });
+    expect(stops).toEqual([false, false, true]);
+
+    stops.length = 0;
+    const mixed: AppConfig = { ...windowed, targets: [...windowed.targets, targetConfig({ key: "all" })] };
+    await syncLikedSongsMirror(client, mixed, { targets: {} });
+    expect(stops).toEqual([false, false, false]);
+  });
+});
+
+describe("syncLikedSongsMirror archives", () => {
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const likedTracks: SavedTrackItem[] = [
+    { added_at: new Date().toISOString(), track: { id: "now", uri: "spotify:track:now" } },
+    { added_at: "2020-05-20T00:00:00.000Z", track: { id: "may", uri: "spotify:track:may" } },
+    { added_at: "2020-05-10T00:00:00.000Z", track: { id: "kept", uri: "spotify:track:kept" } },
+    { added_at: "2019-03-01T00:00:00.000Z", track: { id: "march", uri: "spotify:track:march" } }
+  ];
+  const archiveTarget = (pruneClosed: boolean) =>
+    targetConfig({
+      key: "monthly",
+      name: "Liked — {monthName} {year}",
+      archive: { period: "month", description: "Liked in {period}", timeZone: "UTC", pruneClosed }
+    });
+  const state: AppState = { targets: { monthly: { playlistId: null, archivePlaylistIds: { "2020-05": "may-id" } } } };
+
+  it("creates playlists for new periods and leaves closed periods frozen", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks,
+      otherPlaylists: { "may-id": ["spotify:track:kept", "spotify:track:unliked"] },
+      calls
+    });
+
+    const result = await syncLikedSongsMirror(
+      client,
+      { ...baseConfig, targets: [archiveTarget(false)] },
+      structuredClone(state)
+    );
+    const playlists = (client as unknown as { playlists: Map<string, string[]> }).playlists;
+    const monthName = new Date().toLocaleString("en-US", { month: "long", timeZone: "UTC" });
+    const currentName = `Liked — ${monthName} ${currentMonth.slice(0, 4)}`;
+
+    expect(calls.filter((call) => call.op === "create")).toEqual([
+      { op: "create", name: currentName, visibility: "public", description: `Liked in ${currentMonth}` },
+      { op: "create", name: "Liked — March 2019", visibility: "public", description: "Liked in 2019-03" }
+    ]);
+    expect(playlists.get(`new-playlist-${currentName}`)).toEqual(["spotify:track:now"]);
+    expect(playlists.get("may-id")).toEqual(["spotify:track:kept", "spotify:track:unliked"]);
+    expect(result.summary.targets[0]).toMatchObject({ playlistId: null, periodCount: 3, frozenPeriodCount: 1 });
+    expect(result.nextState.targets.monthly.archivePlaylistIds).toEqual({
+      [currentMonth]: `new-playlist-${currentName}`,
+      "2020-05": "may-id",
+      "2019-03": "new-playlist-Liked — March 2019"
+    });
+  });
+
+  it("only removes unliked tracks from closed periods when pruning", async () => {
+    const calls: RecordedCall[] = [];
+    const client = makeFakeClient({
+      likedTracks,
+      otherPlaylists: { "may-id": ["spotify:track:kept", "spotify:track:unliked"] },
+      calls
+    });
+
+    await syncLikedSongsMirror(client, { ...baseConfig, targets: [archiveTarget(true)] }, structuredClone(state));
+    const playlists = (client as unknown as { playlists: Map<string, string[]> }).playlists;
+
+    expect(playlists.get("may-id")).toEqual(["spotify:track:kept"]);
+  });
+});
+
+describe("selectLikedWindow", () => {
+  it("applies both bounds when set", () => {
+    const now = new Date("2026-03-01T00:00:00.000Z");
+    const liked = [
+      { added_at: "2026-02-28T00:00:00.000Z", track: null },
+      { added_at: "2026-02-27T00:00:00.000Z", track: null },
+      { added_at: "2026-01-01T00:00:00.000Z", track: null }
+    ];
+
+    expect(selectLikedWindow(liked, { days: 7, count: null }, now)).toHaveLength(2);
+    expect(selectLikedWindow(liked, { days: 7, count: 1 }, now)).toEqual([liked[0]]);
+    expect(selectLikedWindow(liked, null, now)).toBe(liked);
+  });
+});
+
+describe("renderPlaylistName", () => {
+  it("substitutes template variables, falling back to the user ID", () => {
+    expect(renderPlaylistName("{displayName} - Recent", { id: "user-1", display_name: null }, "Fallback")).toBe(
+      "user-1 - Recent"
+    );
+    expect(renderPlaylistName(null, { id: "user-1", display_name: "Shane" }, "Fallback")).toBe("Shane's Liked Songs");
+  });
+});
+
 describe("buildInitialPlaylistName", () => {
   it("uses profile display name when available", () => {
     expect(buildInitialPlaylistName("Shane", "Liked Songs Mirror")).toBe("Shane's Liked Songs");
@@ -125,5 +1103,28 @@ describe("selectCandidateUris", () => {
     expect(result.uris).toEqual(["spotify:track:1"]);
     expect(result.likedCount).toBe(5);
     expect(result.skippedCount).toBe(3);
+    expect(result.skipped.map((entry) => entry.reason)).toEqual(["local", "unplayable", "unavailable"]);
+  });
+
+  it("counts rule exclusions as filtered rather than skipped, attributed to the first excluding rule", () => {
+    const result = selectCandidateUris(
+      [
+        track("spotify:track:old"),
+        { added_at: "2026-02-27T00:00:00.000Z", track: { id: "new", uri: "spotify:track:new" } }
+      ],
+      [
+        { name: "last week", action: "include", condition: { likedAt: { withinDays: 7 } } },
+        { name: "no old uris", action: "exclude", condition: { uris: ["spotify:track:old"] } }
+      ],
+      new Date("2026-03-01T00:00:00.000Z")
+    );
+
+    expect(result.uris).toEqual(["spotify:track:new"]);
+    expect(result.filteredCount).toBe(1);
+    expect(result.skippedCount).toBe(0);
+    expect(result.ruleExclusions).toEqual([
+      { rule: "last week", excludedCount: 1 },
+      { rule: "no old uris", excludedCount: 0 }
+    ]);
   });
 });
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { dedupeRecordings } from "../src/track-dedupe";
+import type { SavedTrackItem, SpotifyTrack } from "../src/types";
+
+function liked(uri: string, fields: Partial<SpotifyTrack>): SavedTrackItem {
+  return {
+    added_at: "2026-01-01T00:00:00.000Z",
+    track: { id: uri, uri, artists: [{ id: "a", uri: "spotify:artist:a", name: "Band" }], ...fields }
+  };
+}
+
+const uris = (items: SavedTrackItem[]) => items.map((item) => item.track!.uri);
+
+describe("dedupeRecordings", () => {
+  const single = liked("single", { name: "Song", duration_ms: 200_000, external_ids: { isrc: "usabc2600001" } });
+  const album = liked("album", { name: "Song", duration_ms: 201_000, external_ids: { isrc: "USABC2600001" } });
+  const deluxe = liked("deluxe", { name: "Song (Remastered 2026)", duration_ms: 202_000 });
+  const other = liked("other", { name: "Other Song", duration_ms: 200_000 });
+
+  it("groups by ISRC and by normalized title, artist and duration, keeping the latest like", () => {
+    const result = dedupeRecordings([single, other, album, deluxe], { keep: "latest", durationToleranceSeconds: 3 });
+
+    expect(uris(result.items)).toEqual(["single", "other"]);
+    expect(result.duplicates).toEqual([
+      { keptUri: "single", droppedUri: "album", name: "Song", matchedBy: "isrc" },
+      { keptUri: "single", droppedUri: "deluxe", name: "Song (Remastered 2026)", matchedBy: "title-artist-duration" }
+    ]);
+  });
+
+  it("keeps the earliest like in its own position when configured", () => {
+    const result = dedupeRecordings([single, other, album], { keep: "earliest", durationToleranceSeconds: 3 });
+
+    expect(uris(result.items)).toEqual(["other", "album"]);
+    expect(result.duplicates).toEqual([{ keptUri: "album", droppedUri: "single", name: "Song", matchedBy: "isrc" }]);
+  });
+
+  it("treats different ISRCs or lengths beyond the tolerance as different recordings", () => {
+    const live = liked("live", { name: "Song", duration_ms: 200_000, external_ids: { isrc: "USABC2600099" } });
+    const extended = liked("extended", { name: "Song", duration_ms: 260_000 });
+
+    const result = dedupeRecordings([single, live, extended], { keep: "latest", durationToleranceSeconds: 3 });
+
+    expect(uris(result.items)).toEqual(["single", "live", "extended"]);
+    expect(result.duplicates).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { findExcludingRule, matchesCondition, parseFilterRules } from "../src/track-filter";
+import type { SavedTrackItem } from "../src/types";
+
+const now = new Date("2026-06-01T00:00:00.000Z");
+
+const item: SavedTrackItem = {
+  added_at: "2026-05-20T00:00:00.000Z",
+  track: {
+    id: "track-1",
+    uri: "spotify:track:track-1",
+    name: "Synthetic Track",
+    explicit: true,
+    duration_ms: 245000,
+    artists: [{ id: "artist-1", uri: "spotify:artist:artist-1", name: "Synthetic Artist" }],
+    album: { id: "album-1", uri: "spotify:album:album-1", name: "Synthetic Album", release_date: "2019-04-12" }
+  }
+};
+
+describe("matchesCondition", () => {
+  it("matches leaf conditions on track metadata and like date", () => {
+    expect(matchesCondition({ explicit: true }, item, now)).toBe(true);
+    expect(matchesCondition({ artist: ["synthetic artist"] }, item, now)).toBe(true);
+    expect(matchesCondition({ artist: ["artist-2"] }, item, now)).toBe(false);
+    expect(matchesCondition({ album: ["spotify:album:album-1"] }, item, now)).toBe(true);
+    expect(matchesCondition({ releaseYear: { min: 2010, max: 2019 } }, item, now)).toBe(true);
+    expect(matchesCondition({ durationSeconds: { max: 240 } }, item, now)).toBe(false);
+    expect(matchesCondition({ likedAt: { withinDays: 30 } }, item, now)).toBe(true);
+    expect(matchesCondition({ likedAt: { before: "2026-05-01" } }, item, now)).toBe(false);
+    expect(matchesCondition({ uris: ["spotify:track:track-1"] }, item, now)).toBe(true);
+  });
+
+  it("combines conditions with all, any and not", () => {
+    expect(
+      matchesCondition({ all: [{ explicit: true }, { not: { releaseYear: { min: 2020 } } }] }, item, now)
+    ).toBe(true);
+    expect(matchesCondition({ any: [{ explicit: false }, { artist: ["Nobody"] }] }, item, now)).toBe(false);
+  });
+
+  it("does not match conditions on metadata the track lacks", () => {
+    const bare: SavedTrackItem = { added_at: "2026-05-20T00:00:00.000Z", track: { id: "2", uri: "spotify:track:2" } };
+
+    expect(matchesCondition({ releaseYear: { min: 1900 } }, bare, now)).toBe(false);
+    expect(matchesCondition({ durationSeconds: { min: 0 } }, bare, now)).toBe(false);
+  });
+});
+
+describe("findExcludingRule", () => {
+  it("returns the first rule that drops the track", () => {
+    const rules = parseFilterRules(
+      [
+        { name: "keep 2010s", include: { releaseYear: { min: 2010 } } },
+        { name: "no explicit", exclude: { explicit: true } },
+        { name: "no long tracks", exclude: { durationSeconds: { min: 200 } } }
+      ],
+      "filter"
+    );
+
+    expect(findExcludingRule(rules, item, now)?.name).toBe("no explicit");
+    expect(findExcludingRule(rules.slice(0, 1), item, now)).toBeNull();
+  });
+});
+
+describe("parseFilterRules", () => {
+  it("names unnamed rules by position", () => {
+    expect(parseFilterRules([{ exclude: { explicit: true } }], "filter")).toEqual([
+      { name: "rule 1", action: "exclude", condition: { explicit: true } }
+    ]);
+  });
+
+  it("reports the path of invalid nested conditions", () => {
+    expect(() => parseFilterRules([{ exclude: { any: [{ explicit: true }, { genre: "pop" }] } }], "f")).toThrow(
+      /f\[0\]\.exclude\.any\[1\] has unknown condition "genre"/
+    );
+    expect(() => parseFilterRules([{ include: { releaseYear: { min: 2020, max: 2010 } } }], "f")).toThrow(
+      /f\[0\]\.include\.releaseYear\.min must not be greater than max/
+    );
+    expect(() => parseFilterRules([{ include: { explicit: true }, exclude: { explicit: false } }], "f")).toThrow(
+      /exactly one of "include" or "exclude"/
+    );
+    expect(() => parseFilterRules([{ exclude: { likedAt: { after: "yesterday" } } }], "f")).toThrow(
+      /likedAt\.after must be an ISO date/
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { orderAlbumSections, orderTracks } from "../src/track-order";
+import type { SpotifyTrack } from "../src/types";
+
+function track(uri: string, fields: Partial<SpotifyTrack> = {}): SpotifyTrack {
+  return { id: uri, uri, ...fields };
+}
+
+function album(name: string, releaseDate?: string) {
+  return { id: null, uri: `spotify:album:${name}`, name, release_date: releaseDate };
+}
+
+function artist(name: string) {
+  return [{ id: name, uri: `spotify:artist:${name}`, name }];
+}
+
+const uris = (tracks: SpotifyTrack[]) => tracks.map((entry) => entry.uri);
+
+describe("orderTracks", () => {
+  it("reverses liked order for oldest-first", () => {
+    expect(uris(orderTracks([track("c"), track("b"), track("a")], "oldest-first", "seed"))).toEqual(["a", "b", "c"]);
+  });
+
+  it("sorts by artist, album, disc and track number, case-insensitively", () => {
+    const tracks = [
+      track("b-side", { artists: artist("beta"), album: album("Two"), disc_number: 1, track_number: 1 }),
+      track("a2-t2", { artists: artist("Alpha"), album: album("Two"), disc_number: 1, track_number: 2 }),
+      track("a1-d2", { artists: artist("alpha"), album: album("one"), disc_number: 2, track_number: 1 }),
+      track("a1-d1", { artists: artist("Alpha"), album: album("One"), disc_number: 1, track_number: 9 }),
+      track("unknown")
+    ];
+
+    expect(uris(orderTracks(tracks, "artist-album-track", "seed"))).toEqual([
+      "a1-d1",
+      "a1-d2",
+      "a2-t2",
+      "b-side",
+      "unknown"
+    ]);
+  });
+
+  it("sorts by release date and duration, keeping liked order for ties and missing metadata last", () => {
+    const tracks = [
+      track("new", { album: album("A", "2020-05-01"), duration_ms: 200_000 }),
+      track("undated", { duration_ms: 100_000 }),
+      track("year-only", { album: album("B", "1999"), duration_ms: 200_000 }),
+      track("old", { album: album("C", "1999-02") })
+    ];
+
+    expect(uris(orderTracks(tracks, "release-date", "seed"))).toEqual(["year-only", "old", "new", "undated"]);
+    expect(uris(orderTracks(tracks, "duration", "seed"))).toEqual(["undated", "new", "year-only", "old"]);
+  });
+
+  it("shuffles deterministically per seed and keeps existing tracks in place as the library changes", () => {
+    const tracks = Array.from({ length: 20 }, (_, i) => track(`spotify:track:${i}`));
+    const shuffled = uris(orderTracks(tracks, "shuffle", "seed-1"));
+
+    expect(uris(orderTracks([...tracks].reverse(), "shuffle", "seed-1"))).toEqual(shuffled);
+    expect(uris(orderTracks(tracks, "shuffle", "seed-2"))).not.toEqual(shuffled);
+    expect(shuffled).not.toEqual(uris(tracks));
+
+    const grown = uris(orderTracks([track("spotify:track:new"), ...tracks.slice(1)], "shuffle", "seed-1"));
+    expect(grown.filter((uri) => uri !== "spotify:track:new")).toEqual(
+      shuffled.filter((uri) => uri !== "spotify:track:0")
+    );
+  });
+});
+
+describe("orderAlbumSections", () => {
+  it("keeps each album together in track order and arranges the albums by the order", () => {
+    const tracks = [
+      track("new-1", { album: album("New", "2024") }),
+      track("new-2", { album: album("New", "2024") }),
+      track("old-1", { album: album("Old", "1990") }),
+      track("old-2", { album: album("Old", "1990") })
+    ];
+
+    expect(uris(orderAlbumSections(tracks, "newest-first", "seed"))).toEqual(["new-1", "new-2", "old-1", "old-2"]);
+    expect(uris(orderAlbumSections(tracks, "oldest-first", "seed"))).toEqual(["old-1", "old-2", "new-1", "new-2"]);
+    expect(uris(orderAlbumSections(tracks, "release-date", "seed"))).toEqual(["old-1", "old-2", "new-1", "new-2"]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeSource,
+  parseUriList,
+  readSource,
+  savedAlbumTracks,
+  savedEpisodeTracks,
+  type SingleSource
+} from "../src/track-source";
+import type { SavedTrackItem } from "../src/types";
+
+const entry = (uri: string, addedAt: string): SavedTrackItem => ({ added_at: addedAt, track: { id: uri, uri } });
+
+describe("savedAlbumTracks", () => {
+  it("expands each album into its tracks, dated by the save and carrying the album", () => {
+    const tracks = savedAlbumTracks([
+      {
+        added_at: "2026-02-01T00:00:00.000Z",
+        album: {
+          id: "a1",
+          uri: "spotify:album:a1",
+          name: "First",
+          release_date: "2020-01-01",
+          tracks: {
+            items: [
+              { id: "1", uri: "spotify:track:1", name: "One", track_number: 1 },
+              { id: "2", uri: "spotify:track:2", name: "Two", track_number: 2 }
+            ],
+            limit: 50,
+            offset: 0,
+            total: 2,
+            next: null
+          }
+        }
+      }
+    ]);
+
+    expect(tracks).toEqual([
+      {
+        added_at: "2026-02-01T00:00:00.000Z",
+        track: {
+          id: "1",
+          uri: "spotify:track:1",
+          name: "One",
+          track_number: 1,
+          album: {
+            id: "a1",
+            uri: "spotify:album:a1",
+            name: "First",
+            release_date: "2020-01-01",
+            external_urls: undefined
+          }
+        }
+      },
+      expect.objectContaining({ track: expect.objectContaining({ uri: "spotify:track:2" }) })
+    ]);
+  });
+});
+
+describe("savedEpisodeTracks", () => {
+  it("uses the show as artist and album and keeps unresolved episodes as missing tracks", () => {
+    const show = { id: "s1", uri: "spotify:show:s1", name: "The Show", publisher: "Studio" };
+    const tracks = savedEpisodeTracks([
+      {
+        added_at: "2026-03-01T00:00:00.000Z",
+        episode: {
+          id: "e1",
+          uri: "spotify:episode:e1",
+          name: "Pilot",
+          duration_ms: 1_800_000,
+          release_date: "2026-02-28",
+          is_playable: true,
+          show
+        }
+      },
+      { added_at: "2026-01-01T00:00:00.000Z", episode: null }
+    ]);
+
+    expect(tracks).toEqual([
+      {
+        added_at: "2026-03-01T00:00:00.000Z",
+        track: {
+          id: "e1",
+          uri: "spotify:episode:e1",
+          name: "Pilot",
+          artists: [{ id: "s1", uri: "spotify:show:s1", name: "The Show" }],
+          explicit: undefined,
+          duration_ms: 1_800_000,
+          album: { id: "s1", uri: "spotify:show:s1", name: "The Show", release_date: "2026-02-28" },
+          is_playable: true
+        }
+      },
+      { added_at: "2026-01-01T00:00:00.000Z", track: null }
+    ]);
+  });
+});
+
+describe("readSource", () => {
+  const entries: Record<string, SavedTrackItem[]> = {
+    "liked-songs": [
+      entry("spotify:track:3", "2026-03-01T00:00:00.000Z"),
+      entry("spotify:track:2", "2026-02-01T00:00:00.000Z"),
+      entry("spotify:track:1", "2026-01-01T00:00:00.000Z")
+    ],
+    "playlist:a": [
+      entry("spotify:track:2", "2026-02-15T00:00:00.000Z"),
+      entry("spotify:track:9", "2026-04-01T00:00:00.000Z")
+    ],
+    "playlist:b": [entry("spotify:track:3", "2026-01-15T00:00:00.000Z")]
+  };
+  const reader = async (source: SingleSource) => entries[describeSource(source)];
+  const uris = (items: SavedTrackItem[]) => items.map((item) => item.track?.uri);
+
+  it("merges a union newest-added first", async () => {
+    const items = await readSource(
+      { type: "union", sources: [{ type: "liked-songs" }, { type: "playlist", playlistId: "a" }] },
+      reader
+    );
+
+    expect(uris(items)).toEqual([
+      "spotify:track:9",
+      "spotify:track:3",
+      "spotify:track:2",
+      "spotify:track:2",
+      "spotify:track:1"
+    ]);
+  });
+
+  it("keeps the first source's entries for an intersection or a difference", async () => {
+    const liked = { type: "liked-songs" } as const;
+    const a = { type: "playlist", playlistId: "a" } as const;
+    const b = { type: "playlist", playlistId: "b" } as const;
+
+    expect(uris(await readSource({ type: "intersection", sources: [liked, a] }, reader))).toEqual(["spotify:track:2"]);
+    expect(uris(await readSource({ type: "difference", from: liked, minus: [a, b] }, reader))).toEqual([
+      "spotify:track:1"
+    ]);
+    expect(describeSource({ type: "difference", from: liked, minus: [a, b] })).toBe(
+      "difference(liked-songs, playlist:a, playlist:b)"
+    );
+  });
+});
+
+describe("parseUriList", () => {
+  it("reads one URI per line, skipping blank lines and comments", () => {
+    expect(parseUriList("# favourites\nspotify:track:1\n\n  spotify:episode:2  \n")).toEqual([
+      { added_at: "1970-01-01T00:00:00.000Z", track: { id: "1", uri: "spotify:track:1" } },
+      { added_at: "1970-01-01T00:00:00.000Z", track: { id: "2", uri: "spotify:episode:2" } }
+    ]);
+    expect(() => parseUriList("spotify:track:1\nspotify:album:2")).toThrow(
+      /Line 2 is not a Spotify track or episode URI: spotify:album:2/
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import type { SpotifyClient } from "../src/spotify-client";
+import {
+  readSubstitutionCache,
+  substituteUnplayableTracks,
+  writeSubstitutionCache,
+  type SubstitutionCache
+} from "../src/track-substitution";
+import type { SavedTrackItem, SpotifyTrack } from "../src/types";
+
+const now = new Date("2026-03-10T00:00:00.000Z");
+
+function unplayable(uri: string): SavedTrackItem {
+  return { added_at: "2026-03-01T00:00:00.000Z", track: { id: uri, uri, name: uri, is_playable: false } };
+}
+
+function clientFinding(substitutes: Record<string, SpotifyTrack>, lookups: string[]): SpotifyClient {
+  return {
+    findPlayableEquivalent: async (track: SpotifyTrack) => {
+      lookups.push(track.uri);
+      const substitute = substitutes[track.uri];
+      return substitute ? { track: substitute, matchedBy: "name-artist" } : null;
+    }
+  } as unknown as SpotifyClient;
+}
+
+describe("substituteUnplayableTracks", () => {
+  it("keeps the like date, reuses fresh cache entries and drops entries for tracks no longer affected", async () => {
+    const lookups: string[] = [];
+    const alt: SpotifyTrack = { id: "alt", uri: "spotify:track:alt", is_playable: true };
+    const cache: SubstitutionCache = {
+      entries: {
+        "spotify:track:cached": { substitute: null, matchedBy: null, resolvedAt: "2026-03-09T00:00:00.000Z" },
+        "spotify:track:stale": { substitute: null, matchedBy: null, resolvedAt: "2026-02-01T00:00:00.000Z" },
+        "spotify:track:unliked": { substitute: null, matchedBy: null, resolvedAt: "2026-03-09T00:00:00.000Z" }
+      }
+    };
+    const playable: SavedTrackItem = { added_at: "2026-03-02T00:00:00.000Z", track: { id: "ok", uri: "ok" } };
+
+    const result = await substituteUnplayableTracks(
+      clientFinding({ "spotify:track:stale": alt }, lookups),
+      [playable, unplayable("spotify:track:cached"), unplayable("spotify:track:stale")],
+      cache,
+      now
+    );
+
+    expect(lookups).toEqual(["spotify:track:stale"]);
+    expect(result.likedTracks[0]).toBe(playable);
+    expect(result.likedTracks[2]).toEqual({ added_at: "2026-03-01T00:00:00.000Z", track: alt });
+    expect(result.substitutions).toEqual([
+      {
+        originalUri: "spotify:track:stale",
+        substituteUri: "spotify:track:alt",
+        name: "spotify:track:stale",
+        matchedBy: "name-artist"
+      }
+    ]);
+    expect(result.unresolvedTracks).toEqual([{ uri: "spotify:track:cached", name: "spotify:track:cached" }]);
+    expect(Object.keys(result.cache.entries)).toEqual(["spotify:track:cached", "spotify:track:stale"]);
+    expect(result.cache.entries["spotify:track:stale"].resolvedAt).toBe(now.toISOString());
+  });
+});
+
+describe("substitution cache file", () => {
+  it("round-trips through disk and treats a missing or corrupt file as empty", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "substitution-cache-"));
+
+    try {
+      const filePath = path.join(dir, "nested", "substitutions.json");
+      expect(await readSubstitutionCache(filePath)).toEqual({ entries: {} });
+
+      const cache: SubstitutionCache = {
+        entries: { a: { substitute: null, matchedBy: null, resolvedAt: now.toISOString() } }
+      };
+      await writeSubstitutionCache(filePath, cache);
+      expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual(cache);
+      expect(await readSubstitutionCache(filePath)).toEqual(cache);
+
+      await writeFile(filePath, "{not json", "utf8");
+      expect(await readSubstitutionCache(filePath)).toEqual({ entries: {} });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
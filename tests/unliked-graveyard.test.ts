@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { recordLikedTracks, updateGraveyard } from "../src/unliked-graveyard";
+import type { GraveyardTrack, LikedTrackState } from "../src/types";
+
+const now = new Date("2026-10-19T12:00:00.000Z");
+const liked = (likedAt: string): LikedTrackState => ({ name: null, artists: [], likedAt });
+const buried = (uri: string, unlikedAt: string): GraveyardTrack => ({ uri, ...liked("2025-01-01"), unlikedAt });
+
+describe("recordLikedTracks", () => {
+  it("keeps the first like of each catalog track and leaves local files out", () => {
+    expect(
+      recordLikedTracks([
+        { added_at: "2026-02-01", track: { id: "a", uri: "spotify:track:a", name: "A", artists: [] } },
+        { added_at: "2026-01-01", track: { id: "a", uri: "spotify:track:a" } },
+        { added_at: "2026-01-01", track: { id: "l", uri: "spotify:local:l", is_local: true } },
+        { added_at: "2026-01-01", track: null }
+      ])
+    ).toEqual({ "spotify:track:a": { name: "A", artists: [], likedAt: "2026-02-01" } });
+  });
+});
+
+describe("updateGraveyard", () => {
+  it("detects nothing on the first run", () => {
+    expect(updateGraveyard(undefined, { a: liked("2026-01-01") }, [], null, now)).toEqual({
+      tracks: [],
+      unliked: [],
+      relikedCount: 0,
+      expiredCount: 0
+    });
+  });
+
+  it("appends unliked tracks after the existing ones and drops re-liked tracks", () => {
+    const result = updateGraveyard(
+      { a: liked("2026-01-01"), b: liked("2026-01-02") },
+      { c: liked("2026-10-01"), x: liked("2026-01-01") },
+      [buried("x", "2026-09-01T00:00:00.000Z"), buried("y", "2026-09-02T00:00:00.000Z")],
+      null,
+      now
+    );
+
+    expect(result.tracks.map((track) => track.uri)).toEqual(["y", "a", "b"]);
+    expect(result.unliked.map((track) => track.unlikedAt)).toEqual([now.toISOString(), now.toISOString()]);
+    expect(result.relikedCount).toBe(1);
+  });
+
+  it("trims to the retention days and count, keeping the most recent unlikes", () => {
+    const tracks = [
+      buried("old", "2026-07-01T00:00:00.000Z"),
+      buried("mid", "2026-10-01T00:00:00.000Z"),
+      buried("new", "2026-10-10T00:00:00.000Z")
+    ];
+
+    const result = updateGraveyard({ gone: liked("2026-01-01") }, {}, tracks, { days: 60, count: 2 }, now);
+
+    expect(result.tracks.map((track) => track.uri)).toEqual(["new", "gone"]);
+    expect(result.expiredCount).toBe(2);
+  });
+});